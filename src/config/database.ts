@@ -1,8 +1,11 @@
-import { Pool } from 'pg';
+import { Pool, types } from 'pg';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Return NUMERIC columns (prices, quantities, balances) as numbers instead of strings
+types.setTypeParser(types.builtins.NUMERIC, (value) => parseFloat(value));
+
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
   ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
@@ -0,0 +1,9 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Identifies this server process in shared Redis state (subscription refcounts, leadership)
+export const INSTANCE_ID =
+  process.env.INSTANCE_ID || `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export type SimulationModel = 'gbm' | 'correlated' | 'jump' | 'heston';
+
+const MODELS: SimulationModel[] = ['gbm', 'correlated', 'jump', 'heston'];
+
+/**
+ * Parse SIMULATION_MODEL_OVERRIDES, e.g. "TSLA:jump,NVDA:heston"
+ * Unknown models are ignored with a warning rather than failing startup
+ */
+const parseOverrides = (value?: string): Map<string, SimulationModel> => {
+  const overrides = new Map<string, SimulationModel>();
+  if (!value) return overrides;
+
+  for (const entry of value.split(',')) {
+    const [symbol, model] = entry.split(':').map((part) => part.trim());
+    if (!symbol || !MODELS.includes(model as SimulationModel)) {
+      console.warn(`Ignoring invalid simulation model override: "${entry}"`);
+      continue;
+    }
+    overrides.set(symbol.toUpperCase(), model as SimulationModel);
+  }
+  return overrides;
+};
+
+const defaultModel = MODELS.includes(process.env.SIMULATION_MODEL as SimulationModel)
+  ? (process.env.SIMULATION_MODEL as SimulationModel)
+  : 'gbm';
+
+export const simulationConfig = {
+  // When set, mock quotes and simulated history are reproducible
+  seed: process.env.SIMULATION_SEED || undefined,
+  defaultModel,
+  modelOverrides: parseOverrides(process.env.SIMULATION_MODEL_OVERRIDES),
+  // Follow exchange trading hours: no mock ticks while closed, slower ones in extended hours
+  enforceMarketHours: process.env.SIMULATION_MARKET_HOURS !== 'false',
+  // Seconds between mock ticks during pre/post-market
+  extendedHoursIntervalSeconds: parseInt(process.env.SIMULATION_EXTENDED_HOURS_INTERVAL || '30', 10),
+};
+
+// Price model used for a symbol's mock quotes
+export const getSimulationModel = (symbol: string): SimulationModel =>
+  simulationConfig.modelOverrides.get(symbol.toUpperCase()) ?? simulationConfig.defaultModel;
@@ -1,6 +1,9 @@
 import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import jwt from 'jsonwebtoken';
+import redisClient from './redis';
+import { PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from '../protocol/market-socket';
 
 const JWT_SECRET = process.env.JWT_SECRET!;
 
@@ -8,13 +11,44 @@ export interface AuthenticatedSocket extends Socket {
   userId?: number;
 }
 
-export function initializeWebSocket(httpServer: HTTPServer): SocketIOServer {
+// Separate connections for the adapter: one publishes, one sits in subscriber mode
+const adapterPubClient = redisClient.duplicate();
+const adapterSubClient = redisClient.duplicate();
+
+/**
+ * Socket.io server backed by the Redis adapter
+ * Rooms, broadcasts (`io.to(room).emit`) and `fetchSockets` span every API node,
+ * so whichever node produces an event can reach sockets connected anywhere.
+ */
+export async function initializeWebSocket(httpServer: HTTPServer): Promise<SocketIOServer> {
+  await Promise.all([adapterPubClient.connect(), adapterSubClient.connect()]);
+
   const io = new SocketIOServer(httpServer, {
     cors: {
       origin: process.env.FRONTEND_URL || '*',
       credentials: true,
     },
     transports: ['websocket', 'polling'],
+    adapter: createAdapter(adapterPubClient, adapterSubClient),
+  });
+
+  // Clients declare the protocol they speak. Ones that send nothing predate versioning and
+  // are served the current version for now; they will be refused once that is announced
+  io.use((socket, next) => {
+    const requested = socket.handshake.auth.protocolVersion;
+    if (requested === undefined) {
+      console.warn(
+        `Socket ${socket.id} sent no protocol version; serving v${PROTOCOL_VERSION} (deprecated)`
+      );
+      return next();
+    }
+    if (SUPPORTED_PROTOCOL_VERSIONS.includes(Number(requested))) return next();
+
+    const error = new Error(`Unsupported protocol version ${requested}`);
+    Object.assign(error, {
+      data: { code: 'UNSUPPORTED_VERSION', supportedVersions: SUPPORTED_PROTOCOL_VERSIONS },
+    });
+    next(error);
   });
 
   io.use((socket: AuthenticatedSocket, next) => {
@@ -37,6 +71,10 @@ export function initializeWebSocket(httpServer: HTTPServer): SocketIOServer {
 
   io.on('connection', (socket: AuthenticatedSocket) => {
     console.log(`Client connected: ${socket.id} (User: ${socket.userId})`);
+
+    // Per-user room so services can push account events (fills, alerts) to every tab
+    socket.join(`user:${socket.userId}`);
+
     socket.on('disconnect', (reason) => {
       console.log(`Client disconnected: ${socket.id} (Reason: ${reason})`);
     });
@@ -47,4 +85,8 @@ export function initializeWebSocket(httpServer: HTTPServer): SocketIOServer {
   });
 
   return io;
+}
+
+export async function closeWebSocketAdapter(): Promise<void> {
+  await Promise.all([adapterPubClient.quit(), adapterSubClient.quit()]);
 }
\ No newline at end of file
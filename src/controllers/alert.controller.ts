@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import alertService from '../services/alert.service';
+import { z } from 'zod';
+
+const alertIdSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const createAlertSchema = z.object({
+  symbol: z.string().min(1).max(10).toUpperCase(),
+  condition: z.enum(['above', 'below', 'percent_change']),
+  threshold: z.number().positive(),
+  rearm: z.boolean().optional(),
+});
+
+const updateAlertSchema = z
+  .object({
+    threshold: z.number().positive().optional(),
+    rearm: z.boolean().optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+class AlertController {
+  // GET /alerts
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const alerts = await alertService.getAlerts(req.userId);
+      res.json({
+        data: alerts,
+      });
+    } catch (error) {
+      console.error('List alerts error:', error);
+      res.status(500).json({ error: 'Failed to fetch alerts' });
+    }
+  }
+
+  // POST /alerts
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const input = createAlertSchema.parse(req.body);
+      const alert = await alertService.createAlert(req.userId, input);
+      res.status(201).json({
+        message: 'Alert created',
+        data: alert,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create alert error:');
+    }
+  }
+
+  // GET /alerts/:id
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = alertIdSchema.parse(req.params);
+      const alert = await alertService.getAlert(req.userId, id);
+      res.json({
+        data: alert,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get alert error:');
+    }
+  }
+
+  // PATCH /alerts/:id
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = alertIdSchema.parse(req.params);
+      const data = updateAlertSchema.parse(req.body);
+      const alert = await alertService.updateAlert(req.userId, id, data);
+      res.json({
+        message: 'Alert updated',
+        data: alert,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Update alert error:');
+    }
+  }
+
+  // DELETE /alerts/:id
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = alertIdSchema.parse(req.params);
+      await alertService.deleteAlert(req.userId, id);
+      res.json({
+        message: 'Alert deleted',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Delete alert error:');
+    }
+  }
+
+  // GET /alerts/:id/triggers
+  async getTriggers(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = alertIdSchema.parse(req.params);
+      const triggers = await alertService.getTriggers(req.userId, id);
+      res.json({
+        data: triggers,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get alert triggers error:');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logPrefix: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (
+        error.message.includes('Unknown symbol') ||
+        error.message.includes('at most') ||
+        error.message.startsWith('Invalid')
+      ) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+    }
+
+    console.error(logPrefix, error);
+    res.status(500).json({ error: 'Alert request failed' });
+  }
+}
+
+export default new AlertController();
@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import backtestService, { MAX_SIMULATION_STEPS } from '../services/backtest.service';
+import { INDICATOR_TYPES } from '../utils/indicators';
+import { z } from 'zod';
+
+const backtestIdSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const operandSchema = z.union([z.string().min(1).max(50), z.number()]);
+
+const ruleSchema = z.object({
+  left: operandSchema,
+  op: z.enum(['>', '<', '>=', '<=', 'crosses_above', 'crosses_below']),
+  right: operandSchema,
+});
+
+const ruleGroupSchema = z.union([
+  z.object({ all: z.array(ruleSchema).min(1).max(10) }),
+  z.object({ any: z.array(ruleSchema).min(1).max(10) }),
+]);
+
+const strategySchema = z.object({
+  name: z.string().max(100).optional(),
+  indicators: z
+    .record(
+      z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/),
+      z.object({
+        type: z.enum(INDICATOR_TYPES),
+        period: z.number().int().min(1).max(200).optional(),
+      })
+    )
+    .refine((indicators) => Object.keys(indicators).length <= 10, {
+      message: 'At most 10 indicators',
+    }),
+  entry: ruleGroupSchema,
+  exit: ruleGroupSchema,
+  stopLossPercent: z.number().positive().max(100).optional(),
+  takeProfitPercent: z.number().positive().optional(),
+  positionSizePercent: z.number().positive().max(100).optional(),
+});
+
+const dataSourceSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('history'),
+    interval: z.enum(['1m', '5m', '1h', '1d']).default('1d'),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  }),
+  z.object({
+    type: z.literal('simulation'),
+    steps: z.number().int().min(2).max(MAX_SIMULATION_STEPS),
+    startPrice: z.number().positive().optional(),
+    drift: z.number().min(-1).max(1).optional(),
+    volatility: z.number().positive().max(2).optional(),
+    seed: z.number().int().nonnegative().optional(),
+  }),
+]);
+
+const runBacktestSchema = z.object({
+  symbol: z.string().min(1).max(10).toUpperCase(),
+  strategy: strategySchema,
+  dataSource: dataSourceSchema,
+  initialCapital: z.number().positive().max(1e9).optional(),
+  commissionPercent: z.number().min(0).max(5).optional(),
+});
+
+class BacktestController {
+  // POST /backtests
+  async run(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const input = runBacktestSchema.parse(req.body);
+      const backtest = await backtestService.runBacktest(req.userId, input);
+      res.status(201).json({
+        message: 'Backtest completed',
+        data: backtest,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Run backtest error:');
+    }
+  }
+
+  // GET /backtests
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const backtests = await backtestService.getBacktests(req.userId);
+      res.json({
+        data: backtests,
+      });
+    } catch (error) {
+      console.error('List backtests error:', error);
+      res.status(500).json({ error: 'Failed to fetch backtests' });
+    }
+  }
+
+  // GET /backtests/:id
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = backtestIdSchema.parse(req.params);
+      const backtest = await backtestService.getBacktest(req.userId, id);
+      res.json({
+        data: backtest,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get backtest error:');
+    }
+  }
+
+  // DELETE /backtests/:id
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = backtestIdSchema.parse(req.params);
+      await backtestService.deleteBacktest(req.userId, id);
+      res.json({
+        message: 'Backtest deleted',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Delete backtest error:');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logPrefix: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message.includes('Unknown indicator') || error.message.includes('Not enough')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+    }
+
+    console.error(logPrefix, error);
+    res.status(500).json({ error: 'Backtest request failed' });
+  }
+}
+
+export default new BacktestController();
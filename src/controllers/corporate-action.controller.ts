@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import corporateActionService from '../services/corporate-action.service';
+import { z } from 'zod';
+
+const actionIdSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const listActionsSchema = z.object({
+  symbol: z.string().trim().min(1).max(20).toUpperCase().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const target = {
+  symbol: z.string().trim().min(1).max(20).toUpperCase(),
+  // Applied by the job from this day on
+  exDate: z.iso.date(),
+};
+
+const createActionSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('split'),
+    // New shares per old share: 4 for a 4:1 split, 0.1 for a 1:10 reverse split
+    ratio: z
+      .number()
+      .positive()
+      .max(1000)
+      .refine((value) => value !== 1, 'ratio must not be 1'),
+    ...target,
+  }),
+  z.object({
+    kind: z.literal('cash_dividend'),
+    amount: z.number().positive().max(100000),
+    payDate: z.iso.date(),
+    ...target,
+  }),
+  z.object({
+    kind: z.literal('symbol_change'),
+    newSymbol: z.string().trim().min(1).max(20).toUpperCase(),
+    ...target,
+  }),
+]);
+
+class CorporateActionController {
+  // GET /admin/corporate-actions
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol, limit } = listActionsSchema.parse(req.query);
+      const actions = await corporateActionService.getActions(symbol, limit);
+      res.json({
+        data: actions,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'List corporate actions error:');
+    }
+  }
+
+  // POST /admin/corporate-actions
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const input = createActionSchema.parse(req.body);
+      const action = await corporateActionService.createAction(req.userId, input);
+      res.status(201).json({
+        message:
+          action.status === 'pending' ? 'Corporate action scheduled' : 'Corporate action applied',
+        data: action,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create corporate action error:');
+    }
+  }
+
+  // GET /admin/corporate-actions/:id
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = actionIdSchema.parse(req.params);
+      const action = await corporateActionService.getAction(id);
+      res.json({
+        data: action,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get corporate action error:');
+    }
+  }
+
+  // POST /admin/corporate-actions/:id/cancel
+  async cancel(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = actionIdSchema.parse(req.params);
+      const action = await corporateActionService.cancelAction(id);
+      res.json({
+        message: 'Corporate action cancelled',
+        data: action,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Cancel corporate action error:');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logPrefix: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message.includes(' already ')) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (error.message.includes(' needs ') || error.message.startsWith('Invalid')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+    }
+
+    console.error(logPrefix, error);
+    res.status(500).json({ error: 'Corporate action request failed' });
+  }
+}
+
+export default new CorporateActionController();
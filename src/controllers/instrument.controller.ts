@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import instrumentService from '../services/instrument.service';
+import { z } from 'zod';
+
+const symbolSchema = z.object({
+  symbol: z.string().trim().min(1).max(20).toUpperCase(),
+});
+
+const listInstrumentsSchema = z.object({
+  status: z.enum(['active', 'inactive', 'all']).default('active'),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Annualized drift and volatility, as used by the mock price simulator
+const simulationSchema = z.object({
+  drift: z.number().min(-1).max(1),
+  volatility: z.number().positive().max(5),
+  basePrice: z.number().positive(),
+});
+
+const instrumentFields = {
+  exchange: z.string().trim().min(1).max(50).toUpperCase().optional(),
+  sector: z.string().trim().min(1).max(100).nullable().optional(),
+  assetType: z.string().trim().min(1).max(50).toLowerCase().optional(),
+  currency: z.string().trim().min(3).max(10).toUpperCase().optional(),
+  simulation: simulationSchema.nullable().optional(),
+};
+
+const createInstrumentSchema = z.object({
+  symbol: symbolSchema.shape.symbol,
+  name: z.string().trim().min(1).max(255),
+  ...instrumentFields,
+});
+
+const updateInstrumentSchema = z
+  .object({
+    name: z.string().trim().min(1).max(255).optional(),
+    ...instrumentFields,
+  })
+  .refine((input) => Object.values(input).some((value) => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+class InstrumentController {
+  // GET /admin/instruments
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { status, limit, offset } = listInstrumentsSchema.parse(req.query);
+      const instruments = await instrumentService.listInstruments(status, limit, offset);
+      res.json({
+        data: instruments,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'List instruments error:');
+    }
+  }
+
+  // GET /admin/instruments/:symbol
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = symbolSchema.parse(req.params);
+      const instrument = await instrumentService.getInstrument(symbol);
+      res.json({
+        data: instrument,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get instrument error:');
+    }
+  }
+
+  // POST /admin/instruments
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol, ...input } = createInstrumentSchema.parse(req.body);
+      const instrument = await instrumentService.createInstrument(symbol, input);
+      res.status(201).json({
+        message: 'Instrument created',
+        data: instrument,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create instrument error:');
+    }
+  }
+
+  // PATCH /admin/instruments/:symbol
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = symbolSchema.parse(req.params);
+      const input = updateInstrumentSchema.parse(req.body);
+      const instrument = await instrumentService.updateInstrument(symbol, input);
+      res.json({
+        message: 'Instrument updated',
+        data: instrument,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Update instrument error:');
+    }
+  }
+
+  // POST /admin/instruments/:symbol/deactivate
+  async deactivate(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = symbolSchema.parse(req.params);
+      const instrument = await instrumentService.deactivateInstrument(symbol);
+      res.json({
+        message: 'Instrument deactivated',
+        data: instrument,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Deactivate instrument error:');
+    }
+  }
+
+  // POST /admin/instruments/:symbol/reactivate
+  async reactivate(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = symbolSchema.parse(req.params);
+      const instrument = await instrumentService.reactivateInstrument(symbol);
+      res.json({
+        message: 'Instrument reactivated',
+        data: instrument,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Reactivate instrument error:');
+    }
+  }
+
+  // POST /admin/instruments/import (text/csv body, or a JSON array)
+  async import(req: Request, res: Response): Promise<void> {
+    try {
+      const format = req.is('text/csv') || req.is('text/plain') ? 'csv' : 'json';
+      const result = await instrumentService.importInstruments(format, req.body);
+      const imported = result.inserted + result.updated;
+      // Partial imports succeed and list the rejected rows; nothing usable is a bad request
+      res.status(imported === 0 && result.errors.length > 0 ? 400 : 200).json({
+        message: `Imported ${imported} instruments`,
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Import instruments error:');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logPrefix: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message.includes(' already ')) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (error.message.startsWith('Invalid') || error.message.includes('at most')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+    }
+
+    console.error(logPrefix, error);
+    res.status(500).json({ error: 'Instrument request failed' });
+  }
+}
+
+export default new InstrumentController();
@@ -1,5 +1,13 @@
 import { Request, Response } from 'express';
 import marketDataService from '../services/market-data.service';
+import candleService from '../services/candle.service';
+import priceUpdaterService from '../services/price-updater.service';
+import indicatorService from '../services/indicator.service';
+import orderBookService from '../services/order-book.service';
+import instrumentService from '../services/instrument.service';
+import { getRecordingSummary } from '../models/price-recording.model';
+import { INDICATOR_TYPES, DEFAULT_PERIODS } from '../utils/indicators';
+import optionsService, { MAX_CHAIN_STRIKES } from '../services/options.service';
 import { z } from 'zod';
 
 const symbolSchema = z.object({
@@ -11,7 +19,60 @@ const multipleSymbolsSchema = z.object({
 });
 
 const searchSchema = z.object({
-  q: z.string().min(1),
+  q: z.string().trim().min(1).max(100),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+// Accepts epoch milliseconds or an ISO date string
+const timeParam = z
+  .union([z.coerce.number().int().positive(), z.string().datetime()])
+  .transform((value) => new Date(value));
+
+const candlesSchema = z.object({
+  interval: z.enum(['1m', '5m', '1h', '1d']).default('1m'),
+  from: timeParam.optional(),
+  to: timeParam.optional(),
+});
+
+// Candles are restated for splits and dividends unless `adjusted=false`
+const candleRequestSchema = candlesSchema.extend({
+  adjusted: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
+});
+
+const recordingsSchema = z.object({
+  from: timeParam.optional(),
+  to: timeParam.optional(),
+});
+
+const indicatorsSchema = candlesSchema.extend({
+  type: z.enum(INDICATOR_TYPES),
+  period: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+const optionPriceSchema = z.object({
+  type: z.enum(['call', 'put']),
+  strike: z.coerce.number().positive(),
+  days: z.coerce.number().positive().max(3650),
+  volatility: z.coerce.number().positive().max(5).optional(),
+  rate: z.coerce.number().min(-0.05).max(0.5).optional(),
+  spot: z.coerce.number().positive().optional(),
+});
+
+const impliedVolatilitySchema = optionPriceSchema.omit({ volatility: true }).extend({
+  premium: z.coerce.number().positive(),
+});
+
+const optionChainSchema = z.object({
+  // Comma-separated days to expiry, e.g. 7,30,90
+  expiries: z
+    .string()
+    .transform((value) => value.split(',').map(Number))
+    .pipe(z.array(z.number().int().positive().max(3650)).min(1).max(12))
+    .optional(),
+  strikes: z.coerce.number().int().min(1).max(MAX_CHAIN_STRIKES).default(11),
 });
 
 class MarketController {
@@ -66,8 +127,8 @@ class MarketController {
    // GET /market/search?q=apple
   async search(req: Request, res: Response): Promise<void> {
     try {
-      const { q } = searchSchema.parse(req.query);
-      const results = await marketDataService.searchInstruments(q);
+      const { q, limit } = searchSchema.parse(req.query);
+      const results = await instrumentService.search(q, limit);
       res.json({
         data: results,
       });
@@ -83,6 +144,231 @@ class MarketController {
       res.status(500).json({ error: 'Search failed' });
     }
   }
+
+   // GET /market/providers/health
+  async getProviderHealth(req: Request, res: Response): Promise<void> {
+    try {
+      const providers = marketDataService.getProviderHealth();
+      const usable = providers.filter((p) => p.configured && p.state !== 'open');
+      // ok: every configured provider usable; degraded: some; mock_only: none
+      const status =
+        usable.length === 0
+          ? 'mock_only'
+          : usable.length < providers.filter((p) => p.configured).length
+            ? 'degraded'
+            : 'ok';
+
+      res.json({
+        data: { status, providers },
+      });
+    } catch (error) {
+      console.error('Provider health error:', error);
+      res.status(500).json({ error: 'Failed to fetch provider health' });
+    }
+  }
+
+   // GET /market/updater/status
+  async getUpdaterStatus(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        data: await priceUpdaterService.getStatus(),
+      });
+    } catch (error) {
+      console.error('Updater status error:', error);
+      res.status(500).json({ error: 'Failed to fetch updater status' });
+    }
+  }
+
+  // GET /market/book/:symbol
+  async getOrderBook(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = symbolSchema.parse(req.params);
+      const book = await orderBookService.getSnapshotOrPreview(symbol);
+      res.json({ data: book });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Invalid symbol',
+          details: error.issues,
+        });
+        return;
+      }
+
+      console.error('Get order book error:', error);
+      res.status(500).json({ error: 'Failed to fetch order book' });
+    }
+  }
+
+  // GET /market/recordings?from=&to= (defaults to the last 24 hours)
+  async getRecordings(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = recordingsSchema.parse(req.query);
+      const end = to ?? new Date();
+      const start = from ?? new Date(end.getTime() - 24 * 60 * 60 * 1000);
+      const recordings = await getRecordingSummary(start, end);
+      res.json({
+        data: recordings.map((recording) => ({
+          symbol: recording.symbol,
+          ticks: recording.tick_count,
+          from: recording.first_at.getTime(),
+          to: recording.last_at.getTime(),
+        })),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Invalid request',
+          details: error.issues,
+        });
+        return;
+      }
+
+      console.error('Get recordings error:', error);
+      res.status(500).json({ error: 'Failed to fetch recordings' });
+    }
+  }
+
+   // GET /market/candles/:symbol?interval=5m&from=&to=&adjusted=false
+  async getCandles(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = symbolSchema.parse(req.params);
+      const { interval, from, to, adjusted } = candleRequestSchema.parse(req.query);
+      if (from && to && from > to) {
+        res.status(400).json({ error: '`from` must be before `to`' });
+        return;
+      }
+
+      const candles = await candleService.getCandles(symbol, interval, from, to, adjusted);
+      res.json({
+        data: {
+          symbol,
+          interval,
+          adjusted,
+          candles,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Invalid candles request',
+          details: error.issues,
+        });
+        return;
+      }
+      console.error('Get candles error:', error);
+      res.status(500).json({ error: 'Failed to fetch candles' });
+    }
+  }
+
+   // GET /market/indicators/:symbol?type=rsi&period=14&interval=1m
+  async getIndicators(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = symbolSchema.parse(req.params);
+      const { type, interval, from, to, ...rest } = indicatorsSchema.parse(req.query);
+      const period = rest.period ?? DEFAULT_PERIODS[type];
+
+      const values = await indicatorService.getIndicator(
+        symbol,
+        { type, period, interval },
+        from,
+        to
+      );
+      res.json({
+        data: {
+          symbol,
+          type,
+          period,
+          interval,
+          values,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Invalid indicators request',
+          details: error.issues,
+        });
+        return;
+      }
+      console.error('Get indicators error:', error);
+      res.status(500).json({ error: 'Failed to compute indicator' });
+    }
+  }
+
+   // GET /market/options/:symbol/chain?expiries=7,30,90&strikes=11
+  async getOptionChain(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = symbolSchema.parse(req.params);
+      const { expiries, strikes } = optionChainSchema.parse(req.query);
+      const chain = await optionsService.getChain(symbol, expiries, strikes);
+      res.json({
+        data: chain,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Invalid option chain request',
+          details: error.issues,
+        });
+        return;
+      }
+      console.error('Get option chain error:', error);
+      res.status(500).json({ error: 'Failed to build option chain' });
+    }
+  }
+
+   // GET /market/options/:symbol/price?type=call&strike=200&days=30
+  async priceOption(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = symbolSchema.parse(req.params);
+      const input = optionPriceSchema.parse(req.query);
+      const option = await optionsService.priceOption(symbol, input);
+      res.json({
+        data: option,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Invalid option pricing request',
+          details: error.issues,
+        });
+        return;
+      }
+      console.error('Price option error:', error);
+      res.status(500).json({ error: 'Failed to price option' });
+    }
+  }
+
+   // GET /market/options/:symbol/implied-volatility?type=call&strike=200&days=30&premium=7.5
+  async getImpliedVolatility(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = symbolSchema.parse(req.params);
+      const input = impliedVolatilitySchema.parse(req.query);
+      const result = await optionsService.getImpliedVolatility(symbol, input);
+      res.json({
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Invalid implied volatility request',
+          details: error.issues,
+        });
+        return;
+      }
+
+      if (
+        error instanceof Error &&
+        (error.message.includes('no-arbitrage') || error.message.includes('did not converge'))
+      ) {
+        res.status(422).json({ error: error.message });
+        return;
+      }
+
+      console.error('Implied volatility error:', error);
+      res.status(500).json({ error: 'Failed to solve implied volatility' });
+    }
+  }
 }
 
 export default new MarketController();
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import orderController from './order.controller';
+import orderService from '../services/order.service';
+
+jest.mock('../services/order.service', () => ({
+  __esModule: true,
+  default: { placeOrder: jest.fn(), getOrders: jest.fn(), cancelOrder: jest.fn() },
+}));
+
+const placeOrder = orderService.placeOrder as jest.Mock;
+const cancelOrder = orderService.cancelOrder as jest.Mock;
+
+function mockResponse() {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+function request(body: object, params: object = {}): Request {
+  return { userId: 1, body, params, query: {} } as unknown as Request;
+}
+
+const marketBuy = { symbol: 'AAPL', side: 'buy', type: 'market', quantity: 10 };
+
+describe('OrderController', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('rejects an invalid order with 400', async () => {
+    const res = mockResponse();
+    await orderController.placeOrder(
+      request({ ...marketBuy, quantity: -1 }),
+      res as unknown as Response
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(placeOrder).not.toHaveBeenCalled();
+  });
+
+  it('reports insufficient buying power as 400', async () => {
+    placeOrder.mockRejectedValue(new Error('Insufficient buying power'));
+    const res = mockResponse();
+    await orderController.placeOrder(request(marketBuy), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Insufficient buying power' });
+  });
+
+  it('reports database failures as 500 without leaking the message', async () => {
+    placeOrder.mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:5432'));
+    const res = mockResponse();
+    await orderController.placeOrder(request(marketBuy), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Order request failed' });
+  });
+
+  it('reports a halted symbol as 409', async () => {
+    placeOrder.mockRejectedValue(
+      new Error('Trading in AAPL is halted; market orders are not accepted')
+    );
+    const res = mockResponse();
+    await orderController.placeOrder(request(marketBuy), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+
+  it('reports a missing order as 404', async () => {
+    cancelOrder.mockRejectedValue(new Error('Order not found or no longer open'));
+    const res = mockResponse();
+    await orderController.cancelOrder(request({}, { id: '7' }), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import orderService from '../services/order.service';
+import { z } from 'zod';
+
+const placeOrderSchema = z
+  .object({
+    symbol: z.string().min(1).max(10).toUpperCase(),
+    side: z.enum(['buy', 'sell']),
+    type: z.enum(['market', 'limit']),
+    quantity: z.number().positive(),
+    limitPrice: z.number().positive().optional(),
+  })
+  .refine((data) => data.type === 'market' || data.limitPrice !== undefined, {
+    message: 'limitPrice is required for limit orders',
+    path: ['limitPrice'],
+  });
+
+const listOrdersSchema = z.object({
+  status: z.enum(['open', 'filled', 'cancelled', 'rejected']).optional(),
+});
+
+const orderIdSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+class OrderController {
+  // POST /orders
+  async placeOrder(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const input = placeOrderSchema.parse(req.body);
+      const order = await orderService.placeOrder(req.userId, input);
+      res.status(201).json({
+        message: order.status === 'filled' ? 'Order filled' : 'Order placed',
+        data: order,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Place order error:', 'Invalid order');
+    }
+  }
+
+  // GET /orders?status=open
+  async getOrders(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { status } = listOrdersSchema.parse(req.query);
+      const orders = await orderService.getOrders(req.userId, status);
+      res.json({
+        data: orders,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get orders error:', 'Invalid request');
+    }
+  }
+
+  // DELETE /orders/:id
+  async cancelOrder(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = orderIdSchema.parse(req.params);
+      const order = await orderService.cancelOrder(req.userId, id);
+      res.json({
+        message: 'Order cancelled',
+        data: order,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Cancel order error:', 'Invalid order id');
+    }
+  }
+
+  // Known business rule failures are the client's; anything else (database, provider) is ours
+  private handleError(res: Response, error: unknown, logPrefix: string, invalid: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: invalid,
+        details: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message.includes('is halted')) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (error.message.includes('Insufficient') || error.message.includes('is required')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+    }
+
+    console.error(logPrefix, error);
+    res.status(500).json({ error: 'Order request failed' });
+  }
+}
+
+export default new OrderController();
@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import portfolioService from '../services/portfolio.service';
+import riskService, {
+  DEFAULT_RISK_PATHS,
+  MAX_RISK_PATHS,
+  DEFAULT_RISK_HORIZON_DAYS,
+  MAX_RISK_HORIZON_DAYS,
+} from '../services/risk.service';
+import { z } from 'zod';
+
+const riskSchema = z.object({
+  paths: z.coerce.number().int().min(100).max(MAX_RISK_PATHS).default(DEFAULT_RISK_PATHS),
+  horizon: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_RISK_HORIZON_DAYS)
+    .default(DEFAULT_RISK_HORIZON_DAYS),
+});
+
+class PortfolioController {
+  // GET /portfolio
+  async getPortfolio(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const portfolio = await portfolioService.getPortfolio(req.userId);
+      res.json({
+        data: portfolio,
+      });
+    } catch (error) {
+      console.error('Get portfolio error:', error);
+      res.status(500).json({ error: 'Failed to fetch portfolio' });
+    }
+  }
+
+  // GET /portfolio/positions
+  async getPositions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const positions = await portfolioService.getPositions(req.userId);
+      res.json({
+        data: positions,
+      });
+    } catch (error) {
+      console.error('Get positions error:', error);
+      res.status(500).json({ error: 'Failed to fetch positions' });
+    }
+  }
+
+  // GET /portfolio/risk?paths=2000&horizon=10
+  async getRisk(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { paths, horizon } = riskSchema.parse(req.query);
+      const report = await riskService.getPortfolioRisk(req.userId, paths, horizon);
+      res.json({
+        data: report,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Invalid risk request',
+          details: error.issues,
+        });
+        return;
+      }
+      console.error('Get portfolio risk error:', error);
+      res.status(500).json({ error: 'Failed to compute portfolio risk' });
+    }
+  }
+}
+
+export default new PortfolioController();
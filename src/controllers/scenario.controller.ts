@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import marketScenarioService from '../services/market-scenario.service';
+import { z } from 'zod';
+
+const scenarioIdSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const target = {
+  name: z.string().min(1).max(100).optional(),
+  symbols: z.array(z.string().min(1).max(10)).min(1).max(100).optional(),
+  sector: z.string().min(1).max(100).optional(),
+  // Omit to trigger now; a future time schedules the scenario
+  startsAt: z.iso
+    .datetime()
+    .transform((value) => new Date(value))
+    .optional(),
+};
+
+const createScenarioSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('gap'),
+    percent: z
+      .number()
+      .min(-90)
+      .max(100)
+      .refine((value) => value !== 0, 'percent must not be 0'),
+    ...target,
+  }),
+  z.object({
+    kind: z.literal('halt'),
+    durationSeconds: z
+      .number()
+      .int()
+      .positive()
+      .max(7 * 24 * 3600)
+      .optional(),
+    ...target,
+  }),
+  z.object({
+    kind: z.literal('volatility'),
+    multiplier: z.number().positive().max(20),
+    durationSeconds: z
+      .number()
+      .int()
+      .positive()
+      .max(7 * 24 * 3600),
+    ...target,
+  }),
+]);
+
+const listScenariosSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+class ScenarioController {
+  // GET /admin/scenarios
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit } = listScenariosSchema.parse(req.query);
+      const scenarios = await marketScenarioService.getScenarios(limit);
+      res.json({
+        data: scenarios,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'List scenarios error:');
+    }
+  }
+
+  // POST /admin/scenarios
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const input = createScenarioSchema.parse(req.body);
+      const scenario = await marketScenarioService.createScenario(req.userId, input);
+      res.status(201).json({
+        message: scenario.starts_at > new Date() ? 'Scenario scheduled' : 'Scenario started',
+        data: scenario,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create scenario error:');
+    }
+  }
+
+  // GET /admin/scenarios/:id
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = scenarioIdSchema.parse(req.params);
+      const scenario = await marketScenarioService.getScenario(id);
+      res.json({
+        data: scenario,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get scenario error:');
+    }
+  }
+
+  // POST /admin/scenarios/:id/cancel
+  async cancel(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = scenarioIdSchema.parse(req.params);
+      const scenario = await marketScenarioService.cancelScenario(id);
+      res.json({
+        message: 'Scenario cancelled',
+        data: scenario,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Cancel scenario error:');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logPrefix: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message.includes(' needs ')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+    }
+
+    console.error(logPrefix, error);
+    res.status(500).json({ error: 'Scenario request failed' });
+  }
+}
+
+export default new ScenarioController();
@@ -0,0 +1,182 @@
+import { Request, Response } from 'express';
+import watchlistService from '../services/watchlist.service';
+import { z } from 'zod';
+
+const watchlistIdSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const createWatchlistSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  symbols: z.array(z.string().min(1).max(10)).max(50).optional(),
+});
+
+const renameWatchlistSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+const addSymbolsSchema = z.object({
+  symbols: z.array(z.string().min(1).max(10)).min(1).max(50),
+});
+
+const symbolParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  symbol: z.string().min(1).max(10).toUpperCase(),
+});
+
+class WatchlistController {
+  // GET /watchlists
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const watchlists = await watchlistService.getWatchlists(req.userId);
+      res.json({
+        data: watchlists,
+      });
+    } catch (error) {
+      console.error('List watchlists error:', error);
+      res.status(500).json({ error: 'Failed to fetch watchlists' });
+    }
+  }
+
+  // GET /watchlists/:id
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = watchlistIdSchema.parse(req.params);
+      const watchlist = await watchlistService.getWatchlist(req.userId, id);
+      res.json({
+        data: watchlist,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get watchlist error:');
+    }
+  }
+
+  // POST /watchlists
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { name, symbols } = createWatchlistSchema.parse(req.body);
+      const watchlist = await watchlistService.createWatchlist(req.userId, name, symbols);
+      res.status(201).json({
+        message: 'Watchlist created',
+        data: watchlist,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create watchlist error:');
+    }
+  }
+
+  // PATCH /watchlists/:id
+  async rename(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = watchlistIdSchema.parse(req.params);
+      const { name } = renameWatchlistSchema.parse(req.body);
+      const watchlist = await watchlistService.renameWatchlist(req.userId, id, name);
+      res.json({
+        message: 'Watchlist updated',
+        data: watchlist,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Rename watchlist error:');
+    }
+  }
+
+  // DELETE /watchlists/:id
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = watchlistIdSchema.parse(req.params);
+      await watchlistService.deleteWatchlist(req.userId, id);
+      res.json({
+        message: 'Watchlist deleted',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Delete watchlist error:');
+    }
+  }
+
+  // POST /watchlists/:id/symbols
+  async addSymbols(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id } = watchlistIdSchema.parse(req.params);
+      const { symbols } = addSymbolsSchema.parse(req.body);
+      const watchlist = await watchlistService.addSymbols(req.userId, id, symbols);
+      res.json({
+        message: 'Symbols added',
+        data: watchlist,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Add watchlist symbols error:');
+    }
+  }
+
+  // DELETE /watchlists/:id/symbols/:symbol
+  async removeSymbol(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      const { id, symbol } = symbolParamSchema.parse(req.params);
+      const watchlist = await watchlistService.removeSymbol(req.userId, id, symbol);
+      res.json({
+        message: 'Symbol removed',
+        data: watchlist,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Remove watchlist symbol error:');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logPrefix: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message.includes('already exists')) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (error.message.includes('Unknown symbol') || error.message.includes('at most')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+    }
+
+    console.error(logPrefix, error);
+    res.status(500).json({ error: 'Watchlist request failed' });
+  }
+}
+
+export default new WatchlistController();
@@ -0,0 +1,156 @@
+import express, { Request, Response } from 'express';
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import stockSimulator from '../utils/stock-simulator';
+import { getSimulationState } from '../models/instrument.model';
+
+dotenv.config();
+
+/**
+ * Local stand-in for an upstream quote API
+ * Serves Finnhub's /api/v1/quote shape from the price simulator so the provider
+ * chain (MARKET_DATA_PROVIDERS=local,...) can be exercised without network access.
+ * Per-symbol parameters are read from the instruments table at startup; without a
+ * database every symbol starts at its fallback price.
+ * Faults can be injected to watch circuit breakers open and recover:
+ *
+ *   npm run local-provider
+ *   curl -X PUT localhost:4010/faults -H 'Content-Type: application/json' \
+ *     -d '{"failureRate":0.5,"latencyMs":200,"rateLimitPerMinute":30}'
+ */
+
+const port = parseInt(process.env.LOCAL_PROVIDER_PORT || '4010', 10);
+
+const faultsSchema = z.object({
+  // Share of requests answered with HTTP 503
+  failureRate: z.number().min(0).max(1).optional(),
+  // Delay added to every quote
+  latencyMs: z.number().int().min(0).max(30000).optional(),
+  // Requests allowed per rolling minute before HTTP 429 (0 = unlimited)
+  rateLimitPerMinute: z.number().int().min(0).optional(),
+});
+
+type Faults = Required<z.infer<typeof faultsSchema>>;
+
+const faults: Faults = {
+  failureRate: parseFloat(process.env.LOCAL_PROVIDER_FAILURE_RATE || '0'),
+  latencyMs: parseInt(process.env.LOCAL_PROVIDER_LATENCY_MS || '0', 10),
+  rateLimitPerMinute: parseInt(process.env.LOCAL_PROVIDER_RATE_LIMIT || '0', 10),
+};
+
+// Day state per symbol: previous close stays fixed, price walks minute by minute
+interface SymbolDay {
+  previousClose: number;
+  open: number;
+  high: number;
+  low: number;
+  price: number;
+  volume: number;
+}
+
+const days = new Map<string, SymbolDay>();
+let requestTimes: number[] = [];
+
+const app = express();
+app.use(express.json());
+
+app.get('/health', (req: Request, res: Response) => {
+  res.json({ status: 'ok', faults });
+});
+
+app.get('/faults', (req: Request, res: Response) => {
+  res.json(faults);
+});
+
+app.put('/faults', (req: Request, res: Response) => {
+  const parsed = faultsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid input', details: parsed.error.issues });
+    return;
+  }
+  Object.assign(faults, parsed.data);
+  console.log('Faults updated:', faults);
+  res.json(faults);
+});
+
+app.get('/api/v1/quote', async (req: Request, res: Response) => {
+  const now = Date.now();
+  requestTimes = requestTimes.filter((time) => now - time < 60000);
+  if (faults.rateLimitPerMinute > 0 && requestTimes.length >= faults.rateLimitPerMinute) {
+    const retryAfter = Math.ceil((60000 - (now - requestTimes[0])) / 1000);
+    res.set('Retry-After', String(retryAfter)).status(429).json({ error: 'API limit reached' });
+    return;
+  }
+  requestTimes.push(now);
+
+  if (faults.latencyMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, faults.latencyMs));
+  }
+  if (Math.random() < faults.failureRate) {
+    res.status(503).json({ error: 'Injected failure' });
+    return;
+  }
+
+  const symbol = String(req.query.symbol || '').toUpperCase();
+  if (!/^[A-Z.]{1,10}$/.test(symbol)) {
+    // Finnhub answers unknown symbols with all-zero fields
+    res.json({ c: 0, d: null, dp: null, h: 0, l: 0, o: 0, pc: 0, t: 0, v: 0 });
+    return;
+  }
+
+  const params = stockSimulator.getSymbolParameters(symbol);
+  let day = days.get(symbol);
+  if (!day) {
+    const previousClose = params.basePrice;
+    day = {
+      previousClose,
+      open: previousClose,
+      high: previousClose,
+      low: previousClose,
+      price: previousClose,
+      volume: 0,
+    };
+    days.set(symbol, day);
+  }
+
+  day.price = stockSimulator.generateNextPrice(
+    day.price,
+    params.drift,
+    params.volatility,
+    1 / (252 * 78)
+  );
+  day.high = Math.max(day.high, day.price);
+  day.low = Math.min(day.low, day.price);
+  // Cumulative day volume, like a real feed
+  day.volume += Math.floor(stockSimulator.randomUniform() * 50000);
+  const change = day.price - day.previousClose;
+
+  res.json({
+    c: day.price,
+    d: parseFloat(change.toFixed(2)),
+    dp: parseFloat(((change / day.previousClose) * 100).toFixed(4)),
+    h: day.high,
+    l: day.low,
+    o: day.open,
+    pc: day.previousClose,
+    t: Math.floor(now / 1000),
+    v: day.volume,
+  });
+});
+
+const startServer = async () => {
+  try {
+    const { parameters } = await getSimulationState();
+    stockSimulator.setSymbolParameters(parameters);
+    console.log(`Loaded simulator parameters for ${parameters.size} instruments`);
+  } catch (error) {
+    console.warn('Could not load instrument parameters, using fallbacks:', error);
+  }
+
+  app.listen(port, () => {
+    console.log(`Local market data provider running on http://localhost:${port}`);
+    console.log('Faults:', faults);
+  });
+};
+
+startServer();
@@ -5,11 +5,31 @@ import pool from './config/database';
 import redisClient, { connectRedis } from './config/redis';
 import { createUsersTable } from './models/user.model';
 import { createInstrumentsTable } from './models/instrument.model';
+import { createOrdersTable } from './models/order.model';
+import { createPortfolioTables } from './models/portfolio.model';
+import { createWatchlistsTable } from './models/watchlist.model';
+import { createAlertsTable } from './models/alert.model';
+import { createCandlesTable } from './models/candle.model';
+import { createBacktestsTable } from './models/backtest.model';
+import { createPriceRecordingsTable } from './models/price-recording.model';
+import { createMarketScenariosTable } from './models/market-scenario.model';
+import { createCorporateActionsTable } from './models/corporate-action.model';
 import authRoutes from './routes/auth.routes';
 import marketRoutes from './routes/market.routes';
-import { initializeWebSocket } from './config/websocket';
+import orderRoutes from './routes/order.routes';
+import portfolioRoutes from './routes/portfolio.routes';
+import watchlistRoutes from './routes/watchlist.routes';
+import alertRoutes from './routes/alert.routes';
+import backtestRoutes from './routes/backtest.routes';
+import adminRoutes from './routes/admin.routes';
+import { initializeWebSocket, closeWebSocketAdapter } from './config/websocket';
 import websocketMarketService from './services/websocket-market.service';
 import priceUpdaterService from './services/price-updater.service';
+import candleService from './services/candle.service';
+import priceRecorderService from './services/price-recorder.service';
+import marketScenarioService from './services/market-scenario.service';
+import instrumentService from './services/instrument.service';
+import corporateActionService from './services/corporate-action.service';
 
 dotenv.config();
 
@@ -42,6 +62,12 @@ app.get('/health', async (req: Request, res: Response) => {
 
 app.use('/auth', authRoutes);
 app.use('/market', marketRoutes);
+app.use('/orders', orderRoutes);
+app.use('/portfolio', portfolioRoutes);
+app.use('/watchlists', watchlistRoutes);
+app.use('/alerts', alertRoutes);
+app.use('/backtests', backtestRoutes);
+app.use('/admin', adminRoutes);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -73,10 +99,19 @@ async function gracefulShutdown(signal: string): Promise<void> {
     console.log('Stopping price updater...');
     await priceUpdaterService.shutdown();
     console.log('Price updater stopped');
+    await candleService.shutdown();
+    marketScenarioService.stop();
+    instrumentService.stop();
+    corporateActionService.stop();
+    // Write out recorded prices still buffered
+    await priceRecorderService.shutdown();
 
     // 3. Close WebSocket connections gracefully
     console.log('Closing WebSocket connections...');
     // Socket.io will close all connections when server closes
+    // Withdraw this instance's subscriber counts so other instances stop counting them
+    await websocketMarketService.shutdown();
+    await closeWebSocketAdapter();
     
     // 4. Close database connection pool
     console.log('Closing database connections...');
@@ -120,15 +155,37 @@ const startServer = async () => {
     await connectRedis();
     await createUsersTable();
     await createInstrumentsTable();
-
-    const io = initializeWebSocket(httpServer);
+    await createOrdersTable();
+    await createPortfolioTables();
+    await createWatchlistsTable();
+    await createAlertsTable();
+    await createCandlesTable();
+    await createBacktestsTable();
+    await createPriceRecordingsTable();
+    await createMarketScenariosTable();
+    await createCorporateActionsTable();
+
+    // Simulator parameters and deactivated symbols, before anything quotes
+    await instrumentService.start();
+
+    const io = await initializeWebSocket(httpServer);
     console.log('WebSocket server initialized');
 
     await websocketMarketService.initialize(io);
     console.log('WebSocket market service initialized');
 
-    priceUpdaterService.start();
-    console.log('Price updater started');
+    // Scenario effects apply on every node; each start/end is announced once
+    await marketScenarioService.start((event) => websocketMarketService.broadcastMarketEvent(event));
+
+    // Every node campaigns; only the elected leader runs the updater
+    await priceUpdaterService.start();
+    console.log('Price updater leader election started');
+
+    // Only the updater's leader records ticks into candles; the rollup elects its own leader
+    await candleService.start();
+    priceRecorderService.start();
+    // Splits, dividends and symbol changes; every node runs it, each action is applied once
+    await corporateActionService.start();
 
     httpServer.listen(port, () => {
       console.log(`Server running on port ${port}`);
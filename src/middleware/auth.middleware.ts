@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import authService from '../services/auth.service';
+import { getUserRole } from '../models/user.model';
 
 declare global {
   namespace Express {
@@ -29,4 +30,18 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
     res.status(401).json({ error: 'Invalid or expired token' });
     return;
   }
-};
\ No newline at end of file
+};
+// Use after authenticateToken: only operators (role 'admin') get through
+export const requireAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const role = req.userId ? await getUserRole(req.userId) : null;
+    if (role !== 'admin') {
+      res.status(403).json({ error: 'Admin access required' });
+      return;
+    }
+    next();
+  } catch (error) {
+    console.error('Admin check error:', error);
+    res.status(500).json({ error: 'Failed to verify permissions' });
+  }
+};
@@ -0,0 +1,227 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+
+export type AlertCondition = 'above' | 'below' | 'percent_change';
+export type AlertStatus = 'active' | 'triggered' | 'disabled';
+
+export interface Alert {
+  id: number;
+  user_id: number;
+  symbol: string;
+  condition: AlertCondition;
+  threshold: number;
+  rearm: boolean;
+  is_armed: boolean;
+  status: AlertStatus;
+  trigger_count: number;
+  last_triggered_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AlertTrigger {
+  id: number;
+  alert_id: number;
+  user_id: number;
+  symbol: string;
+  price: number;
+  change_percent: number;
+  triggered_at: Date;
+}
+
+export const createAlertsTable = async () => {
+  const query = `
+    CREATE TABLE IF NOT EXISTS alerts (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      symbol VARCHAR(20) NOT NULL,
+      condition VARCHAR(20) NOT NULL CHECK (condition IN ('above', 'below', 'percent_change')),
+      threshold NUMERIC(18, 4) NOT NULL,
+      rearm BOOLEAN DEFAULT false,
+      is_armed BOOLEAN DEFAULT true,
+      status VARCHAR(10) NOT NULL DEFAULT 'active',
+      trigger_count INTEGER DEFAULT 0,
+      last_triggered_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS alert_triggers (
+      id SERIAL PRIMARY KEY,
+      alert_id INTEGER NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      symbol VARCHAR(20) NOT NULL,
+      price NUMERIC(18, 4) NOT NULL,
+      change_percent NUMERIC(10, 4),
+      triggered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Index for evaluating alerts against incoming ticks
+    CREATE INDEX IF NOT EXISTS idx_alerts_symbol_status ON alerts(symbol, status);
+
+    CREATE INDEX IF NOT EXISTS idx_alerts_user ON alerts(user_id);
+
+    CREATE INDEX IF NOT EXISTS idx_alert_triggers_alert ON alert_triggers(alert_id, triggered_at DESC);
+  `;
+
+  try {
+    await pool.query(query);
+    console.log('Alerts tables created/verified');
+  } catch (error) {
+    console.error('Error creating alerts tables:', error);
+    throw error;
+  }
+};
+
+export const insertAlert = async (data: {
+  userId: number;
+  symbol: string;
+  condition: AlertCondition;
+  threshold: number;
+  rearm?: boolean;
+}): Promise<Alert> => {
+  const query = `
+    INSERT INTO alerts (user_id, symbol, condition, threshold, rearm)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *;
+  `;
+
+  const result = await pool.query<Alert>(query, [
+    data.userId,
+    data.symbol.toUpperCase(),
+    data.condition,
+    data.threshold,
+    data.rearm ?? false,
+  ]);
+
+  return result.rows[0];
+};
+
+export const getAlertsByUser = async (userId: number): Promise<Alert[]> => {
+  const query = 'SELECT * FROM alerts WHERE user_id = $1 ORDER BY created_at DESC';
+  const result = await pool.query<Alert>(query, [userId]);
+  return result.rows;
+};
+
+export const countAlertsByUser = async (userId: number): Promise<number> => {
+  const query =
+    "SELECT COUNT(*)::int AS count FROM alerts WHERE user_id = $1 AND status <> 'disabled'";
+  const result = await pool.query<{ count: number }>(query, [userId]);
+  return result.rows[0].count;
+};
+
+export const getAlertById = async (alertId: number, userId: number): Promise<Alert | null> => {
+  const query = 'SELECT * FROM alerts WHERE id = $1 AND user_id = $2';
+  const result = await pool.query<Alert>(query, [alertId, userId]);
+  return result.rows[0] || null;
+};
+
+// Update threshold/rearm and optionally enable or disable; enabling re-arms the alert
+export const updateAlert = async (
+  alertId: number,
+  userId: number,
+  data: { threshold?: number; rearm?: boolean; enabled?: boolean }
+): Promise<Alert | null> => {
+  const status = data.enabled === undefined ? null : data.enabled ? 'active' : 'disabled';
+  const query = `
+    UPDATE alerts
+    SET threshold = COALESCE($3, threshold),
+        rearm = COALESCE($4, rearm),
+        status = COALESCE($5, status),
+        is_armed = CASE WHEN $5 = 'active' OR $3 IS NOT NULL THEN true ELSE is_armed END,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1 AND user_id = $2
+    RETURNING *;
+  `;
+  const result = await pool.query<Alert>(query, [
+    alertId,
+    userId,
+    data.threshold ?? null,
+    data.rearm ?? null,
+    status,
+  ]);
+  return result.rows[0] || null;
+};
+
+export const deleteAlert = async (alertId: number, userId: number): Promise<boolean> => {
+  const query = 'DELETE FROM alerts WHERE id = $1 AND user_id = $2';
+  const result = await pool.query(query, [alertId, userId]);
+  return (result.rowCount ?? 0) > 0;
+};
+
+export const getActiveAlertsBySymbol = async (symbol: string): Promise<Alert[]> => {
+  const query = "SELECT * FROM alerts WHERE symbol = $1 AND status = 'active'";
+  const result = await pool.query<Alert>(query, [symbol.toUpperCase()]);
+  return result.rows;
+};
+
+// Symbols that need price updates even when no socket is watching them
+export const getSymbolsWithActiveAlerts = async (): Promise<string[]> => {
+  const query = "SELECT DISTINCT symbol FROM alerts WHERE status = 'active'";
+  const result = await pool.query<{ symbol: string }>(query);
+  return result.rows.map((row) => row.symbol);
+};
+
+/**
+ * Fire an armed alert and record the trigger, on the caller's transaction.
+ * One-shot alerts move to 'triggered'; re-arming alerts stay active but disarmed
+ * until the condition clears. Returns null if the alert already fired.
+ */
+export const recordAlertTrigger = async (
+  client: PoolClient,
+  alertId: number,
+  price: number,
+  changePercent: number
+): Promise<{ alert: Alert; trigger: AlertTrigger } | null> => {
+  const alertResult = await client.query<Alert>(
+    `
+    UPDATE alerts
+    SET is_armed = false,
+        status = CASE WHEN rearm THEN 'active' ELSE 'triggered' END,
+        trigger_count = trigger_count + 1,
+        last_triggered_at = CURRENT_TIMESTAMP,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1 AND status = 'active' AND is_armed = true
+    RETURNING *;
+    `,
+    [alertId]
+  );
+
+  const alert = alertResult.rows[0];
+  if (!alert) return null;
+
+  const triggerResult = await client.query<AlertTrigger>(
+    `
+    INSERT INTO alert_triggers (alert_id, user_id, symbol, price, change_percent)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *;
+    `,
+    [alert.id, alert.user_id, alert.symbol, price, changePercent]
+  );
+
+  return { alert, trigger: triggerResult.rows[0] };
+};
+
+export const rearmAlerts = async (alertIds: number[]): Promise<void> => {
+  if (alertIds.length === 0) return;
+  const query = `
+    UPDATE alerts
+    SET is_armed = true, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ANY($1::int[]) AND status = 'active' AND rearm = true;
+  `;
+  await pool.query(query, [alertIds]);
+};
+
+export const getTriggersByAlert = async (
+  alertId: number,
+  userId: number
+): Promise<AlertTrigger[]> => {
+  const query = `
+    SELECT * FROM alert_triggers
+    WHERE alert_id = $1 AND user_id = $2
+    ORDER BY triggered_at DESC
+    LIMIT 100
+  `;
+  const result = await pool.query<AlertTrigger>(query, [alertId, userId]);
+  return result.rows;
+};
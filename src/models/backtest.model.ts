@@ -0,0 +1,93 @@
+import pool from '../config/database';
+import { BacktestResult, BacktestMetrics, StrategyDefinition } from '../utils/backtest-engine';
+
+export interface Backtest {
+  id: number;
+  user_id: number;
+  symbol: string;
+  strategy: StrategyDefinition;
+  data_source: Record<string, unknown>;
+  metrics: BacktestMetrics;
+  result: BacktestResult;
+  created_at: Date;
+}
+
+export type BacktestSummary = Omit<Backtest, 'result'>;
+
+export const createBacktestsTable = async () => {
+  const query = `
+    CREATE TABLE IF NOT EXISTS backtests (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      symbol VARCHAR(20) NOT NULL,
+      strategy JSONB NOT NULL,
+      data_source JSONB NOT NULL,
+      metrics JSONB NOT NULL,
+      result JSONB NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_backtests_user ON backtests(user_id, created_at DESC);
+  `;
+
+  try {
+    await pool.query(query);
+    console.log('Backtests table created/verified');
+  } catch (error) {
+    console.error('Error creating backtests table:', error);
+    throw error;
+  }
+};
+
+export const insertBacktest = async (data: {
+  userId: number;
+  symbol: string;
+  strategy: StrategyDefinition;
+  dataSource: Record<string, unknown>;
+  result: BacktestResult;
+}): Promise<Backtest> => {
+  const query = `
+    INSERT INTO backtests (user_id, symbol, strategy, data_source, metrics, result)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING *;
+  `;
+
+  const result = await pool.query<Backtest>(query, [
+    data.userId,
+    data.symbol.toUpperCase(),
+    JSON.stringify(data.strategy),
+    JSON.stringify(data.dataSource),
+    JSON.stringify(data.result.metrics),
+    JSON.stringify(data.result),
+  ]);
+
+  return result.rows[0];
+};
+
+// Summaries only; the full result (trades, equity curve) can be large
+export const getBacktestsByUser = async (userId: number): Promise<BacktestSummary[]> => {
+  const query = `
+    SELECT id, user_id, symbol, strategy, data_source, metrics, created_at
+    FROM backtests
+    WHERE user_id = $1
+    ORDER BY created_at DESC
+    LIMIT 100
+  `;
+  const result = await pool.query<BacktestSummary>(query, [userId]);
+  return result.rows;
+};
+
+export const getBacktestById = async (
+  backtestId: number,
+  userId: number
+): Promise<Backtest | null> => {
+  const query = 'SELECT * FROM backtests WHERE id = $1 AND user_id = $2';
+  const result = await pool.query<Backtest>(query, [backtestId, userId]);
+  return result.rows[0] || null;
+};
+
+export const deleteBacktest = async (backtestId: number, userId: number): Promise<boolean> => {
+  const query = 'DELETE FROM backtests WHERE id = $1 AND user_id = $2';
+  const result = await pool.query(query, [backtestId, userId]);
+  return (result.rowCount ?? 0) > 0;
+};
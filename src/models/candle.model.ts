@@ -0,0 +1,211 @@
+import pool from '../config/database';
+
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+// Bucket width of each interval in seconds
+export const INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  '1m': 60,
+  '5m': 300,
+  '1h': 3600,
+  '1d': 86400,
+};
+
+export interface Candle {
+  symbol: string;
+  interval: CandleInterval;
+  bucket_start: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  tick_count: number;
+  is_synthetic: boolean;
+}
+
+export const createCandlesTable = async () => {
+  const query = `
+    CREATE TABLE IF NOT EXISTS candles (
+      symbol VARCHAR(20) NOT NULL,
+      interval VARCHAR(3) NOT NULL CHECK (interval IN ('1m', '5m', '1h', '1d')),
+      bucket_start TIMESTAMPTZ NOT NULL,
+      open NUMERIC(18, 4) NOT NULL,
+      high NUMERIC(18, 4) NOT NULL,
+      low NUMERIC(18, 4) NOT NULL,
+      close NUMERIC(18, 4) NOT NULL,
+      volume NUMERIC(20, 2) NOT NULL DEFAULT 0,
+      tick_count INTEGER NOT NULL DEFAULT 0,
+      is_synthetic BOOLEAN DEFAULT false,
+      PRIMARY KEY (symbol, interval, bucket_start)
+    );
+
+    -- Index for rollups scanning recent buckets of one interval
+    CREATE INDEX IF NOT EXISTS idx_candles_interval_bucket ON candles(interval, bucket_start);
+  `;
+
+  try {
+    await pool.query(query);
+    console.log('Candles table created/verified');
+  } catch (error) {
+    console.error('Error creating candles table:', error);
+    throw error;
+  }
+};
+
+// Fold a single tick into its 1m candle
+export const upsertTick = async (
+  symbol: string,
+  bucketStart: Date,
+  price: number,
+  volume: number
+): Promise<void> => {
+  const query = `
+    INSERT INTO candles (symbol, interval, bucket_start, open, high, low, close, volume, tick_count)
+    VALUES ($1, '1m', $2, $3, $3, $3, $3, $4, 1)
+    ON CONFLICT (symbol, interval, bucket_start)
+    DO UPDATE SET
+      high = GREATEST(candles.high, EXCLUDED.high),
+      low = LEAST(candles.low, EXCLUDED.low),
+      close = EXCLUDED.close,
+      volume = candles.volume + EXCLUDED.volume,
+      tick_count = candles.tick_count + 1,
+      is_synthetic = false;
+  `;
+  await pool.query(query, [symbol.toUpperCase(), bucketStart, price, volume]);
+};
+
+/**
+ * Aggregate source candles into a coarser interval.
+ * Only buckets starting at or after `since` are (re)computed, so the job can run
+ * repeatedly over the still-open bucket without rescanning history.
+ */
+export const rollupCandles = async (
+  source: CandleInterval,
+  target: CandleInterval,
+  since: Date
+): Promise<number> => {
+  const query = `
+    INSERT INTO candles (symbol, interval, bucket_start, open, high, low, close, volume, tick_count, is_synthetic)
+    SELECT
+      symbol,
+      $2,
+      to_timestamp(floor(extract(epoch FROM bucket_start) / $3) * $3) AS bucket,
+      (array_agg(open ORDER BY bucket_start))[1],
+      MAX(high),
+      MIN(low),
+      (array_agg(close ORDER BY bucket_start DESC))[1],
+      SUM(volume),
+      SUM(tick_count),
+      bool_and(is_synthetic)
+    FROM candles
+    WHERE interval = $1 AND bucket_start >= $4
+    GROUP BY symbol, bucket
+    ON CONFLICT (symbol, interval, bucket_start)
+    DO UPDATE SET
+      open = EXCLUDED.open,
+      high = EXCLUDED.high,
+      low = EXCLUDED.low,
+      close = EXCLUDED.close,
+      volume = EXCLUDED.volume,
+      tick_count = EXCLUDED.tick_count,
+      is_synthetic = EXCLUDED.is_synthetic;
+  `;
+  const result = await pool.query(query, [source, target, INTERVAL_SECONDS[target], since]);
+  return result.rowCount ?? 0;
+};
+
+/**
+ * Candles as stored are unadjusted (what actually traded). Adjusted candles are
+ * restated for every corporate action applied after the bar: prices are scaled by the
+ * actions' price factors and volumes by their volume factors, so a 4:1 split or a
+ * dividend doesn't show up as a gap in the history.
+ */
+export const getCandles = async (
+  symbol: string,
+  interval: CandleInterval,
+  from: Date,
+  to: Date,
+  limit: number,
+  adjusted: boolean = true
+): Promise<Candle[]> => {
+  // Newest `limit` bars in range, returned oldest first for charting
+  const query = `
+    SELECT * FROM (
+      SELECT * FROM candles
+      WHERE symbol = $1 AND interval = $2 AND bucket_start >= $3 AND bucket_start <= $4
+      ORDER BY bucket_start DESC
+      LIMIT $5
+    ) recent
+    ORDER BY bucket_start ASC
+  `;
+  const adjustedQuery = `
+    SELECT c.symbol, c.interval, c.bucket_start,
+      ROUND(c.open * f.price, 4) AS open,
+      ROUND(c.high * f.price, 4) AS high,
+      ROUND(c.low * f.price, 4) AS low,
+      ROUND(c.close * f.price, 4) AS close,
+      ROUND(c.volume * f.volume, 2) AS volume,
+      c.tick_count, c.is_synthetic
+    FROM (${query}) c
+    CROSS JOIN LATERAL (
+      SELECT
+        COALESCE(EXP(SUM(LN(a.price_factor))), 1) AS price,
+        COALESCE(EXP(SUM(LN(a.volume_factor))), 1) AS volume
+      FROM corporate_actions a
+      JOIN instruments i ON i.id = a.instrument_id
+      WHERE i.symbol = c.symbol
+        AND a.status IN ('applied', 'paid')
+        AND a.ex_date > c.bucket_start
+    ) f
+    ORDER BY c.bucket_start ASC
+  `;
+  const result = await pool.query<Candle>(adjusted ? adjustedQuery : query, [
+    symbol.toUpperCase(),
+    interval,
+    from,
+    to,
+    limit,
+  ]);
+  return result.rows;
+};
+
+export const getEarliestCandle = async (
+  symbol: string,
+  interval: CandleInterval
+): Promise<Candle | null> => {
+  const query = `
+    SELECT * FROM candles
+    WHERE symbol = $1 AND interval = $2
+    ORDER BY bucket_start ASC
+    LIMIT 1
+  `;
+  const result = await pool.query<Candle>(query, [symbol.toUpperCase(), interval]);
+  return result.rows[0] || null;
+};
+
+// Bulk insert synthetic history; never overwrites real candles
+export const insertSyntheticCandles = async (
+  candles: Array<Omit<Candle, 'tick_count' | 'is_synthetic'>>
+): Promise<void> => {
+  if (candles.length === 0) return;
+
+  const query = `
+    INSERT INTO candles (symbol, interval, bucket_start, open, high, low, close, volume, is_synthetic)
+    SELECT u.*, true
+    FROM UNNEST(
+      $1::varchar[], $2::varchar[], $3::timestamptz[], $4::numeric[], $5::numeric[],
+      $6::numeric[], $7::numeric[], $8::numeric[]
+    ) AS u
+    ON CONFLICT (symbol, interval, bucket_start) DO NOTHING;
+  `;
+  await pool.query(query, [
+    candles.map((c) => c.symbol),
+    candles.map((c) => c.interval),
+    candles.map((c) => c.bucket_start),
+    candles.map((c) => c.open),
+    candles.map((c) => c.high),
+    candles.map((c) => c.low),
+    candles.map((c) => c.close),
+    candles.map((c) => c.volume),
+  ]);
+};
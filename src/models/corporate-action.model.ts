@@ -0,0 +1,426 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+
+export type CorporateActionKind = 'split' | 'cash_dividend' | 'symbol_change';
+export type CorporateActionStatus = 'pending' | 'applied' | 'paid' | 'cancelled' | 'failed';
+
+export interface CorporateAction {
+  id: number;
+  instrument_id: number;
+  symbol: string; // the instrument's current symbol (joined)
+  kind: CorporateActionKind;
+  ex_date: string; // YYYY-MM-DD
+  pay_date: string | null; // dividends only
+  ratio: number | null; // split: new shares per old share (4 for 4:1, 0.1 for 1:10)
+  amount: number | null; // dividend per share
+  old_symbol: string | null; // symbol change
+  new_symbol: string | null;
+  // Set when applied: multiply earlier prices / volumes by these to adjust them
+  price_factor: number | null;
+  volume_factor: number | null;
+  status: CorporateActionStatus;
+  error: string | null;
+  applied_at: Date | null;
+  paid_at: Date | null;
+  created_by: number | null;
+  created_at: Date;
+}
+
+export type CreateCorporateActionInput = Pick<
+  CorporateAction,
+  | 'instrument_id'
+  | 'kind'
+  | 'ex_date'
+  | 'pay_date'
+  | 'ratio'
+  | 'amount'
+  | 'new_symbol'
+  | 'created_by'
+>;
+
+export interface DividendPayment {
+  action_id: number;
+  user_id: number;
+  symbol: string;
+  quantity: number;
+  amount: number;
+}
+
+export const createCorporateActionsTable = async () => {
+  const query = `
+    CREATE TABLE IF NOT EXISTS corporate_actions (
+      id SERIAL PRIMARY KEY,
+      instrument_id INTEGER NOT NULL REFERENCES instruments(id) ON DELETE CASCADE,
+      kind VARCHAR(20) NOT NULL CHECK (kind IN ('split', 'cash_dividend', 'symbol_change')),
+      ex_date DATE NOT NULL,
+      pay_date DATE,
+      ratio NUMERIC(18, 8) CHECK (ratio > 0),
+      amount NUMERIC(18, 6) CHECK (amount > 0),
+      old_symbol VARCHAR(20),
+      new_symbol VARCHAR(20),
+      price_factor NUMERIC(24, 12),
+      volume_factor NUMERIC(24, 12),
+      status VARCHAR(10) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'applied', 'paid', 'cancelled', 'failed')),
+      error TEXT,
+      applied_at TIMESTAMPTZ,
+      paid_at TIMESTAMPTZ,
+      created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Index for the job picking up due actions
+    CREATE INDEX IF NOT EXISTS idx_corporate_actions_status ON corporate_actions(status, ex_date);
+
+    -- Index for adjusting an instrument's candles
+    CREATE INDEX IF NOT EXISTS idx_corporate_actions_instrument
+      ON corporate_actions(instrument_id, ex_date);
+
+    -- Holders on the ex-date, credited on the pay date
+    CREATE TABLE IF NOT EXISTS dividend_payments (
+      action_id INTEGER NOT NULL REFERENCES corporate_actions(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      symbol VARCHAR(20) NOT NULL,
+      quantity NUMERIC(18, 4) NOT NULL,
+      amount NUMERIC(18, 4) NOT NULL,
+      paid_at TIMESTAMPTZ,
+      PRIMARY KEY (action_id, user_id)
+    );
+  `;
+
+  try {
+    await pool.query(query);
+    console.log('Corporate actions tables created/verified');
+  } catch (error) {
+    console.error('Error creating corporate actions tables:', error);
+    throw error;
+  }
+};
+
+const ACTION_SELECT = `
+  SELECT a.id, a.instrument_id, i.symbol, a.kind, to_char(a.ex_date, 'YYYY-MM-DD') AS ex_date,
+    to_char(a.pay_date, 'YYYY-MM-DD') AS pay_date, a.ratio, a.amount, a.old_symbol, a.new_symbol,
+    a.price_factor, a.volume_factor, a.status, a.error, a.applied_at, a.paid_at,
+    a.created_by, a.created_at
+  FROM corporate_actions a
+  JOIN instruments i ON i.id = a.instrument_id
+`;
+
+export const insertCorporateAction = async (
+  input: CreateCorporateActionInput
+): Promise<CorporateAction> => {
+  const query = `
+    INSERT INTO corporate_actions
+      (instrument_id, kind, ex_date, pay_date, ratio, amount, new_symbol, created_by)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING id
+  `;
+  const result = await pool.query<{ id: number }>(query, [
+    input.instrument_id,
+    input.kind,
+    input.ex_date,
+    input.pay_date,
+    input.ratio,
+    input.amount,
+    input.new_symbol,
+    input.created_by,
+  ]);
+  return (await getCorporateActionById(result.rows[0].id))!;
+};
+
+export const getCorporateActions = async (
+  symbol: string | undefined,
+  limit: number
+): Promise<CorporateAction[]> => {
+  const query = `
+    ${ACTION_SELECT}
+    WHERE $1::varchar IS NULL OR i.symbol = $1 OR a.old_symbol = $1
+    ORDER BY a.ex_date DESC, a.id DESC
+    LIMIT $2
+  `;
+  const result = await pool.query<CorporateAction>(query, [symbol?.toUpperCase() ?? null, limit]);
+  return result.rows;
+};
+
+export const getCorporateActionById = async (
+  id: number,
+  client: PoolClient | typeof pool = pool
+): Promise<CorporateAction | null> => {
+  const result = await client.query<CorporateAction>(`${ACTION_SELECT} WHERE a.id = $1`, [id]);
+  return result.rows[0] || null;
+};
+
+// Only actions that haven't been applied yet can be cancelled
+export const cancelCorporateAction = async (id: number): Promise<CorporateAction | null> => {
+  const result = await pool.query(
+    `UPDATE corporate_actions SET status = 'cancelled' WHERE id = $1 AND status = 'pending'`,
+    [id]
+  );
+  return result.rowCount ? getCorporateActionById(id) : null;
+};
+
+// A pending symbol change already targets this symbol
+export const isSymbolChangePending = async (newSymbol: string): Promise<boolean> => {
+  const result = await pool.query(
+    `SELECT 1 FROM corporate_actions
+     WHERE kind = 'symbol_change' AND status = 'pending' AND new_symbol = $1`,
+    [newSymbol.toUpperCase()]
+  );
+  return (result.rowCount ?? 0) > 0;
+};
+
+/**
+ * Lock the next action due on or before today
+ * SKIP LOCKED lets every node run the job: each action is claimed by exactly one of them,
+ * and the lock is held until the caller's transaction marks it applied.
+ */
+export const claimDueAction = async (client: PoolClient): Promise<CorporateAction | null> => {
+  const query = `
+    SELECT id FROM corporate_actions
+    WHERE status = 'pending' AND ex_date <= CURRENT_DATE
+    ORDER BY ex_date, id
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  `;
+  const result = await client.query<{ id: number }>(query);
+  return result.rows[0] ? getCorporateActionById(result.rows[0].id, client) : null;
+};
+
+// Lock the next dividend whose pay date has come
+export const claimPayableDividend = async (client: PoolClient): Promise<CorporateAction | null> => {
+  const query = `
+    SELECT id FROM corporate_actions
+    WHERE kind = 'cash_dividend' AND status = 'applied' AND pay_date <= CURRENT_DATE
+    ORDER BY pay_date, id
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  `;
+  const result = await client.query<{ id: number }>(query);
+  return result.rows[0] ? getCorporateActionById(result.rows[0].id, client) : null;
+};
+
+export const markActionApplied = async (
+  client: PoolClient,
+  id: number,
+  factors: { price: number; volume: number }
+): Promise<void> => {
+  await client.query(
+    `
+    UPDATE corporate_actions
+    SET status = 'applied', price_factor = $2, volume_factor = $3, applied_at = NOW()
+    WHERE id = $1
+    `,
+    [id, factors.price, factors.volume]
+  );
+};
+
+// Recorded outside the failed transaction so the job stops picking it up
+export const markActionFailed = async (id: number, error: string): Promise<void> => {
+  await pool.query(
+    `UPDATE corporate_actions SET status = 'failed', error = $2 WHERE id = $1 AND status = 'pending'`,
+    [id, error]
+  );
+};
+
+/**
+ * Positions and open orders in whole shares that a split by `ratio` would leave with a
+ * fraction of a share (a 1:10 reverse split of 25 shares, say)
+ */
+export const countFractionalSplitHoldings = async (
+  symbol: string,
+  ratio: number,
+  client: PoolClient | typeof pool = pool
+): Promise<{ positions: number; orders: number }> => {
+  const result = await client.query<{ positions: number; orders: number }>(
+    `
+    SELECT
+      (SELECT COUNT(*)::int FROM positions
+       WHERE symbol = $1 AND quantity > 0
+         AND quantity = TRUNC(quantity) AND quantity * $2 <> TRUNC(quantity * $2)) AS positions,
+      (SELECT COUNT(*)::int FROM orders
+       WHERE symbol = $1 AND status = 'open'
+         AND quantity = TRUNC(quantity) AND quantity * $2 <> TRUNC(quantity * $2)) AS orders
+    `,
+    [symbol, ratio]
+  );
+  return result.rows[0];
+};
+
+/**
+ * Split: holders get `ratio` shares per share at 1/ratio the cost; open limit orders and
+ * price alerts are restated the same way so they keep their meaning
+ */
+export const applySplit = async (
+  client: PoolClient,
+  symbol: string,
+  ratio: number
+): Promise<{ positions: number; orders: number }> => {
+  const positions = await client.query(
+    `
+    UPDATE positions
+    SET quantity = quantity * $2, average_cost = average_cost / $2, updated_at = CURRENT_TIMESTAMP
+    WHERE symbol = $1 AND quantity > 0
+    `,
+    [symbol, ratio]
+  );
+  const orders = await client.query(
+    `
+    UPDATE orders
+    SET quantity = quantity * $2, limit_price = limit_price / $2, updated_at = CURRENT_TIMESTAMP
+    WHERE symbol = $1 AND status = 'open'
+    `,
+    [symbol, ratio]
+  );
+  // Every above/below alert, whatever its status, so re-enabling one doesn't fire it on old
+  // terms; percent-change alerts are unaffected
+  await client.query(
+    `
+    UPDATE alerts
+    SET threshold = threshold / $2, updated_at = CURRENT_TIMESTAMP
+    WHERE symbol = $1 AND condition IN ('above', 'below')
+    `,
+    [symbol, ratio]
+  );
+  return { positions: positions.rowCount ?? 0, orders: orders.rowCount ?? 0 };
+};
+
+/**
+ * Symbol change: the instrument and everything referring to it by symbol moves over.
+ * Fills, alert trigger history and recordings keep the symbol they happened under.
+ */
+export const applySymbolChange = async (
+  client: PoolClient,
+  action: CorporateAction
+): Promise<void> => {
+  const oldSymbol = action.symbol;
+  const newSymbol = action.new_symbol!;
+
+  await client.query(
+    `UPDATE instruments SET symbol = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+    [action.instrument_id, newSymbol]
+  );
+  await client.query('UPDATE corporate_actions SET old_symbol = $2 WHERE id = $1', [
+    action.id,
+    oldSymbol,
+  ]);
+  await client.query(
+    `UPDATE positions SET symbol = $2, updated_at = CURRENT_TIMESTAMP WHERE symbol = $1`,
+    [oldSymbol, newSymbol]
+  );
+  await client.query(
+    `UPDATE orders SET symbol = $2, updated_at = CURRENT_TIMESTAMP WHERE symbol = $1 AND status = 'open'`,
+    [oldSymbol, newSymbol]
+  );
+  await client.query(
+    `UPDATE alerts SET symbol = $2, updated_at = CURRENT_TIMESTAMP WHERE symbol = $1`,
+    [oldSymbol, newSymbol]
+  );
+  await client.query(
+    `
+    UPDATE watchlist_symbols SET symbol = $2
+    WHERE symbol = $1
+      AND NOT EXISTS (
+        SELECT 1 FROM watchlist_symbols other
+        WHERE other.watchlist_id = watchlist_symbols.watchlist_id AND other.symbol = $2
+      )
+    `,
+    [oldSymbol, newSymbol]
+  );
+  await client.query('DELETE FROM watchlist_symbols WHERE symbol = $1', [oldSymbol]);
+  // Mock bars generated for the new symbol before the change give way to the real history
+  await client.query('DELETE FROM candles WHERE symbol = $1', [newSymbol]);
+  await client.query('UPDATE candles SET symbol = $2 WHERE symbol = $1', [oldSymbol, newSymbol]);
+};
+
+// Keep the simulator's starting price in line with the restated history
+export const scaleSimulatorBasePrice = async (
+  client: PoolClient,
+  instrumentId: number,
+  priceFactor: number
+): Promise<void> => {
+  await client.query(
+    `
+    UPDATE instruments
+    SET sim_base_price = ROUND(sim_base_price * $2, 4), updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1 AND sim_base_price IS NOT NULL
+    `,
+    [instrumentId, priceFactor]
+  );
+};
+
+// Last traded price before the ex-date, to express a dividend as a price factor
+export const getCloseBefore = async (
+  client: PoolClient,
+  symbol: string,
+  date: string
+): Promise<number | null> => {
+  const result = await client.query<{ close: number }>(
+    `
+    SELECT close FROM candles
+    WHERE symbol = $1 AND interval = '1m' AND bucket_start < $2::date
+    ORDER BY bucket_start DESC
+    LIMIT 1
+    `,
+    [symbol, date]
+  );
+  return result.rows[0]?.close ?? null;
+};
+
+// Snapshot the holders on the ex-date; they are paid on the pay date whatever they do next
+export const recordDividendEntitlements = async (
+  client: PoolClient,
+  action: CorporateAction
+): Promise<number> => {
+  const result = await client.query(
+    `
+    INSERT INTO dividend_payments (action_id, user_id, symbol, quantity, amount)
+    SELECT $1, user_id, symbol, quantity, ROUND(quantity * $3, 4)
+    FROM positions
+    WHERE symbol = $2 AND quantity > 0
+    ON CONFLICT (action_id, user_id) DO NOTHING
+    `,
+    [action.id, action.symbol, action.amount]
+  );
+  return result.rowCount ?? 0;
+};
+
+// Credit every holder's cash balance and close the dividend out
+export const payDividend = async (
+  client: PoolClient,
+  actionId: number
+): Promise<DividendPayment[]> => {
+  await client.query(
+    `
+    UPDATE accounts a
+    SET cash_balance = a.cash_balance + p.amount, updated_at = CURRENT_TIMESTAMP
+    FROM dividend_payments p
+    WHERE p.action_id = $1 AND p.paid_at IS NULL AND a.user_id = p.user_id
+    `,
+    [actionId]
+  );
+  const result = await client.query<DividendPayment>(
+    `
+    UPDATE dividend_payments
+    SET paid_at = NOW()
+    WHERE action_id = $1 AND paid_at IS NULL
+    RETURNING action_id, user_id, symbol, quantity, amount
+    `,
+    [actionId]
+  );
+  await client.query(
+    `UPDATE corporate_actions SET status = 'paid', paid_at = NOW() WHERE id = $1`,
+    [actionId]
+  );
+  return result.rows;
+};
+
+// Actions applied within the last `windowMs`, so every node can catch up its in-memory prices
+export const getRecentlyApplied = async (windowMs: number): Promise<CorporateAction[]> => {
+  const result = await pool.query<CorporateAction>(
+    `${ACTION_SELECT}
+     WHERE a.applied_at > NOW() - ($1 * INTERVAL '1 millisecond')
+     ORDER BY a.applied_at, a.id`,
+    [windowMs]
+  );
+  return result.rows;
+};
@@ -1,4 +1,5 @@
 import pool from '../config/database';
+import { SymbolParameters } from '../utils/stock-simulator';
 
 export interface Instrument {
   id: number;
@@ -9,6 +10,10 @@ export interface Instrument {
   sector?: string;
   currency: string;
   is_active: boolean;
+  // Mock price simulator parameters; null falls back to sector defaults
+  sim_drift: number | null;
+  sim_volatility: number | null;
+  sim_base_price: number | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -33,6 +38,46 @@ export const createInstrumentsTable = async () => {
     
     -- Index for filtering active instruments
     CREATE INDEX IF NOT EXISTS idx_instruments_active ON instruments(is_active);
+
+    -- Search: prefix matches on symbol, trigram (fuzzy and ILIKE) matches on symbol and name
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+    CREATE INDEX IF NOT EXISTS idx_instruments_symbol_prefix ON instruments(symbol text_pattern_ops);
+    CREATE INDEX IF NOT EXISTS idx_instruments_symbol_trgm ON instruments USING GIN (symbol gin_trgm_ops);
+    CREATE INDEX IF NOT EXISTS idx_instruments_name_trgm ON instruments USING GIN (name gin_trgm_ops);
+
+    -- Per-instrument simulator parameters. When the columns are first added, the demo
+    -- symbols get the values that used to be hard-coded in the simulator.
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'instruments' AND column_name = 'sim_drift'
+      ) THEN
+        ALTER TABLE instruments
+          ADD COLUMN sim_drift NUMERIC(8, 4),
+          ADD COLUMN sim_volatility NUMERIC(8, 4) CHECK (sim_volatility > 0),
+          ADD COLUMN sim_base_price NUMERIC(18, 4) CHECK (sim_base_price > 0);
+
+        INSERT INTO instruments (symbol, name, exchange, sector, sim_drift, sim_volatility, sim_base_price)
+        VALUES
+          ('TSLA', 'Tesla, Inc.', 'NASDAQ', 'consumer', 0.15, 0.60, 250),
+          ('NVDA', 'NVIDIA Corporation', 'NASDAQ', 'technology', 0.20, 0.50, 880),
+          ('AAPL', 'Apple Inc.', 'NASDAQ', 'technology', 0.12, 0.30, 180),
+          ('MSFT', 'Microsoft Corporation', 'NASDAQ', 'technology', 0.12, 0.28, 380),
+          ('GOOGL', 'Alphabet Inc.', 'NASDAQ', 'technology', 0.10, 0.30, 140),
+          ('AMZN', 'Amazon.com, Inc.', 'NASDAQ', 'consumer', 0.12, 0.35, 170),
+          ('META', 'Meta Platforms, Inc.', 'NASDAQ', 'technology', 0.10, 0.40, 480),
+          ('JNJ', 'Johnson & Johnson', 'NYSE', 'healthcare', 0.06, 0.15, 160),
+          ('PG', 'Procter & Gamble Co.', 'NYSE', 'consumer', 0.05, 0.15, 150),
+          ('KO', 'Coca-Cola Co.', 'NYSE', 'consumer', 0.05, 0.18, 60),
+          ('JPM', 'JPMorgan Chase & Co.', 'NYSE', 'financial', 0.08, 0.25, 190),
+          ('BAC', 'Bank of America Corp.', 'NYSE', 'financial', 0.07, 0.28, 35)
+        ON CONFLICT (symbol) DO UPDATE SET
+          sim_drift = EXCLUDED.sim_drift,
+          sim_volatility = EXCLUDED.sim_volatility,
+          sim_base_price = EXCLUDED.sim_base_price;
+      END IF;
+    END $$;
   `;
 
   try {
@@ -77,7 +122,7 @@ export const upsertInstrument = async (data: {
 export const getInstrumentBySymbol = async (symbol: string): Promise<Instrument | null> => {
   const query = 'SELECT * FROM instruments WHERE symbol = $1 AND is_active = true';
   const result = await pool.query<Instrument>(query, [symbol.toUpperCase()]);
-  return result.rows[0] || null;
+  return result.rows[0] ?? null;
 };
 
 // all active instruments
@@ -85,4 +130,238 @@ export const getAllActiveInstruments = async (): Promise<Instrument[]> => {
   const query = 'SELECT * FROM instruments WHERE is_active = true ORDER BY symbol';
   const result = await pool.query<Instrument>(query);
   return result.rows;
-};
\ No newline at end of file
+};
+
+export type InstrumentStatus = 'active' | 'inactive' | 'all';
+
+// Instruments for the admin listing, including deactivated ones on request
+export const listInstruments = async (
+  status: InstrumentStatus,
+  limit: number,
+  offset: number
+): Promise<Instrument[]> => {
+  const query = `
+    SELECT * FROM instruments
+    WHERE ($1 = 'all' OR is_active = ($1 = 'active'))
+    ORDER BY symbol
+    LIMIT $2 OFFSET $3
+  `;
+  const result = await pool.query<Instrument>(query, [status, limit, offset]);
+  return result.rows;
+};
+
+// Instrument by symbol whether or not it is active
+export const findInstrument = async (symbol: string): Promise<Instrument | null> => {
+  const result = await pool.query<Instrument>('SELECT * FROM instruments WHERE symbol = $1', [
+    symbol.toUpperCase(),
+  ]);
+  return result.rows[0] ?? null;
+};
+
+export interface InstrumentFields {
+  name?: string;
+  exchange?: string;
+  sector?: string | null;
+  asset_type?: string;
+  currency?: string;
+  sim_drift?: number | null;
+  sim_volatility?: number | null;
+  sim_base_price?: number | null;
+}
+
+const INSTRUMENT_FIELDS: Array<keyof InstrumentFields> = [
+  'name',
+  'exchange',
+  'sector',
+  'asset_type',
+  'currency',
+  'sim_drift',
+  'sim_volatility',
+  'sim_base_price',
+];
+
+// Create an instrument; null when the symbol is already taken
+export const insertInstrument = async (
+  symbol: string,
+  fields: InstrumentFields & { name: string }
+): Promise<Instrument | null> => {
+  const columns = INSTRUMENT_FIELDS.filter((field) => fields[field] !== undefined);
+  const query = `
+    INSERT INTO instruments (symbol, ${columns.join(', ')})
+    VALUES ($1, ${columns.map((_, i) => `$${i + 2}`).join(', ')})
+    ON CONFLICT (symbol) DO NOTHING
+    RETURNING *
+  `;
+  const result = await pool.query<Instrument>(query, [
+    symbol.toUpperCase(),
+    ...columns.map((field) => fields[field]),
+  ]);
+  return result.rows[0] ?? null;
+};
+
+// Update the given fields only; null when the symbol doesn't exist
+export const updateInstrument = async (
+  symbol: string,
+  fields: InstrumentFields
+): Promise<Instrument | null> => {
+  const columns = INSTRUMENT_FIELDS.filter((field) => fields[field] !== undefined);
+  const query = `
+    UPDATE instruments
+    SET ${columns.map((column, i) => `${column} = $${i + 2}, `).join('')}updated_at = CURRENT_TIMESTAMP
+    WHERE symbol = $1
+    RETURNING *
+  `;
+  const result = await pool.query<Instrument>(query, [
+    symbol.toUpperCase(),
+    ...columns.map((field) => fields[field]),
+  ]);
+  return result.rows[0] ?? null;
+};
+
+// Flip is_active; null when the symbol doesn't exist or already has that state
+export const setInstrumentActive = async (
+  symbol: string,
+  active: boolean
+): Promise<Instrument | null> => {
+  const query = `
+    UPDATE instruments
+    SET is_active = $2, updated_at = CURRENT_TIMESTAMP
+    WHERE symbol = $1 AND is_active IS DISTINCT FROM $2
+    RETURNING *
+  `;
+  const result = await pool.query<Instrument>(query, [symbol.toUpperCase(), active]);
+  return result.rows[0] ?? null;
+};
+
+// Which of the given symbols are known but deactivated (unknown symbols are not listed)
+export const getInactiveSymbols = async (symbols: string[]): Promise<string[]> => {
+  if (symbols.length === 0) return [];
+  const result = await pool.query<{ symbol: string }>(
+    'SELECT symbol FROM instruments WHERE symbol = ANY($1) AND is_active = false',
+    [symbols.map((symbol) => symbol.toUpperCase())]
+  );
+  return result.rows.map((row) => row.symbol);
+};
+
+// Simulator parameters of active instruments that set them, plus every deactivated symbol
+export const getSimulationState = async (): Promise<{
+  parameters: Map<string, SymbolParameters>;
+  inactive: string[];
+}> => {
+  const result = await pool.query<Instrument>(
+    'SELECT * FROM instruments WHERE is_active = false OR sim_volatility IS NOT NULL'
+  );
+  const parameters = new Map<string, SymbolParameters>();
+  const inactive: string[] = [];
+  for (const row of result.rows) {
+    if (!row.is_active) {
+      inactive.push(row.symbol);
+    } else if (row.sim_volatility !== null) {
+      parameters.set(row.symbol, {
+        drift: row.sim_drift ?? 0.1,
+        volatility: row.sim_volatility,
+        basePrice: row.sim_base_price ?? 100,
+      });
+    }
+  }
+  return { parameters, inactive };
+};
+
+export interface InstrumentImportRow {
+  symbol: string;
+  name: string;
+  exchange?: string;
+  sector?: string;
+  asset_type?: string;
+  currency?: string;
+}
+
+export interface InstrumentSearchResult extends Instrument {
+  match_rank: number; // 0 exact symbol, 1 symbol prefix, 2 name prefix, 3 fuzzy
+  score: number; // trigram similarity, 0-1
+}
+
+/**
+ * Insert or update many instruments in one statement
+ * Fields left out of a row keep their stored value (or the column default for new rows).
+ * Symbols must be unique within the batch.
+ */
+export const bulkUpsertInstruments = async (
+  rows: InstrumentImportRow[]
+): Promise<{ inserted: number; updated: number }> => {
+  if (rows.length === 0) return { inserted: 0, updated: 0 };
+
+  const query = `
+    WITH input AS (
+      SELECT * FROM UNNEST(
+        $1::varchar[], $2::varchar[], $3::varchar[], $4::varchar[], $5::varchar[], $6::varchar[]
+      ) AS u(symbol, name, exchange, sector, asset_type, currency)
+    )
+    INSERT INTO instruments (symbol, name, exchange, sector, asset_type, currency)
+    SELECT symbol, name, exchange, sector, COALESCE(asset_type, 'stock'), COALESCE(currency, 'USD')
+    FROM input
+    ON CONFLICT (symbol)
+    DO UPDATE SET
+      name = EXCLUDED.name,
+      exchange = COALESCE(EXCLUDED.exchange, instruments.exchange),
+      sector = COALESCE(EXCLUDED.sector, instruments.sector),
+      -- EXCLUDED holds the defaults here, so read what the row actually supplied
+      asset_type = COALESCE(
+        (SELECT asset_type FROM input WHERE input.symbol = EXCLUDED.symbol),
+        instruments.asset_type
+      ),
+      currency = COALESCE(
+        (SELECT currency FROM input WHERE input.symbol = EXCLUDED.symbol),
+        instruments.currency
+      ),
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING (xmax = 0) AS inserted;
+  `;
+  const result = await pool.query<{ inserted: boolean }>(query, [
+    rows.map((r) => r.symbol),
+    rows.map((r) => r.name),
+    rows.map((r) => r.exchange ?? null),
+    rows.map((r) => r.sector ?? null),
+    rows.map((r) => r.asset_type ?? null),
+    rows.map((r) => r.currency ?? null),
+  ]);
+
+  const inserted = result.rows.filter((row) => row.inserted).length;
+  return { inserted, updated: result.rows.length - inserted };
+};
+
+/**
+ * Active instruments matching a search, best first
+ * Exact symbol, then symbol prefix, then name prefix, then fuzzy (trigram) matches,
+ * each group ordered by similarity
+ */
+export const searchInstruments = async (
+  query: string,
+  limit: number
+): Promise<InstrumentSearchResult[]> => {
+  const sql = `
+    SELECT *,
+      CASE
+        WHEN symbol = $1 THEN 0
+        WHEN symbol LIKE $2 || '%' THEN 1
+        WHEN name ILIKE $3 || '%' THEN 2
+        ELSE 3
+      END AS match_rank,
+      GREATEST(similarity(symbol, $1), word_similarity($4, name)) AS score
+    FROM instruments
+    WHERE is_active = true
+      AND (symbol LIKE $2 || '%' OR name ILIKE '%' || $3 || '%' OR symbol % $1 OR $4 <% name)
+    ORDER BY match_rank, score DESC, symbol
+    LIMIT $5
+  `;
+  // Prefix patterns treat the query literally
+  const escaped = query.replace(/[\\%_]/g, (char) => `\\${char}`);
+  const result = await pool.query<InstrumentSearchResult>(sql, [
+    query.toUpperCase(),
+    escaped.toUpperCase(),
+    escaped,
+    query,
+    limit,
+  ]);
+  return result.rows;
+};
@@ -0,0 +1,150 @@
+import pool from '../config/database';
+
+export type ScenarioKind = 'gap' | 'halt' | 'volatility';
+
+export interface MarketScenario {
+  id: number;
+  name: string;
+  kind: ScenarioKind;
+  symbols: string[] | null; // null: not limited to listed symbols
+  sector: string | null; // null: any sector
+  magnitude: number | null; // gap: percent move; volatility: multiplier
+  starts_at: Date;
+  ends_at: Date | null; // null: until cancelled (halts)
+  cancelled_at: Date | null;
+  started_notified: boolean;
+  ended_notified: boolean;
+  created_by: number | null;
+  created_at: Date;
+}
+
+export type CreateScenarioInput = Pick<
+  MarketScenario,
+  'name' | 'kind' | 'symbols' | 'sector' | 'magnitude' | 'starts_at' | 'ends_at' | 'created_by'
+>;
+
+export const createMarketScenariosTable = async () => {
+  const query = `
+    CREATE TABLE IF NOT EXISTS market_scenarios (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      kind VARCHAR(20) NOT NULL CHECK (kind IN ('gap', 'halt', 'volatility')),
+      symbols TEXT[],
+      sector VARCHAR(100),
+      magnitude NUMERIC(10, 4),
+      starts_at TIMESTAMPTZ NOT NULL,
+      ends_at TIMESTAMPTZ,
+      cancelled_at TIMESTAMPTZ,
+      started_notified BOOLEAN NOT NULL DEFAULT false,
+      ended_notified BOOLEAN NOT NULL DEFAULT false,
+      created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- The scenario poller only looks at scenarios that haven't finished
+    CREATE INDEX IF NOT EXISTS idx_market_scenarios_open
+      ON market_scenarios(starts_at) WHERE NOT ended_notified;
+  `;
+
+  try {
+    await pool.query(query);
+    console.log('Market scenarios table created/verified');
+  } catch (error) {
+    console.error('Error creating market scenarios table:', error);
+    throw error;
+  }
+};
+
+export const insertScenario = async (input: CreateScenarioInput): Promise<MarketScenario> => {
+  const query = `
+    INSERT INTO market_scenarios (name, kind, symbols, sector, magnitude, starts_at, ends_at, created_by)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING *
+  `;
+  const result = await pool.query<MarketScenario>(query, [
+    input.name,
+    input.kind,
+    input.symbols,
+    input.sector,
+    input.magnitude,
+    input.starts_at,
+    input.ends_at,
+    input.created_by,
+  ]);
+  return result.rows[0];
+};
+
+export const getScenarios = async (limit: number): Promise<MarketScenario[]> => {
+  const result = await pool.query<MarketScenario>(
+    'SELECT * FROM market_scenarios ORDER BY starts_at DESC LIMIT $1',
+    [limit]
+  );
+  return result.rows;
+};
+
+export const getScenarioById = async (id: number): Promise<MarketScenario | null> => {
+  const result = await pool.query<MarketScenario>('SELECT * FROM market_scenarios WHERE id = $1', [
+    id,
+  ]);
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Scenarios affecting prices right now
+ * Gaps are instantaneous, so they stay listed for `gapWindowMs` after they start to give
+ * every symbol a tick in which to take the jump.
+ */
+export const getEffectiveScenarios = async (gapWindowMs: number): Promise<MarketScenario[]> => {
+  const query = `
+    SELECT * FROM market_scenarios
+    WHERE cancelled_at IS NULL
+      AND starts_at <= NOW()
+      AND (
+        (kind = 'gap' AND starts_at > NOW() - ($1 * INTERVAL '1 millisecond'))
+        OR (kind <> 'gap' AND (ends_at IS NULL OR ends_at > NOW()))
+      )
+    ORDER BY starts_at
+  `;
+  const result = await pool.query<MarketScenario>(query, [gapWindowMs]);
+  return result.rows;
+};
+
+export const cancelScenario = async (id: number): Promise<MarketScenario | null> => {
+  const query = `
+    UPDATE market_scenarios
+    SET cancelled_at = NOW()
+    WHERE id = $1 AND cancelled_at IS NULL AND NOT ended_notified
+    RETURNING *
+  `;
+  const result = await pool.query<MarketScenario>(query, [id]);
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Claim start notifications that are due
+ * The flag flips atomically, so with several nodes polling each start is announced once.
+ * Gaps have nothing to end, so they are closed out in the same step.
+ */
+export const claimStartedScenarios = async (): Promise<MarketScenario[]> => {
+  const query = `
+    UPDATE market_scenarios
+    SET started_notified = true, ended_notified = (kind = 'gap')
+    WHERE NOT started_notified AND cancelled_at IS NULL AND starts_at <= NOW()
+    RETURNING *
+  `;
+  const result = await pool.query<MarketScenario>(query);
+  return result.rows;
+};
+
+// Claim end notifications: expired or cancelled after they started
+export const claimEndedScenarios = async (): Promise<MarketScenario[]> => {
+  const query = `
+    UPDATE market_scenarios
+    SET ended_notified = true
+    WHERE started_notified AND NOT ended_notified
+      AND (cancelled_at IS NOT NULL OR ends_at <= NOW())
+    RETURNING *
+  `;
+  const result = await pool.query<MarketScenario>(query);
+  return result.rows;
+};
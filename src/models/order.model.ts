@@ -0,0 +1,208 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'market' | 'limit';
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+export interface Order {
+  id: number;
+  user_id: number;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  limit_price: number | null;
+  status: OrderStatus;
+  filled_price: number | null;
+  filled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Execution {
+  id: number;
+  order_id: number;
+  user_id: number;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  executed_at: Date;
+}
+
+export const createOrdersTable = async () => {
+  const query = `
+    CREATE TABLE IF NOT EXISTS orders (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      symbol VARCHAR(20) NOT NULL,
+      side VARCHAR(4) NOT NULL CHECK (side IN ('buy', 'sell')),
+      type VARCHAR(10) NOT NULL CHECK (type IN ('market', 'limit')),
+      quantity NUMERIC(18, 4) NOT NULL CHECK (quantity > 0),
+      limit_price NUMERIC(18, 4),
+      status VARCHAR(10) NOT NULL DEFAULT 'open',
+      filled_price NUMERIC(18, 4),
+      filled_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS executions (
+      id SERIAL PRIMARY KEY,
+      order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      symbol VARCHAR(20) NOT NULL,
+      side VARCHAR(4) NOT NULL,
+      quantity NUMERIC(18, 4) NOT NULL,
+      price NUMERIC(18, 4) NOT NULL,
+      executed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Index for listing a user's orders
+    CREATE INDEX IF NOT EXISTS idx_orders_user ON orders(user_id, created_at DESC);
+
+    -- Index for matching open limit orders against incoming ticks
+    CREATE INDEX IF NOT EXISTS idx_orders_symbol_status ON orders(symbol, status);
+
+    CREATE INDEX IF NOT EXISTS idx_executions_order ON executions(order_id);
+  `;
+
+  try {
+    await pool.query(query);
+    console.log('Orders and executions tables created/verified');
+  } catch (error) {
+    console.error('Error creating orders tables:', error);
+    throw error;
+  }
+};
+
+export const insertOrder = async (
+  data: {
+    userId: number;
+    symbol: string;
+    side: OrderSide;
+    type: OrderType;
+    quantity: number;
+    limitPrice?: number;
+  },
+  client: PoolClient | typeof pool = pool
+): Promise<Order> => {
+  const query = `
+    INSERT INTO orders (user_id, symbol, side, type, quantity, limit_price)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING *;
+  `;
+
+  const result = await client.query<Order>(query, [
+    data.userId,
+    data.symbol.toUpperCase(),
+    data.side,
+    data.type,
+    data.quantity,
+    data.limitPrice ?? null,
+  ]);
+
+  return result.rows[0];
+};
+
+export const getOrdersByUser = async (userId: number, status?: OrderStatus): Promise<Order[]> => {
+  const query = status
+    ? 'SELECT * FROM orders WHERE user_id = $1 AND status = $2 ORDER BY created_at DESC'
+    : 'SELECT * FROM orders WHERE user_id = $1 ORDER BY created_at DESC';
+  const params = status ? [userId, status] : [userId];
+  const result = await pool.query<Order>(query, params);
+  return result.rows;
+};
+
+export const getOrderById = async (orderId: number, userId: number): Promise<Order | null> => {
+  const query = 'SELECT * FROM orders WHERE id = $1 AND user_id = $2';
+  const result = await pool.query<Order>(query, [orderId, userId]);
+  return result.rows[0] || null;
+};
+
+// Cancel an order only if it is still open
+export const cancelOpenOrder = async (orderId: number, userId: number): Promise<Order | null> => {
+  const query = `
+    UPDATE orders
+    SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1 AND user_id = $2 AND status = 'open'
+    RETURNING *;
+  `;
+  const result = await pool.query<Order>(query, [orderId, userId]);
+  return result.rows[0] || null;
+};
+
+// Reject an open order that can no longer be filled (e.g. insufficient cash at fill time)
+export const rejectOpenOrder = async (orderId: number): Promise<Order | null> => {
+  const query = `
+    UPDATE orders
+    SET status = 'rejected', updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1 AND status = 'open'
+    RETURNING *;
+  `;
+  const result = await pool.query<Order>(query, [orderId]);
+  return result.rows[0] || null;
+};
+
+// Symbols that need price updates so their resting limit orders can fill
+export const getSymbolsWithOpenLimitOrders = async (): Promise<string[]> => {
+  const query = "SELECT DISTINCT symbol FROM orders WHERE status = 'open' AND type = 'limit'";
+  const result = await pool.query<{ symbol: string }>(query);
+  return result.rows.map((row) => row.symbol);
+};
+
+// Open limit orders whose limit price is crossed by the given price
+export const getMarketableLimitOrders = async (symbol: string, price: number): Promise<Order[]> => {
+  const query = `
+    SELECT * FROM orders
+    WHERE symbol = $1
+      AND status = 'open'
+      AND type = 'limit'
+      AND ((side = 'buy' AND limit_price >= $2) OR (side = 'sell' AND limit_price <= $2))
+    ORDER BY created_at
+  `;
+  const result = await pool.query<Order>(query, [symbol.toUpperCase(), price]);
+  return result.rows;
+};
+
+/**
+ * Mark an open order as filled and record the execution.
+ * Runs inside the caller's transaction; returns null if the order was
+ * already filled or cancelled by someone else.
+ */
+export const fillOrder = async (
+  client: PoolClient,
+  orderId: number,
+  price: number
+): Promise<{ order: Order; execution: Execution } | null> => {
+  const orderResult = await client.query<Order>(
+    `
+    UPDATE orders
+    SET status = 'filled', filled_price = $2, filled_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1 AND status = 'open'
+    RETURNING *;
+    `,
+    [orderId, price]
+  );
+
+  const order = orderResult.rows[0];
+  if (!order) return null;
+
+  const executionResult = await client.query<Execution>(
+    `
+    INSERT INTO executions (order_id, user_id, symbol, side, quantity, price)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING *;
+    `,
+    [order.id, order.user_id, order.symbol, order.side, order.quantity, price]
+  );
+
+  return { order, execution: executionResult.rows[0] };
+};
+
+export const getExecutionsByUser = async (userId: number): Promise<Execution[]> => {
+  const query = 'SELECT * FROM executions WHERE user_id = $1 ORDER BY executed_at DESC';
+  const result = await pool.query<Execution>(query, [userId]);
+  return result.rows;
+};
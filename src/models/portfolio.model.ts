@@ -0,0 +1,179 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { Execution } from './order.model';
+
+const STARTING_CASH_BALANCE = parseFloat(process.env.STARTING_CASH_BALANCE || '100000');
+
+export interface Account {
+  user_id: number;
+  cash_balance: number;
+  starting_balance: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Position {
+  id: number;
+  user_id: number;
+  symbol: string;
+  quantity: number;
+  average_cost: number;
+  realized_pnl: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export const createPortfolioTables = async () => {
+  const query = `
+    CREATE TABLE IF NOT EXISTS accounts (
+      user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      cash_balance NUMERIC(18, 4) NOT NULL,
+      starting_balance NUMERIC(18, 4) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS positions (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      symbol VARCHAR(20) NOT NULL,
+      quantity NUMERIC(18, 4) NOT NULL DEFAULT 0,
+      average_cost NUMERIC(18, 4) NOT NULL DEFAULT 0,
+      realized_pnl NUMERIC(18, 4) NOT NULL DEFAULT 0,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, symbol)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_positions_user ON positions(user_id);
+  `;
+
+  try {
+    await pool.query(query);
+    console.log('Accounts and positions tables created/verified');
+  } catch (error) {
+    console.error('Error creating portfolio tables:', error);
+    throw error;
+  }
+};
+
+// Get a user's cash account, opening it with the starting balance on first access
+export const getOrCreateAccount = async (
+  userId: number,
+  client: PoolClient | typeof pool = pool
+): Promise<Account> => {
+  await client.query(
+    `
+    INSERT INTO accounts (user_id, cash_balance, starting_balance)
+    VALUES ($1, $2, $2)
+    ON CONFLICT (user_id) DO NOTHING;
+    `,
+    [userId, STARTING_CASH_BALANCE]
+  );
+
+  const result = await client.query<Account>('SELECT * FROM accounts WHERE user_id = $1', [userId]);
+  return result.rows[0];
+};
+
+export const getPositionsByUser = async (userId: number): Promise<Position[]> => {
+  const query = 'SELECT * FROM positions WHERE user_id = $1 ORDER BY symbol';
+  const result = await pool.query<Position>(query, [userId]);
+  return result.rows;
+};
+
+export const getPosition = async (
+  userId: number,
+  symbol: string,
+  client: PoolClient | typeof pool = pool
+): Promise<Position | null> => {
+  const query = 'SELECT * FROM positions WHERE user_id = $1 AND symbol = $2';
+  const result = await client.query<Position>(query, [userId, symbol.toUpperCase()]);
+  return result.rows[0] || null;
+};
+
+/**
+ * Apply a fill to the user's cash balance and position.
+ * Must run inside the same transaction that recorded the execution.
+ * Buys move average cost; sells realize (price - average cost) * quantity.
+ * Throws if the account cannot cover a buy or the position cannot cover a sell.
+ */
+export const applyExecution = async (client: PoolClient, execution: Execution): Promise<void> => {
+  const { user_id: userId, symbol, side, quantity, price } = execution;
+  const notional = quantity * price;
+
+  await getOrCreateAccount(userId, client);
+  const accountResult = await client.query<Account>(
+    'SELECT * FROM accounts WHERE user_id = $1 FOR UPDATE',
+    [userId]
+  );
+  const account = accountResult.rows[0];
+
+  const positionResult = await client.query<Position>(
+    'SELECT * FROM positions WHERE user_id = $1 AND symbol = $2 FOR UPDATE',
+    [userId, symbol]
+  );
+  const position = positionResult.rows[0];
+  const currentQuantity = position?.quantity ?? 0;
+  const currentCost = position?.average_cost ?? 0;
+
+  if (side === 'buy') {
+    if (account.cash_balance < notional) {
+      throw new Error('Insufficient buying power');
+    }
+
+    const newQuantity = currentQuantity + quantity;
+    const newAverageCost = (currentQuantity * currentCost + notional) / newQuantity;
+
+    await client.query(
+      `
+      INSERT INTO positions (user_id, symbol, quantity, average_cost)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (user_id, symbol)
+      DO UPDATE SET
+        quantity = EXCLUDED.quantity,
+        average_cost = EXCLUDED.average_cost,
+        updated_at = CURRENT_TIMESTAMP;
+      `,
+      [userId, symbol, newQuantity, newAverageCost]
+    );
+
+    await client.query(
+      `
+      UPDATE accounts
+      SET cash_balance = cash_balance - $2, updated_at = CURRENT_TIMESTAMP
+      WHERE user_id = $1;
+      `,
+      [userId, notional]
+    );
+    return;
+  }
+
+  // Short selling is not supported
+  if (currentQuantity < quantity) {
+    throw new Error('Insufficient position to sell');
+  }
+
+  const newQuantity = currentQuantity - quantity;
+  const realized = (price - currentCost) * quantity;
+
+  await client.query(
+    `
+    UPDATE positions
+    SET quantity = $3,
+        average_cost = $4,
+        realized_pnl = realized_pnl + $5,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE user_id = $1 AND symbol = $2;
+    `,
+    [userId, symbol, newQuantity, newQuantity === 0 ? 0 : currentCost, realized]
+  );
+
+  await client.query(
+    `
+    UPDATE accounts
+    SET cash_balance = cash_balance + $2, updated_at = CURRENT_TIMESTAMP
+    WHERE user_id = $1;
+    `,
+    [userId, notional]
+  );
+};
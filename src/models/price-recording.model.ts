@@ -0,0 +1,115 @@
+import pool from '../config/database';
+
+export interface PriceRecording {
+  id: string; // BIGSERIAL, returned as a string by pg
+  symbol: string;
+  recorded_at: Date;
+  payload: Record<string, unknown>;
+}
+
+export interface RecordingSummary {
+  symbol: string;
+  tick_count: number;
+  first_at: Date;
+  last_at: Date;
+}
+
+export const createPriceRecordingsTable = async () => {
+  const query = `
+    CREATE TABLE IF NOT EXISTS price_recordings (
+      id BIGSERIAL PRIMARY KEY,
+      symbol VARCHAR(20) NOT NULL,
+      recorded_at TIMESTAMPTZ NOT NULL,
+      payload JSONB NOT NULL
+    );
+
+    -- Replays read one time range, in order, optionally for a few symbols
+    CREATE INDEX IF NOT EXISTS idx_price_recordings_time ON price_recordings(recorded_at, id);
+    CREATE INDEX IF NOT EXISTS idx_price_recordings_symbol_time ON price_recordings(symbol, recorded_at);
+  `;
+
+  try {
+    await pool.query(query);
+    console.log('Price recordings table created/verified');
+  } catch (error) {
+    console.error('Error creating price recordings table:', error);
+    throw error;
+  }
+};
+
+export const insertRecordings = async (
+  recordings: Array<Omit<PriceRecording, 'id'>>
+): Promise<void> => {
+  if (recordings.length === 0) return;
+
+  const query = `
+    INSERT INTO price_recordings (symbol, recorded_at, payload)
+    SELECT * FROM UNNEST($1::varchar[], $2::timestamptz[], $3::jsonb[])
+  `;
+  await pool.query(query, [
+    recordings.map((r) => r.symbol),
+    recordings.map((r) => r.recorded_at),
+    recordings.map((r) => JSON.stringify(r.payload)),
+  ]);
+};
+
+/**
+ * Next page of a recorded range, in publish order
+ * Pass the last row read as `after` to continue from it
+ */
+export const getRecordings = async (
+  symbols: string[],
+  from: Date,
+  to: Date,
+  limit: number,
+  after?: { recorded_at: Date; id: string }
+): Promise<PriceRecording[]> => {
+  const query = `
+    SELECT * FROM price_recordings
+    WHERE symbol = ANY($1)
+      AND recorded_at >= $2 AND recorded_at <= $3
+      AND ($5::timestamptz IS NULL OR (recorded_at, id) > ($5, $6::bigint))
+    ORDER BY recorded_at, id
+    LIMIT $4
+  `;
+  const result = await pool.query<PriceRecording>(query, [
+    symbols,
+    from,
+    to,
+    limit,
+    after?.recorded_at ?? null,
+    after?.id ?? null,
+  ]);
+  return result.rows;
+};
+
+// What was recorded per symbol in a time range
+export const getRecordingSummary = async (from: Date, to: Date): Promise<RecordingSummary[]> => {
+  const query = `
+    SELECT symbol, COUNT(*)::int AS tick_count, MIN(recorded_at) AS first_at, MAX(recorded_at) AS last_at
+    FROM price_recordings
+    WHERE recorded_at >= $1 AND recorded_at <= $2
+    GROUP BY symbol
+    ORDER BY symbol
+  `;
+  const result = await pool.query<RecordingSummary>(query, [from, to]);
+  return result.rows;
+};
+
+/**
+ * Delete up to `limit` recordings older than `cutoff`
+ * Returns how many went; callers repeat until it comes back short
+ */
+export const deleteRecordingsBefore = async (cutoff: Date, limit: number): Promise<number> => {
+  const query = `
+    DELETE FROM price_recordings
+    WHERE id IN (
+      SELECT id FROM price_recordings
+      WHERE recorded_at < $1
+      ORDER BY recorded_at
+      LIMIT $2
+    )
+  `;
+  const result = await pool.query(query, [cutoff, limit]);
+  return result.rowCount ?? 0;
+};
@@ -1,5 +1,7 @@
 import pool from '../config/database';
 
+export type UserRole = 'user' | 'admin';
+
 export const createUsersTable = async () => {
   const query = `
     CREATE TABLE IF NOT EXISTS users (
@@ -12,6 +14,10 @@ export const createUsersTable = async () => {
     );
 
     CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+
+    -- Operators are promoted by hand: UPDATE users SET role = 'admin' WHERE email = ...
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'user'
+      CHECK (role IN ('user', 'admin'));
   `;
 
   try {
@@ -21,4 +27,11 @@ export const createUsersTable = async () => {
     console.error('Error creating users table:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const getUserRole = async (userId: number): Promise<UserRole | null> => {
+  const result = await pool.query<{ role: UserRole }>('SELECT role FROM users WHERE id = $1', [
+    userId,
+  ]);
+  return result.rows[0]?.role ?? null;
+};
@@ -0,0 +1,117 @@
+import pool from '../config/database';
+
+export interface Watchlist {
+  id: number;
+  user_id: number;
+  name: string;
+  symbols: string[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export const createWatchlistsTable = async () => {
+  const query = `
+    CREATE TABLE IF NOT EXISTS watchlists (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, name)
+    );
+
+    CREATE TABLE IF NOT EXISTS watchlist_symbols (
+      watchlist_id INTEGER NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+      symbol VARCHAR(20) NOT NULL,
+      added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (watchlist_id, symbol)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_watchlists_user ON watchlists(user_id);
+  `;
+
+  try {
+    await pool.query(query);
+    console.log('Watchlists tables created/verified');
+  } catch (error) {
+    console.error('Error creating watchlists tables:', error);
+    throw error;
+  }
+};
+
+// Watchlist rows with their symbols aggregated in insertion order
+const WATCHLIST_SELECT = `
+  SELECT w.*,
+    COALESCE(
+      ARRAY_AGG(ws.symbol ORDER BY ws.added_at) FILTER (WHERE ws.symbol IS NOT NULL),
+      '{}'
+    ) AS symbols
+  FROM watchlists w
+  LEFT JOIN watchlist_symbols ws ON ws.watchlist_id = w.id
+`;
+
+export const getWatchlistsByUser = async (userId: number): Promise<Watchlist[]> => {
+  const query = `${WATCHLIST_SELECT} WHERE w.user_id = $1 GROUP BY w.id ORDER BY w.name`;
+  const result = await pool.query<Watchlist>(query, [userId]);
+  return result.rows;
+};
+
+export const getWatchlistById = async (
+  watchlistId: number,
+  userId: number
+): Promise<Watchlist | null> => {
+  const query = `${WATCHLIST_SELECT} WHERE w.id = $1 AND w.user_id = $2 GROUP BY w.id`;
+  const result = await pool.query<Watchlist>(query, [watchlistId, userId]);
+  return result.rows[0] || null;
+};
+
+export const insertWatchlist = async (userId: number, name: string): Promise<number> => {
+  const query = 'INSERT INTO watchlists (user_id, name) VALUES ($1, $2) RETURNING id';
+  const result = await pool.query<{ id: number }>(query, [userId, name]);
+  return result.rows[0].id;
+};
+
+export const renameWatchlist = async (
+  watchlistId: number,
+  userId: number,
+  name: string
+): Promise<boolean> => {
+  const query = `
+    UPDATE watchlists
+    SET name = $3, updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1 AND user_id = $2;
+  `;
+  const result = await pool.query(query, [watchlistId, userId, name]);
+  return (result.rowCount ?? 0) > 0;
+};
+
+export const deleteWatchlist = async (watchlistId: number, userId: number): Promise<boolean> => {
+  const query = 'DELETE FROM watchlists WHERE id = $1 AND user_id = $2';
+  const result = await pool.query(query, [watchlistId, userId]);
+  return (result.rowCount ?? 0) > 0;
+};
+
+export const addWatchlistSymbols = async (
+  watchlistId: number,
+  symbols: string[]
+): Promise<void> => {
+  if (symbols.length === 0) return;
+  const query = `
+    INSERT INTO watchlist_symbols (watchlist_id, symbol)
+    SELECT $1, UNNEST($2::varchar[])
+    ON CONFLICT DO NOTHING;
+  `;
+  await pool.query(query, [watchlistId, symbols.map((s) => s.toUpperCase())]);
+  await pool.query('UPDATE watchlists SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [
+    watchlistId,
+  ]);
+};
+
+export const removeWatchlistSymbol = async (
+  watchlistId: number,
+  symbol: string
+): Promise<boolean> => {
+  const query = 'DELETE FROM watchlist_symbols WHERE watchlist_id = $1 AND symbol = $2';
+  const result = await pool.query(query, [watchlistId, symbol.toUpperCase()]);
+  return (result.rowCount ?? 0) > 0;
+};
@@ -0,0 +1,249 @@
+/**
+ * Market data WebSocket protocol (v2)
+ * Shared by the server and TypeScript clients: client message schemas (zod) and the
+ * shapes of everything the server emits.
+ *
+ * - Connect with `auth: { token, protocolVersion: 2 }`. v1 was the earlier unversioned
+ *   protocol (`subscribed` / `unsubscribed` / `subscriptions` events). Clients that send
+ *   no version are still accepted and served v2, with a deprecation warning logged; that
+ *   fallback goes away in a later, announced release.
+ * - Every client message may carry a `requestId`; the server answers each one with an
+ *   `ack` (success) or an `error` (failure) echoing it. A socket.io ack callback, when
+ *   given, receives the same payload.
+ * - Errors carry a stable `code` (see SOCKET_ERROR_CODES) plus a human-readable message.
+ */
+
+import { z } from 'zod';
+import { INDICATOR_TYPES } from '../utils/indicators';
+import type { Quote } from '../services/market-data.service';
+import type { OrderBookSnapshot, OrderBookUpdate, Trade } from '../utils/order-book';
+import type { ReplayStatus } from '../services/replay.service';
+import type { MarketEvent } from '../services/market-scenario.service';
+
+export const PROTOCOL_VERSION = 2;
+export const SUPPORTED_PROTOCOL_VERSIONS = [2];
+
+// Most symbols a single subscribe/unsubscribe message may name
+export const MAX_SYMBOLS_PER_MESSAGE = 50;
+
+export const SOCKET_ERROR_CODES = [
+  'INVALID_MESSAGE',
+  'UNSUPPORTED_VERSION',
+  'UNAUTHORIZED',
+  'NOT_FOUND',
+  'NOT_SUBSCRIBED',
+  'SUBSCRIPTION_LIMIT',
+  'INTERNAL_ERROR',
+] as const;
+export type SocketErrorCode = (typeof SOCKET_ERROR_CODES)[number];
+
+const requestId = z.string().min(1).max(64).optional();
+const symbol = z.string().trim().min(1).max(10).toUpperCase();
+const symbols = z.array(symbol).min(1).max(MAX_SYMBOLS_PER_MESSAGE);
+
+// Per-socket delivery options (see PriceStream)
+const streamOptions = {
+  delta: z.boolean().optional(),
+  maxUpdatesPerSecond: z.number().positive().optional(),
+};
+
+// Accept `symbol` or `symbols` (or both); handlers see one de-duplicated `symbols` list
+const symbolTargets = { symbol: symbol.optional(), symbols: symbols.optional() };
+type SymbolTargets = { symbol?: string; symbols?: string[] };
+
+const hasTarget = (data: SymbolTargets) => data.symbol !== undefined || data.symbols !== undefined;
+const targetRequired = { message: 'symbol or symbols is required' };
+
+function toSymbols<T extends SymbolTargets>({ symbol, symbols, ...rest }: T) {
+  return {
+    ...rest,
+    symbols: Array.from(new Set([...(symbols ?? []), ...(symbol ? [symbol] : [])])),
+  };
+}
+
+const symbolList = z
+  .object({ requestId, ...symbolTargets })
+  .refine(hasTarget, targetRequired)
+  .transform(toSymbols);
+
+// Epoch milliseconds or an ISO date string
+const time = z
+  .union([z.number().int().positive(), z.iso.datetime()])
+  .transform((value) => new Date(value));
+
+const replaySpeed = z.union([z.literal(1), z.literal(10), z.literal(100)]);
+
+const replayControl = z.discriminatedUnion('action', [
+  z.object({ requestId, replayId: z.uuid(), action: z.literal('play') }),
+  z.object({ requestId, replayId: z.uuid(), action: z.literal('pause') }),
+  z.object({ requestId, replayId: z.uuid(), action: z.literal('stop') }),
+  z.object({ requestId, replayId: z.uuid(), action: z.literal('seek'), position: time }),
+  z.object({ requestId, replayId: z.uuid(), action: z.literal('speed'), speed: replaySpeed }),
+]);
+
+const indicator = z.object({
+  requestId,
+  symbol,
+  type: z.enum(INDICATOR_TYPES),
+  period: z.number().int().min(1).max(200).optional(),
+  interval: z.enum(['1m', '5m', '1h', '1d']).default('1m'),
+});
+
+export const clientMessageSchemas = {
+  subscribe: z
+    .object({ requestId, ...streamOptions, ...symbolTargets })
+    .refine(hasTarget, targetRequired)
+    .transform(toSymbols),
+  unsubscribe: symbolList,
+  subscribe_watchlist: z.object({
+    requestId,
+    watchlistId: z.number().int().positive(),
+    ...streamOptions,
+  }),
+  subscribe_indicator: indicator,
+  unsubscribe_indicator: indicator,
+  // Depth (`book:<SYMBOL>`) and time-and-sales (`trades:<SYMBOL>`) rooms
+  subscribe_book: symbolList,
+  unsubscribe_book: symbolList,
+  subscribe_trades: symbolList,
+  unsubscribe_trades: symbolList,
+  resync: z.object({ requestId, symbol }),
+  // Resend the current depth snapshot after a gap in book `seq`
+  resync_book: z.object({ requestId, symbol }),
+  // Play back recorded prices into `replay:<replayId>:<SYMBOL>` rooms (the caller joins them)
+  start_replay: z
+    .object({
+      requestId,
+      symbols,
+      from: time,
+      to: time,
+      speed: replaySpeed.default(1),
+      paused: z.boolean().optional(),
+    })
+    .refine((data) => data.to > data.from, { message: 'to must be after from' }),
+  replay_control: replayControl,
+  get_subscriptions: z.object({ requestId }),
+};
+
+export type ClientEvent = keyof typeof clientMessageSchemas;
+// What clients send, and what handlers receive after validation
+export type ClientMessage<E extends ClientEvent> = z.input<(typeof clientMessageSchemas)[E]>;
+export type ParsedClientMessage<E extends ClientEvent> = z.output<(typeof clientMessageSchemas)[E]>;
+
+export interface StreamOptions {
+  delta: boolean;
+  maxUpdatesPerSecond: number | null;
+}
+
+// Results carried by `ack` for each client event
+export interface AckResults {
+  subscribe: { symbols: string[]; options: StreamOptions };
+  unsubscribe: { symbols: string[]; notSubscribed: string[] };
+  subscribe_watchlist: { watchlistId: number; symbols: string[]; options: StreamOptions };
+  subscribe_indicator: { symbol: string; indicator: string };
+  unsubscribe_indicator: { symbol: string; indicator: string };
+  subscribe_book: { symbols: string[] };
+  unsubscribe_book: { symbols: string[]; notSubscribed: string[] };
+  subscribe_trades: { symbols: string[] };
+  unsubscribe_trades: { symbols: string[]; notSubscribed: string[] };
+  resync: { symbol: string; seq: number };
+  // 0: a preview, nothing is streaming yet (see BookSnapshotMessage)
+  resync_book: { symbol: string; seq: number };
+  start_replay: ReplayStatus & { rooms: string[] };
+  replay_control: ReplayStatus;
+  get_subscriptions: {
+    symbols: string[];
+    indicators: string[];
+    books: string[];
+    trades: string[];
+    replays: string[];
+    streams: Array<{ symbol: string } & StreamOptions>;
+    limit: number;
+  };
+}
+
+export interface AckMessage<E extends ClientEvent = ClientEvent> {
+  requestId?: string;
+  event: E;
+  ok: true;
+  result: AckResults[E];
+}
+
+export interface ErrorMessage {
+  requestId?: string;
+  event?: ClientEvent;
+  ok: false;
+  code: SocketErrorCode;
+  message: string;
+  details?: unknown;
+}
+
+// Server → client price messages; `seq` increases by one per socket and symbol
+export type PriceUpdateMessage = Quote & { seq: number };
+
+export interface PriceSnapshotMessage {
+  symbol: string;
+  seq: number;
+  quote: Quote;
+}
+
+export interface PriceDeltaMessage {
+  symbol: string;
+  seq: number;
+  changes: Partial<Record<keyof Quote, unknown>>;
+}
+
+/**
+ * Depth and tape: a snapshot is sent to the subscribing socket, then `book_update` /
+ * `trades` are broadcast to the room. Book updates are level diffs (size 0 removes the
+ * level); apply those with `seq` above the snapshot's and send `resync_book` on a gap.
+ * A `book_snapshot` can also arrive unrequested (the book was rebuilt): it replaces the
+ * client's book, whatever its `seq`.
+ * A snapshot with `seq` 0 is a preview built around the last quote while no book is
+ * ticking (e.g. the market is closed); no updates follow it until the first real
+ * snapshot replaces it.
+ */
+export type BookSnapshotMessage = OrderBookSnapshot;
+export type BookUpdateMessage = OrderBookUpdate;
+
+export interface TradesMessage {
+  symbol: string;
+  trades: Trade[]; // oldest first; in the snapshot, the recent tape
+}
+
+// A recorded payload, exactly as it was published, re-emitted into its replay room
+export interface ReplayUpdateMessage {
+  replayId: string;
+  recordedAt: number;
+  payload: Quote;
+}
+
+export type ReplayStatusMessage = ReplayStatus;
+
+// Operator scenario started or ended; a `halt` start means stop trading the symbols until its end
+export type MarketEventMessage = MarketEvent;
+
+// The symbol was delisted by an operator, or renamed by a symbol change (`replacedBy`);
+// the client has been unsubscribed from all its streams
+export interface InstrumentDeactivatedMessage {
+  symbol: string;
+  replacedBy?: string;
+  timestamp: number;
+}
+
+export interface ServerToClientEvents {
+  ack: (message: AckMessage) => void;
+  error: (message: ErrorMessage) => void;
+  price_update: (message: PriceUpdateMessage) => void;
+  price_snapshot: (message: PriceSnapshotMessage) => void;
+  price_delta: (message: PriceDeltaMessage) => void;
+  indicator_update: (message: Record<string, unknown>) => void;
+  book_snapshot: (message: BookSnapshotMessage) => void;
+  book_update: (message: BookUpdateMessage) => void;
+  trades_snapshot: (message: TradesMessage) => void;
+  trades: (message: TradesMessage) => void;
+  replay_update: (message: ReplayUpdateMessage) => void;
+  replay_status: (message: ReplayStatusMessage) => void;
+  market_event: (message: MarketEventMessage) => void;
+  instrument_deactivated: (message: InstrumentDeactivatedMessage) => void;
+}
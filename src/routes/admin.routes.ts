@@ -0,0 +1,86 @@
+import express, { Router } from 'express';
+import scenarioController from '../controllers/scenario.controller';
+import instrumentController from '../controllers/instrument.controller';
+import corporateActionController from '../controllers/corporate-action.controller';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Every admin route needs an operator account
+router.use(authenticateToken, requireAdmin);
+
+// GET /admin/scenarios
+router.get('/scenarios', scenarioController.list.bind(scenarioController));
+
+// POST /admin/scenarios
+// (body: { kind: 'gap', sector: 'Technology', percent: -8 }
+//      | { kind: 'halt', symbols: ['TSLA'], durationSeconds?: 900 }
+//      | { kind: 'volatility', multiplier: 2, durationSeconds: 600, symbols?, sector? }
+//  plus optional name and startsAt to schedule instead of triggering now)
+router.post('/scenarios', scenarioController.create.bind(scenarioController));
+
+// GET /admin/scenarios/:id
+router.get('/scenarios/:id', scenarioController.get.bind(scenarioController));
+
+// POST /admin/scenarios/:id/cancel
+router.post('/scenarios/:id/cancel', scenarioController.cancel.bind(scenarioController));
+
+// POST /admin/instruments/import
+// (Content-Type: text/csv with a header row: symbol,name,exchange,sector,asset_type,currency
+//  or application/json: [{ symbol, name, exchange?, sector?, asset_type?, currency? }])
+router.post(
+  '/instruments/import',
+  express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }),
+  instrumentController.import.bind(instrumentController)
+);
+
+// GET /admin/instruments?status=active|inactive|all&limit=&offset=
+router.get('/instruments', instrumentController.list.bind(instrumentController));
+
+// POST /admin/instruments
+// (body: { symbol, name, exchange?, sector?, assetType?, currency?,
+//          simulation?: { drift: 0.1, volatility: 0.3, basePrice: 100 } })
+router.post('/instruments', instrumentController.create.bind(instrumentController));
+
+// GET /admin/instruments/:symbol (including deactivated)
+router.get('/instruments/:symbol', instrumentController.get.bind(instrumentController));
+
+// PATCH /admin/instruments/:symbol
+// (any of the create fields except symbol; simulation: null reverts to sector defaults)
+router.patch('/instruments/:symbol', instrumentController.update.bind(instrumentController));
+
+// POST /admin/instruments/:symbol/deactivate
+// (subscribers get `instrument_deactivated` and are unsubscribed)
+router.post(
+  '/instruments/:symbol/deactivate',
+  instrumentController.deactivate.bind(instrumentController)
+);
+
+// POST /admin/instruments/:symbol/reactivate
+router.post(
+  '/instruments/:symbol/reactivate',
+  instrumentController.reactivate.bind(instrumentController)
+);
+
+// GET /admin/corporate-actions?symbol=&limit=
+router.get('/corporate-actions', corporateActionController.list.bind(corporateActionController));
+
+// POST /admin/corporate-actions
+// (body: { kind: 'split', symbol: 'NVDA', ratio: 4, exDate: '2026-06-10' }
+//      | { kind: 'cash_dividend', symbol: 'KO', amount: 0.51, exDate, payDate }
+//      | { kind: 'symbol_change', symbol: 'FB', newSymbol: 'META', exDate })
+router.post(
+  '/corporate-actions',
+  corporateActionController.create.bind(corporateActionController)
+);
+
+// GET /admin/corporate-actions/:id
+router.get('/corporate-actions/:id', corporateActionController.get.bind(corporateActionController));
+
+// POST /admin/corporate-actions/:id/cancel (pending actions only)
+router.post(
+  '/corporate-actions/:id/cancel',
+  corporateActionController.cancel.bind(corporateActionController)
+);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import alertController from '../controllers/alert.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// GET /alerts
+router.get('/', authenticateToken, alertController.list.bind(alertController));
+
+// POST /alerts (body: { symbol: 'AAPL', condition: 'above', threshold: 200, rearm?: true })
+router.post('/', authenticateToken, alertController.create.bind(alertController));
+
+// GET /alerts/:id
+router.get('/:id', authenticateToken, alertController.get.bind(alertController));
+
+// PATCH /alerts/:id (body: { threshold?, rearm?, enabled? })
+router.patch('/:id', authenticateToken, alertController.update.bind(alertController));
+
+// DELETE /alerts/:id
+router.delete('/:id', authenticateToken, alertController.remove.bind(alertController));
+
+// GET /alerts/:id/triggers
+router.get('/:id/triggers', authenticateToken, alertController.getTriggers.bind(alertController));
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import backtestController from '../controllers/backtest.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// POST /backtests (body: { symbol, strategy, dataSource, initialCapital?, commissionPercent? })
+router.post('/', authenticateToken, backtestController.run.bind(backtestController));
+
+// GET /backtests
+router.get('/', authenticateToken, backtestController.list.bind(backtestController));
+
+// GET /backtests/:id
+router.get('/:id', authenticateToken, backtestController.get.bind(backtestController));
+
+// DELETE /backtests/:id
+router.delete('/:id', authenticateToken, backtestController.remove.bind(backtestController));
+
+export default router;
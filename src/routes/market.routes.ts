@@ -13,4 +13,55 @@ router.post('/quotes', authenticateToken, marketController.getMultipleQuotes.bin
 // GET /market/search?q=apple
 router.get('/search', authenticateToken, marketController.search.bind(marketController));
 
+// GET /market/providers/health
+router.get(
+  '/providers/health',
+  authenticateToken,
+  marketController.getProviderHealth.bind(marketController)
+);
+
+// GET /market/updater/status (per-symbol refresh lag and provider budget use)
+router.get(
+  '/updater/status',
+  authenticateToken,
+  marketController.getUpdaterStatus.bind(marketController)
+);
+
+// GET /market/book/:symbol (synthetic L2 depth around the current price)
+router.get('/book/:symbol', authenticateToken, marketController.getOrderBook.bind(marketController));
+
+// GET /market/recordings?from=&to= (recorded price sessions available for replay)
+router.get('/recordings', authenticateToken, marketController.getRecordings.bind(marketController));
+
+// GET /market/candles/:symbol?interval=1m|5m|1h|1d&from=&to=&adjusted=true|false
+router.get('/candles/:symbol', authenticateToken, marketController.getCandles.bind(marketController));
+
+// GET /market/indicators/:symbol?type=sma|ema|rsi|macd|bollinger|atr|vwap&period=14&interval=1m
+router.get(
+  '/indicators/:symbol',
+  authenticateToken,
+  marketController.getIndicators.bind(marketController)
+);
+
+// GET /market/options/:symbol/chain?expiries=7,30,90&strikes=11
+router.get(
+  '/options/:symbol/chain',
+  authenticateToken,
+  marketController.getOptionChain.bind(marketController)
+);
+
+// GET /market/options/:symbol/price?type=call&strike=200&days=30&volatility?=0.3
+router.get(
+  '/options/:symbol/price',
+  authenticateToken,
+  marketController.priceOption.bind(marketController)
+);
+
+// GET /market/options/:symbol/implied-volatility?type=call&strike=200&days=30&premium=7.5
+router.get(
+  '/options/:symbol/implied-volatility',
+  authenticateToken,
+  marketController.getImpliedVolatility.bind(marketController)
+);
+
 export default router;
\ No newline at end of file
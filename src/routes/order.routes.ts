@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import orderController from '../controllers/order.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// POST /orders (body: { symbol, side, type, quantity, limitPrice? })
+router.post('/', authenticateToken, orderController.placeOrder.bind(orderController));
+
+// GET /orders?status=open
+router.get('/', authenticateToken, orderController.getOrders.bind(orderController));
+
+// DELETE /orders/:id
+router.delete('/:id', authenticateToken, orderController.cancelOrder.bind(orderController));
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import portfolioController from '../controllers/portfolio.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// GET /portfolio
+router.get('/', authenticateToken, portfolioController.getPortfolio.bind(portfolioController));
+
+// GET /portfolio/positions
+router.get(
+  '/positions',
+  authenticateToken,
+  portfolioController.getPositions.bind(portfolioController)
+);
+
+// GET /portfolio/risk?paths=2000&horizon=10
+router.get('/risk', authenticateToken, portfolioController.getRisk.bind(portfolioController));
+
+export default router;
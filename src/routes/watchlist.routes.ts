@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import watchlistController from '../controllers/watchlist.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// GET /watchlists
+router.get('/', authenticateToken, watchlistController.list.bind(watchlistController));
+
+// POST /watchlists (body: { name: 'Tech', symbols?: ['AAPL', 'MSFT'] })
+router.post('/', authenticateToken, watchlistController.create.bind(watchlistController));
+
+// GET /watchlists/:id
+router.get('/:id', authenticateToken, watchlistController.get.bind(watchlistController));
+
+// PATCH /watchlists/:id (body: { name })
+router.patch('/:id', authenticateToken, watchlistController.rename.bind(watchlistController));
+
+// DELETE /watchlists/:id
+router.delete('/:id', authenticateToken, watchlistController.remove.bind(watchlistController));
+
+// POST /watchlists/:id/symbols (body: { symbols: ['NVDA'] })
+router.post(
+  '/:id/symbols',
+  authenticateToken,
+  watchlistController.addSymbols.bind(watchlistController)
+);
+
+// DELETE /watchlists/:id/symbols/:symbol
+router.delete(
+  '/:id/symbols/:symbol',
+  authenticateToken,
+  watchlistController.removeSymbol.bind(watchlistController)
+);
+
+export default router;
@@ -0,0 +1,109 @@
+import alertService from './alert.service';
+import pool from '../config/database';
+import marketDataService, { Quote } from './market-data.service';
+import websocketMarketService from './websocket-market.service';
+import {
+  Alert,
+  countAlertsByUser,
+  getActiveAlertsBySymbol,
+  insertAlert,
+  recordAlertTrigger,
+} from '../models/alert.model';
+
+jest.mock('../config/database', () => ({ __esModule: true, default: { connect: jest.fn() } }));
+jest.mock('../models/alert.model');
+jest.mock('./market-data.service', () => ({
+  __esModule: true,
+  default: { resolveInstrument: jest.fn(), getQuote: jest.fn() },
+}));
+jest.mock('./websocket-market.service', () => ({
+  __esModule: true,
+  default: { emitToUser: jest.fn() },
+}));
+
+const client = { query: jest.fn(), release: jest.fn() };
+
+function quote(price: number): Quote {
+  return { symbol: 'AAPL', price, changePercent: 1 } as Quote;
+}
+
+function alert(overrides: Partial<Alert> = {}): Alert {
+  return {
+    id: 1,
+    user_id: 7,
+    symbol: 'AAPL',
+    condition: 'above',
+    threshold: 150,
+    rearm: false,
+    is_armed: true,
+    status: 'active',
+    ...overrides,
+  } as Alert;
+}
+
+describe('AlertService', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+    (marketDataService.resolveInstrument as jest.Mock).mockResolvedValue({ symbol: 'AAPL' });
+    (countAlertsByUser as jest.Mock).mockResolvedValue(0);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  describe('createAlert', () => {
+    it('refuses an above threshold the price has already reached', async () => {
+      (marketDataService.getQuote as jest.Mock).mockResolvedValue(quote(160));
+
+      await expect(
+        alertService.createAlert(7, { symbol: 'aapl', condition: 'above', threshold: 150 })
+      ).rejects.toThrow('Invalid threshold');
+      expect(insertAlert).not.toHaveBeenCalled();
+    });
+
+    it('accepts a below threshold under the current price', async () => {
+      (marketDataService.getQuote as jest.Mock).mockResolvedValue(quote(160));
+
+      await alertService.createAlert(7, { symbol: 'aapl', condition: 'below', threshold: 150 });
+      expect(insertAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ symbol: 'AAPL', condition: 'below', threshold: 150 })
+      );
+    });
+  });
+
+  describe('evaluateTick', () => {
+    it('records the trigger in one transaction and notifies the owner', async () => {
+      (getActiveAlertsBySymbol as jest.Mock).mockResolvedValue([alert()]);
+      (recordAlertTrigger as jest.Mock).mockResolvedValue({ alert: alert(), trigger: { id: 3 } });
+
+      await alertService.evaluateTick(quote(151));
+
+      expect(recordAlertTrigger).toHaveBeenCalledWith(client, 1, 151, 1);
+      expect(client.query.mock.calls.map(([sql]) => sql)).toEqual(['BEGIN', 'COMMIT']);
+      expect(client.release).toHaveBeenCalled();
+      expect(websocketMarketService.emitToUser).toHaveBeenCalledWith(
+        7,
+        'alert_triggered',
+        expect.objectContaining({ trigger: { id: 3 } })
+      );
+    });
+
+    it('rolls back and notifies no one when recording fails', async () => {
+      (getActiveAlertsBySymbol as jest.Mock).mockResolvedValue([alert()]);
+      (recordAlertTrigger as jest.Mock).mockRejectedValue(new Error('connection lost'));
+
+      await alertService.evaluateTick(quote(151));
+
+      expect(client.query.mock.calls.map(([sql]) => sql)).toEqual(['BEGIN', 'ROLLBACK']);
+      expect(client.release).toHaveBeenCalled();
+      expect(websocketMarketService.emitToUser).not.toHaveBeenCalled();
+    });
+
+    it('leaves an alert alone while its level is not reached', async () => {
+      (getActiveAlertsBySymbol as jest.Mock).mockResolvedValue([alert()]);
+
+      await alertService.evaluateTick(quote(149));
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import pool from '../config/database';
+import {
+  Alert,
+  AlertCondition,
+  AlertTrigger,
+  insertAlert,
+  getAlertsByUser,
+  countAlertsByUser,
+  getAlertById,
+  updateAlert,
+  deleteAlert,
+  getActiveAlertsBySymbol,
+  getSymbolsWithActiveAlerts,
+  recordAlertTrigger,
+  rearmAlerts,
+  getTriggersByAlert,
+} from '../models/alert.model';
+import marketDataService, { Quote } from './market-data.service';
+import websocketMarketService from './websocket-market.service';
+
+const MAX_ALERTS_PER_USER = 100;
+
+export interface CreateAlertInput {
+  symbol: string;
+  condition: AlertCondition;
+  threshold: number;
+  rearm?: boolean;
+}
+
+/**
+ * Server-side price alerts
+ * - above / below: last price is at or past an absolute level
+ * - percent_change: absolute day change (vs previous close) exceeds threshold %
+ * Evaluated by PriceUpdaterService on every published tick. above / below are level
+ * checks, so a threshold the price has already reached is refused when it is set rather
+ * than firing on the next tick.
+ */
+class AlertService {
+  async createAlert(userId: number, input: CreateAlertInput): Promise<Alert> {
+    const instrument = await marketDataService.resolveInstrument(input.symbol);
+    if (!instrument) {
+      throw new Error(`Unknown symbol: ${input.symbol.toUpperCase()}`);
+    }
+
+    const count = await countAlertsByUser(userId);
+    if (count >= MAX_ALERTS_PER_USER) {
+      throw new Error(`You can have at most ${MAX_ALERTS_PER_USER} alerts`);
+    }
+
+    await this.checkThreshold(instrument.symbol, input.condition, input.threshold);
+    return insertAlert({ userId, ...input, symbol: instrument.symbol });
+  }
+
+  async getAlerts(userId: number): Promise<Alert[]> {
+    return getAlertsByUser(userId);
+  }
+
+  async getAlert(userId: number, alertId: number): Promise<Alert> {
+    const alert = await getAlertById(alertId, userId);
+    if (!alert) {
+      throw new Error('Alert not found');
+    }
+    return alert;
+  }
+
+  async updateAlert(
+    userId: number,
+    alertId: number,
+    data: { threshold?: number; rearm?: boolean; enabled?: boolean }
+  ): Promise<Alert> {
+    if (data.threshold !== undefined) {
+      const current = await this.getAlert(userId, alertId);
+      await this.checkThreshold(current.symbol, current.condition, data.threshold);
+    }
+
+    const alert = await updateAlert(alertId, userId, data);
+    if (!alert) {
+      throw new Error('Alert not found');
+    }
+    return alert;
+  }
+
+  async deleteAlert(userId: number, alertId: number): Promise<void> {
+    const deleted = await deleteAlert(alertId, userId);
+    if (!deleted) {
+      throw new Error('Alert not found');
+    }
+  }
+
+  async getTriggers(userId: number, alertId: number): Promise<AlertTrigger[]> {
+    await this.getAlert(userId, alertId);
+    return getTriggersByAlert(alertId, userId);
+  }
+
+  async getWatchedSymbols(): Promise<string[]> {
+    return getSymbolsWithActiveAlerts();
+  }
+
+  // Fire armed alerts whose condition holds; re-arm disarmed ones whose condition cleared
+  async evaluateTick(quote: Quote): Promise<void> {
+    const alerts = await getActiveAlertsBySymbol(quote.symbol);
+    if (alerts.length === 0) return;
+
+    const toRearm: number[] = [];
+
+    for (const alert of alerts) {
+      const conditionMet = this.isConditionMet(alert, quote);
+
+      if (!alert.is_armed) {
+        if (!conditionMet && alert.rearm) toRearm.push(alert.id);
+        continue;
+      }
+
+      if (!conditionMet) continue;
+
+      try {
+        const fired = await this.fire(alert.id, quote);
+        if (fired) {
+          console.log(
+            `Alert ${alert.id} triggered for user ${alert.user_id}: ${alert.symbol} ${alert.condition} ${alert.threshold}`
+          );
+          websocketMarketService.emitToUser(alert.user_id, 'alert_triggered', {
+            alert: fired.alert,
+            trigger: fired.trigger,
+            quote,
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to trigger alert ${alert.id}:`, error);
+      }
+    }
+
+    await rearmAlerts(toRearm);
+  }
+
+  // Status change and trigger history commit together or not at all
+  private async fire(
+    alertId: number,
+    quote: Quote
+  ): Promise<{ alert: Alert; trigger: AlertTrigger } | null> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const fired = await recordAlertTrigger(client, alertId, quote.price, quote.changePercent);
+      await client.query('COMMIT');
+      return fired;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async checkThreshold(
+    symbol: string,
+    condition: AlertCondition,
+    threshold: number
+  ): Promise<void> {
+    if (condition === 'percent_change') return;
+
+    const { price } = await marketDataService.getQuote(symbol);
+    if (condition === 'above' ? price >= threshold : price <= threshold) {
+      throw new Error(
+        `Invalid threshold: ${symbol} is already ${condition} ${threshold} (last ${price})`
+      );
+    }
+  }
+
+  private isConditionMet(alert: Alert, quote: Quote): boolean {
+    switch (alert.condition) {
+      case 'above':
+        return quote.price >= alert.threshold;
+      case 'below':
+        return quote.price <= alert.threshold;
+      case 'percent_change':
+        return Math.abs(quote.changePercent) >= alert.threshold;
+      default:
+        return false;
+    }
+  }
+}
+
+export default new AlertService();
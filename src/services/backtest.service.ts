@@ -0,0 +1,157 @@
+import {
+  Backtest,
+  BacktestSummary,
+  insertBacktest,
+  getBacktestsByUser,
+  getBacktestById,
+  deleteBacktest,
+} from '../models/backtest.model';
+import { CandleInterval } from '../models/candle.model';
+import { BacktestBar, StrategyDefinition, runBacktest } from '../utils/backtest-engine';
+import stockSimulator from '../utils/stock-simulator';
+import candleService from './candle.service';
+
+// Bars per trading year for each candle interval (Sharpe annualization)
+const BARS_PER_YEAR: Record<CandleInterval, number> = {
+  '1m': 252 * 390,
+  '5m': 252 * 78,
+  '1h': 252 * 6.5,
+  '1d': 252,
+};
+
+export const MAX_SIMULATION_STEPS = 5000;
+
+export type BacktestDataSource =
+  | { type: 'history'; interval: CandleInterval; from?: Date; to?: Date }
+  | {
+      type: 'simulation';
+      steps: number;
+      startPrice?: number;
+      drift?: number;
+      volatility?: number;
+      seed?: number;
+    };
+
+export interface RunBacktestInput {
+  symbol: string;
+  strategy: StrategyDefinition;
+  dataSource: BacktestDataSource;
+  initialCapital?: number;
+  commissionPercent?: number;
+}
+
+class BacktestService {
+  async runBacktest(userId: number, input: RunBacktestInput): Promise<Backtest> {
+    const symbol = input.symbol.toUpperCase();
+    this.validateStrategy(input.strategy);
+
+    // Always record a seed for simulated runs so the stored result can be regenerated
+    const dataSource: BacktestDataSource =
+      input.dataSource.type === 'simulation' && input.dataSource.seed === undefined
+        ? { ...input.dataSource, seed: Math.floor(Math.random() * 2 ** 31) }
+        : input.dataSource;
+
+    const { bars, barsPerYear } = await this.loadBars(symbol, dataSource);
+    if (bars.length < 2) {
+      throw new Error('Not enough price data to run a backtest');
+    }
+
+    const result = runBacktest(bars, input.strategy, {
+      initialCapital: input.initialCapital ?? 10000,
+      commissionPercent: input.commissionPercent ?? 0,
+      barsPerYear,
+    });
+
+    const backtest = await insertBacktest({
+      userId,
+      symbol,
+      strategy: input.strategy,
+      dataSource: { ...dataSource, bars: bars.length },
+      result,
+    });
+
+    console.log(
+      `Backtest ${backtest.id} for ${symbol}: ${result.metrics.totalReturnPercent}% over ${bars.length} bars`
+    );
+    return backtest;
+  }
+
+  async getBacktests(userId: number): Promise<BacktestSummary[]> {
+    return getBacktestsByUser(userId);
+  }
+
+  async getBacktest(userId: number, backtestId: number): Promise<Backtest> {
+    const backtest = await getBacktestById(backtestId, userId);
+    if (!backtest) {
+      throw new Error('Backtest not found');
+    }
+    return backtest;
+  }
+
+  async deleteBacktest(userId: number, backtestId: number): Promise<void> {
+    const deleted = await deleteBacktest(backtestId, userId);
+    if (!deleted) {
+      throw new Error('Backtest not found');
+    }
+  }
+
+  /**
+   * Price data for the run
+   * - history: stored candles (backfilled from the simulator if the symbol has none)
+   * - simulation: a GBM path with the symbol's simulator parameters, one bar per day
+   *   (pass a seed to regenerate the exact same path)
+   */
+  private async loadBars(
+    symbol: string,
+    dataSource: BacktestDataSource
+  ): Promise<{ bars: BacktestBar[]; barsPerYear: number }> {
+    if (dataSource.type === 'history') {
+      const candles = await candleService.getCandles(
+        symbol,
+        dataSource.interval,
+        dataSource.from,
+        dataSource.to
+      );
+      return { bars: candles, barsPerYear: BARS_PER_YEAR[dataSource.interval] };
+    }
+
+    const params = stockSimulator.getSymbolParameters(symbol);
+    const path = stockSimulator.generatePricePath(
+      dataSource.startPrice ?? params.basePrice,
+      Math.min(dataSource.steps, MAX_SIMULATION_STEPS),
+      dataSource.drift ?? params.drift,
+      dataSource.volatility ?? params.volatility,
+      1 / 252,
+      dataSource.seed
+    );
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    const start = Date.now() - path.length * dayMs;
+    const bars = path.map((price, i) => ({
+      time: start + i * dayMs,
+      high: price,
+      low: price,
+      close: price,
+    }));
+    return { bars, barsPerYear: BARS_PER_YEAR['1d'] };
+  }
+
+  // Every named operand in the rules must refer to a declared indicator
+  private validateStrategy(strategy: StrategyDefinition): void {
+    const rules = [strategy.entry, strategy.exit].flatMap((group) =>
+      'all' in group ? group.all : group.any
+    );
+
+    for (const rule of rules) {
+      for (const operand of [rule.left, rule.right]) {
+        if (typeof operand !== 'string' || operand === 'price') continue;
+        const name = operand.split('.')[0];
+        if (!(name in strategy.indicators)) {
+          throw new Error(`Unknown indicator in strategy rule: ${name}`);
+        }
+      }
+    }
+  }
+}
+
+export default new BacktestService();
@@ -0,0 +1,225 @@
+import cron from 'node-cron';
+import { ScheduledTask } from 'node-cron';
+import {
+  Candle,
+  CandleInterval,
+  INTERVAL_SECONDS,
+  upsertTick,
+  rollupCandles,
+  getCandles,
+  getEarliestCandle,
+  insertSyntheticCandles,
+} from '../models/candle.model';
+import { Quote } from './market-data.service';
+import stockSimulator from '../utils/stock-simulator';
+import { simulationConfig } from '../config/simulation';
+import { LeaderElection } from './leader-election.service';
+
+// GBM time step (fraction of a trading year) for one bar of each interval
+const INTERVAL_TIME_STEP: Record<CandleInterval, number> = {
+  '1m': 1 / (252 * 390),
+  '5m': 1 / (252 * 78),
+  '1h': 1 / (252 * 6.5),
+  '1d': 1 / 252,
+};
+
+// How many bars to synthesize for a symbol with no history
+const BACKFILL_BARS: Record<CandleInterval, number> = {
+  '1m': 390,
+  '5m': 288,
+  '1h': 500,
+  '1d': 252,
+};
+
+// Coarser intervals are built from finer ones; order matters (1h must exist before 1d)
+const ROLLUPS: Array<{ source: CandleInterval; target: CandleInterval }> = [
+  { source: '1m', target: '5m' },
+  { source: '1m', target: '1h' },
+  { source: '1h', target: '1d' },
+];
+
+export const MAX_CANDLES_PER_REQUEST = 1000;
+
+export interface CandleBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  synthetic: boolean;
+}
+
+/**
+ * OHLCV candle aggregation
+ * - Every published tick is folded into its 1m candle
+ * - A cron job on the elected leader (see LeaderElection) rolls 1m candles up into 5m/1h
+ *   and 1h into 1d
+ * - Symbols without history get a GBM backfill so charts are never empty
+ */
+class CandleService {
+  private rollupJob: ScheduledTask | null = null;
+  private lastVolumes: Map<string, number> = new Map();
+  // The rollup rewrites the same buckets wherever it runs, so only the leader runs it
+  private leadership = new LeaderElection('candle-rollup', {
+    onElected: () => this.startJob(),
+    onRevoked: () => this.stopJob(),
+  });
+
+  // Campaign for leadership; the rollup job runs while this node leads
+  async start(): Promise<void> {
+    await this.leadership.start();
+  }
+
+  private startJob(): void {
+    if (this.rollupJob) {
+      console.log('Candle rollup already running');
+      return;
+    }
+
+    // Runs a few seconds into every minute so the previous 1m bucket is complete
+    this.rollupJob = cron.schedule('5 * * * * *', async () => {
+      await this.runRollups();
+    });
+    console.log('Candle rollup started');
+  }
+
+  private stopJob(): void {
+    if (this.rollupJob) {
+      this.rollupJob.stop();
+      this.rollupJob = null;
+      console.log('Candle rollup stopped');
+    }
+  }
+
+  async recordTick(quote: Quote): Promise<void> {
+    const bucketStart = this.bucketStart(quote.timestamp, '1m');
+
+    // Quotes carry cumulative day volume; store the increment since the last tick
+    const lastVolume = this.lastVolumes.get(quote.symbol);
+    const volumeDelta =
+      lastVolume !== undefined && quote.volume > lastVolume ? quote.volume - lastVolume : 0;
+    this.lastVolumes.set(quote.symbol, quote.volume);
+
+    await upsertTick(quote.symbol, bucketStart, quote.price, volumeDelta);
+  }
+
+  async getCandles(
+    symbol: string,
+    interval: CandleInterval,
+    from?: Date,
+    to?: Date,
+    adjusted: boolean = true
+  ): Promise<CandleBar[]> {
+    const upper = symbol.toUpperCase();
+    const end = to ?? new Date();
+    const start =
+      from ?? new Date(end.getTime() - INTERVAL_SECONDS[interval] * 1000 * BACKFILL_BARS[interval]);
+
+    // Only the still-open bucket (or nothing) exists yet: synthesize the history before it
+    const earliest = await getEarliestCandle(upper, interval);
+    const currentBucket = this.bucketStart(Date.now(), interval);
+    if (!earliest || new Date(earliest.bucket_start).getTime() >= currentBucket.getTime()) {
+      await this.backfill(upper, interval, earliest);
+    }
+
+    const candles = await getCandles(
+      upper,
+      interval,
+      start,
+      end,
+      MAX_CANDLES_PER_REQUEST,
+      adjusted
+    );
+    return candles.map((candle) => this.toBar(candle));
+  }
+
+  /**
+   * Generate plausible history from the simulator
+   * The GBM path is reversed so the most recent synthetic bar closes where real data starts
+   * (or at the symbol's base price when there is none)
+   */
+  private async backfill(
+    symbol: string,
+    interval: CandleInterval,
+    firstReal: Candle | null
+  ): Promise<void> {
+    // Same seed as mock quotes, so backfilled history is reproducible too
+    const simulator = simulationConfig.seed
+      ? stockSimulator.withSeed(`${simulationConfig.seed}:${symbol}:${interval}`)
+      : stockSimulator;
+    const params = stockSimulator.getSymbolParameters(symbol);
+    const bars = BACKFILL_BARS[interval];
+    const timeStep = INTERVAL_TIME_STEP[interval];
+    const anchorPrice = firstReal?.open ?? params.basePrice;
+    const path = simulator
+      .generatePricePath(anchorPrice, bars + 1, params.drift, params.volatility, timeStep)
+      .reverse();
+
+    const barVolatility = params.volatility * Math.sqrt(timeStep);
+    const lastBucket =
+      this.bucketStart(Date.now(), interval).getTime() - INTERVAL_SECONDS[interval] * 1000;
+
+    const candles = [];
+    for (let i = 1; i <= bars; i++) {
+      const open = path[i - 1];
+      const close = path[i];
+      // Wicks extend a fraction of one bar's standard deviation past the body
+      const high = Math.max(open, close) * (1 + simulator.randomUniform() * barVolatility * 0.5);
+      const low = Math.min(open, close) * (1 - simulator.randomUniform() * barVolatility * 0.5);
+
+      candles.push({
+        symbol,
+        interval,
+        bucket_start: new Date(lastBucket - (bars - i) * INTERVAL_SECONDS[interval] * 1000),
+        open: parseFloat(open.toFixed(2)),
+        high: parseFloat(high.toFixed(2)),
+        low: parseFloat(low.toFixed(2)),
+        close: parseFloat(close.toFixed(2)),
+        volume: Math.floor(simulator.randomUniform() * 100000 * (INTERVAL_SECONDS[interval] / 60)),
+      });
+    }
+
+    await insertSyntheticCandles(candles);
+    console.log(`Backfilled ${bars} synthetic ${interval} candles for ${symbol}`);
+  }
+
+  private async runRollups(): Promise<void> {
+    try {
+      for (const { source, target } of ROLLUPS) {
+        // Recompute the open bucket and the one before it (covers late ticks at the boundary)
+        const since = new Date(
+          this.bucketStart(Date.now(), target).getTime() - INTERVAL_SECONDS[target] * 1000
+        );
+        await rollupCandles(source, target, since);
+      }
+    } catch (error) {
+      console.error('Error in candle rollup:', error);
+    }
+  }
+
+  private bucketStart(timestamp: number, interval: CandleInterval): Date {
+    const width = INTERVAL_SECONDS[interval] * 1000;
+    return new Date(Math.floor(timestamp / width) * width);
+  }
+
+  private toBar(candle: Candle): CandleBar {
+    return {
+      time: new Date(candle.bucket_start).getTime(),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      synthetic: candle.is_synthetic,
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    // Hand leadership over right away; stops the job if we were running it
+    await this.leadership.stop();
+    this.stopJob();
+  }
+}
+
+export default new CandleService();
@@ -0,0 +1,223 @@
+import corporateActionService from './corporate-action.service';
+import pool from '../config/database';
+import websocketMarketService from './websocket-market.service';
+import {
+  CorporateAction,
+  applySplit,
+  applySymbolChange,
+  claimDueAction,
+  claimPayableDividend,
+  countFractionalSplitHoldings,
+  getCloseBefore,
+  getRecentlyApplied,
+  insertCorporateAction,
+  markActionApplied,
+  markActionFailed,
+  payDividend,
+  recordDividendEntitlements,
+  scaleSimulatorBasePrice,
+} from '../models/corporate-action.model';
+import { findInstrument } from '../models/instrument.model';
+
+jest.mock('../config/database', () => ({ __esModule: true, default: { connect: jest.fn() } }));
+jest.mock('../models/corporate-action.model');
+jest.mock('../models/instrument.model');
+jest.mock('./market-data.service', () => ({
+  __esModule: true,
+  default: { restateMockPrices: jest.fn() },
+}));
+jest.mock('./instrument.service', () => ({
+  __esModule: true,
+  default: { reload: jest.fn() },
+}));
+jest.mock('./websocket-market.service', () => ({
+  __esModule: true,
+  default: { emitToUser: jest.fn(), removeSymbol: jest.fn() },
+}));
+
+const client = { query: jest.fn(), release: jest.fn() };
+
+function action(overrides: Partial<CorporateAction>): CorporateAction {
+  return {
+    id: 5,
+    instrument_id: 2,
+    symbol: 'NVDA',
+    ex_date: '2026-06-10',
+    pay_date: null,
+    ratio: null,
+    amount: null,
+    old_symbol: null,
+    new_symbol: null,
+    status: 'pending',
+    ...overrides,
+  } as CorporateAction;
+}
+
+// The job applies `due` and then finds nothing else to do
+function due(next: CorporateAction): void {
+  (claimDueAction as jest.Mock).mockResolvedValueOnce(next).mockResolvedValue(null);
+}
+
+function statements(): string[] {
+  return client.query.mock.calls.map(([sql]) => sql);
+}
+
+describe('CorporateActionService', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+    (getRecentlyApplied as jest.Mock).mockResolvedValue([]);
+    (claimDueAction as jest.Mock).mockResolvedValue(null);
+    (claimPayableDividend as jest.Mock).mockResolvedValue(null);
+    (countFractionalSplitHoldings as jest.Mock).mockResolvedValue({ positions: 0, orders: 0 });
+    (applySplit as jest.Mock).mockResolvedValue({ positions: 3, orders: 1 });
+    (findInstrument as jest.Mock).mockResolvedValue({ id: 2, symbol: 'NVDA', exchange: 'NASDAQ' });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  describe('createAction', () => {
+    it('rejects an ex-date that is not a calendar date', async () => {
+      await expect(
+        corporateActionService.createAction(1, {
+          symbol: 'NVDA',
+          kind: 'split',
+          ratio: 4,
+          exDate: '2026-02-30',
+        })
+      ).rejects.toThrow('Invalid ex-date');
+      expect(insertCorporateAction).not.toHaveBeenCalled();
+    });
+
+    it('rejects a malformed pay date', async () => {
+      await expect(
+        corporateActionService.createAction(1, {
+          symbol: 'NVDA',
+          kind: 'cash_dividend',
+          amount: 0.5,
+          exDate: '2026-06-10',
+          payDate: '10/06/2026',
+        })
+      ).rejects.toThrow('Invalid pay date');
+    });
+
+    it('rejects a symbol change dated in the past', async () => {
+      await expect(
+        corporateActionService.createAction(1, {
+          symbol: 'NVDA',
+          kind: 'symbol_change',
+          newSymbol: 'NVDX',
+          exDate: '2020-01-02',
+        })
+      ).rejects.toThrow('Invalid symbol change');
+      expect(insertCorporateAction).not.toHaveBeenCalled();
+    });
+
+    it('rejects a reverse split that leaves fractional shares', async () => {
+      (countFractionalSplitHoldings as jest.Mock).mockResolvedValue({ positions: 2, orders: 1 });
+
+      await expect(
+        corporateActionService.createAction(1, {
+          symbol: 'NVDA',
+          kind: 'split',
+          ratio: 0.1,
+          exDate: '2026-06-10',
+        })
+      ).rejects.toThrow('Invalid split');
+      expect(countFractionalSplitHoldings).toHaveBeenCalledWith('NVDA', 0.1, undefined);
+      expect(insertCorporateAction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('split', () => {
+    it('restates holdings and records the factors in one transaction', async () => {
+      due(action({ kind: 'split', ratio: 4 }));
+
+      await corporateActionService.run();
+
+      expect(applySplit).toHaveBeenCalledWith(client, 'NVDA', 4);
+      expect(scaleSimulatorBasePrice).toHaveBeenCalledWith(client, 2, 0.25);
+      expect(markActionApplied).toHaveBeenCalledWith(client, 5, { price: 0.25, volume: 4 });
+      expect(statements().slice(0, 2)).toEqual(['BEGIN', 'COMMIT']);
+    });
+
+    it('fails a split that would leave fractional shares by its ex-date', async () => {
+      due(action({ kind: 'split', ratio: 0.1 }));
+      (countFractionalSplitHoldings as jest.Mock).mockResolvedValue({ positions: 1, orders: 0 });
+
+      await corporateActionService.run();
+
+      expect(applySplit).not.toHaveBeenCalled();
+      expect(statements().slice(0, 2)).toEqual(['BEGIN', 'ROLLBACK']);
+      expect(markActionFailed).toHaveBeenCalledWith(5, expect.stringContaining('fractional'));
+    });
+  });
+
+  describe('cash dividend', () => {
+    it('records holders on the ex-date and scales earlier prices by the payout', async () => {
+      const dividend = action({ kind: 'cash_dividend', amount: 1, pay_date: '2026-06-20' });
+      due(dividend);
+      (recordDividendEntitlements as jest.Mock).mockResolvedValue(2);
+      (getCloseBefore as jest.Mock).mockResolvedValue(100);
+
+      await corporateActionService.run();
+
+      expect(recordDividendEntitlements).toHaveBeenCalledWith(client, dividend);
+      expect(markActionApplied).toHaveBeenCalledWith(client, 5, { price: 0.99, volume: 1 });
+    });
+
+    it('pays holders on the pay date and notifies them', async () => {
+      const dividend = action({ kind: 'cash_dividend', amount: 1, status: 'applied' });
+      (claimPayableDividend as jest.Mock).mockResolvedValueOnce(dividend).mockResolvedValue(null);
+      (payDividend as jest.Mock).mockResolvedValue([
+        { action_id: 5, user_id: 7, symbol: 'NVDA', quantity: 10, amount: 10 },
+      ]);
+
+      await corporateActionService.run();
+
+      expect(payDividend).toHaveBeenCalledWith(client, 5);
+      expect(websocketMarketService.emitToUser).toHaveBeenCalledWith(
+        7,
+        'dividend_paid',
+        expect.objectContaining({ actionId: 5, quantity: 10, amount: 10 })
+      );
+    });
+
+    it('rolls back a failed payout and leaves it payable', async () => {
+      (claimPayableDividend as jest.Mock).mockResolvedValueOnce(
+        action({ kind: 'cash_dividend', amount: 1, status: 'applied' })
+      );
+      (payDividend as jest.Mock).mockRejectedValue(new Error('connection lost'));
+
+      await corporateActionService.run();
+
+      expect(statements()).toEqual(['BEGIN', 'COMMIT', 'BEGIN', 'ROLLBACK']);
+      expect(websocketMarketService.emitToUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('symbol change', () => {
+    it('moves everything to the new symbol and closes the old streams', async () => {
+      const change = action({ kind: 'symbol_change', new_symbol: 'NVDX' });
+      due(change);
+
+      await corporateActionService.run();
+
+      expect(applySymbolChange).toHaveBeenCalledWith(client, change);
+      expect(markActionApplied).toHaveBeenCalledWith(client, 5, { price: 1, volume: 1 });
+      expect(websocketMarketService.removeSymbol).toHaveBeenCalledWith('NVDA', 'NVDX');
+    });
+
+    it('marks the change failed when the new symbol was taken by then', async () => {
+      due(action({ kind: 'symbol_change', new_symbol: 'NVDX' }));
+      (applySymbolChange as jest.Mock).mockRejectedValue(
+        Object.assign(new Error('duplicate key value'), { code: '23505' })
+      );
+
+      await corporateActionService.run();
+
+      expect(markActionFailed).toHaveBeenCalledWith(5, 'duplicate key value');
+      expect(websocketMarketService.removeSymbol).not.toHaveBeenCalled();
+    });
+  });
+});
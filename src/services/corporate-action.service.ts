@@ -0,0 +1,351 @@
+import cron from 'node-cron';
+import { ScheduledTask } from 'node-cron';
+import { PoolClient } from 'pg';
+import { z } from 'zod';
+import pool from '../config/database';
+import {
+  CorporateAction,
+  CorporateActionKind,
+  DividendPayment,
+  insertCorporateAction,
+  getCorporateActions,
+  getCorporateActionById,
+  cancelCorporateAction,
+  isSymbolChangePending,
+  claimDueAction,
+  claimPayableDividend,
+  markActionApplied,
+  markActionFailed,
+  applySplit,
+  applySymbolChange,
+  countFractionalSplitHoldings,
+  getCloseBefore,
+  recordDividendEntitlements,
+  scaleSimulatorBasePrice,
+  payDividend,
+  getRecentlyApplied,
+} from '../models/corporate-action.model';
+import { findInstrument } from '../models/instrument.model';
+import { getSessionDate } from '../utils/market-calendar';
+import marketDataService from './market-data.service';
+import instrumentService from './instrument.service';
+import websocketMarketService from './websocket-market.service';
+
+// Applied actions are looked for this far back when catching up a node's mock prices
+const RESTATE_WINDOW_MS = 10 * 60 * 1000;
+
+const isoDate = z.iso.date();
+
+// The data rules an action out; it is marked failed rather than retried
+class InvalidActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidActionError';
+  }
+}
+
+export interface CreateCorporateActionRequest {
+  symbol: string;
+  kind: CorporateActionKind;
+  exDate: string; // YYYY-MM-DD
+  payDate?: string; // dividends
+  ratio?: number; // splits
+  amount?: number; // dividends, per share
+  newSymbol?: string; // symbol changes
+}
+
+/**
+ * Splits, cash dividends and symbol changes
+ * A job on every node applies actions on their ex-date, each in one transaction claimed
+ * with SKIP LOCKED so only one node applies it:
+ * - split: positions get `ratio` times the shares at 1/ratio the average cost, and open
+ *   limit orders are restated the same way; a split that would leave whole-share holdings
+ *   with a fraction of a share is refused
+ * - cash dividend: holders on the ex-date are recorded, and credited on the pay date
+ * - symbol change: the instrument, positions, open orders, alerts, watchlists and candles
+ *   move to the new symbol
+ * Stored candles keep the prices that traded; applied actions carry the factors that
+ * restate earlier bars when adjusted candles are read.
+ */
+class CorporateActionService {
+  private job: ScheduledTask | null = null;
+  private running = false;
+  // Applied actions whose mock prices this node has already restated
+  private restated: Set<number> = new Set();
+
+  async start(): Promise<void> {
+    if (this.job) {
+      console.log('Corporate action job already running');
+      return;
+    }
+
+    // Anything applied before this node started has no mock prices here to restate
+    (await getRecentlyApplied(RESTATE_WINDOW_MS)).forEach((action) => this.restated.add(action.id));
+
+    // Every minute, offset from the candle rollup
+    this.job = cron.schedule('30 * * * * *', async () => {
+      await this.run();
+    });
+    console.log('Corporate action job started');
+    await this.run();
+  }
+
+  stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      console.log('Corporate action job stopped');
+    }
+  }
+
+  async createAction(
+    userId: number,
+    input: CreateCorporateActionRequest
+  ): Promise<CorporateAction> {
+    const instrument = await findInstrument(input.symbol);
+    if (!instrument) throw new Error('Instrument not found');
+
+    if (!isoDate.safeParse(input.exDate).success) {
+      throw new Error('Invalid ex-date: expected YYYY-MM-DD');
+    }
+
+    const newSymbol = input.newSymbol?.toUpperCase() ?? null;
+    if (input.kind === 'split') {
+      if (input.ratio === undefined || input.ratio === 1) {
+        throw new Error('A split needs a ratio other than 1');
+      }
+      await this.checkWholeShares(instrument.symbol, input.ratio);
+    } else if (input.kind === 'cash_dividend') {
+      if (input.amount === undefined || !input.payDate) {
+        throw new Error('A cash dividend needs an amount and a pay date');
+      }
+      if (!isoDate.safeParse(input.payDate).success) {
+        throw new Error('Invalid pay date: expected YYYY-MM-DD');
+      }
+      if (input.payDate < input.exDate) {
+        throw new Error('Invalid dividend: the pay date is before the ex-date');
+      }
+    } else {
+      if (!newSymbol || newSymbol === instrument.symbol) {
+        throw new Error('A symbol change needs a new symbol');
+      }
+      // Orders, alerts and candles created since then would move under the new symbol
+      if (input.exDate < getSessionDate(instrument.exchange)) {
+        throw new Error('Invalid symbol change: the ex-date is in the past');
+      }
+      if ((await findInstrument(newSymbol)) || (await isSymbolChangePending(newSymbol))) {
+        throw new Error(`Instrument ${newSymbol} already exists`);
+      }
+    }
+
+    const action = await insertCorporateAction({
+      instrument_id: instrument.id,
+      kind: input.kind,
+      ex_date: input.exDate,
+      pay_date: input.kind === 'cash_dividend' ? input.payDate! : null,
+      ratio: input.kind === 'split' ? input.ratio! : null,
+      amount: input.kind === 'cash_dividend' ? input.amount! : null,
+      new_symbol: input.kind === 'symbol_change' ? newSymbol : null,
+      created_by: userId,
+    });
+    console.log(`Corporate action ${action.id} recorded: ${this.describe(action)}`);
+
+    // Due already: apply it now rather than on the next run
+    await this.run();
+    return (await getCorporateActionById(action.id)) ?? action;
+  }
+
+  async getActions(symbol: string | undefined, limit: number = 100): Promise<CorporateAction[]> {
+    return getCorporateActions(symbol, limit);
+  }
+
+  async getAction(id: number): Promise<CorporateAction> {
+    const action = await getCorporateActionById(id);
+    if (!action) throw new Error('Corporate action not found');
+    return action;
+  }
+
+  async cancelAction(id: number): Promise<CorporateAction> {
+    const action = await cancelCorporateAction(id);
+    if (!action) throw new Error('Corporate action not found or already applied');
+    return action;
+  }
+
+  // Apply what's due, pay what's payable, then catch this node's mock prices up
+  async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      while (await this.applyNext()) {
+        // one action per transaction
+      }
+      while (await this.payNext()) {
+        // one dividend per transaction
+      }
+      await this.restateMockPrices();
+    } catch (error) {
+      console.error('Corporate action job failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Apply the next due action; false when there is none
+  private async applyNext(): Promise<boolean> {
+    const client = await pool.connect();
+    let action: CorporateAction | null = null;
+
+    try {
+      await client.query('BEGIN');
+      action = await claimDueAction(client);
+      if (action) {
+        const factors = await this.apply(client, action);
+        if (factors.price !== 1) {
+          await scaleSimulatorBasePrice(client, action.instrument_id, factors.price);
+        }
+        await markActionApplied(client, action.id, factors);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      // Connection drops, lock timeouts and the like: leave it pending for the next run
+      if (!action || !this.isPermanentFailure(error)) throw error;
+
+      // Don't retry an action the data rules out; it shows up as failed with the reason
+      console.error(`Corporate action ${action.id} failed:`, error);
+      await markActionFailed(action.id, error instanceof Error ? error.message : String(error));
+      return true;
+    } finally {
+      client.release();
+    }
+
+    if (!action) return false;
+    console.log(`Corporate action ${action.id} applied: ${this.describe(action)}`);
+
+    await instrumentService.reload();
+    if (action.kind === 'symbol_change') {
+      await websocketMarketService.removeSymbol(action.symbol, action.new_symbol!);
+    }
+    return true;
+  }
+
+  private async apply(
+    client: PoolClient,
+    action: CorporateAction
+  ): Promise<{ price: number; volume: number }> {
+    switch (action.kind) {
+      case 'split': {
+        const ratio = action.ratio!;
+        // Holdings may have changed since the split was scheduled
+        await this.checkWholeShares(action.symbol, ratio, client);
+        const { positions, orders } = await applySplit(client, action.symbol, ratio);
+        console.log(
+          `Split ${action.symbol}: ${positions} positions, ${orders} open orders restated`
+        );
+        return { price: 1 / ratio, volume: ratio };
+      }
+      case 'cash_dividend': {
+        const holders = await recordDividendEntitlements(client, action);
+        console.log(`Dividend ${action.symbol}: ${holders} holders on ${action.ex_date}`);
+        // Earlier prices are scaled down by the dividend's share of the last close
+        const close = await getCloseBefore(client, action.symbol, action.ex_date);
+        const amount = action.amount!;
+        return { price: close && close > amount ? 1 - amount / close : 1, volume: 1 };
+      }
+      case 'symbol_change':
+        await applySymbolChange(client, action);
+        return { price: 1, volume: 1 };
+    }
+  }
+
+  // Credit the next dividend whose pay date has come; false when there is none
+  private async payNext(): Promise<boolean> {
+    const client = await pool.connect();
+    let action: CorporateAction | null = null;
+    let payments: DividendPayment[] = [];
+
+    try {
+      await client.query('BEGIN');
+      action = await claimPayableDividend(client);
+      if (action) payments = await payDividend(client, action.id);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (!action) return false;
+    console.log(`Dividend ${action.id} (${action.symbol}) paid to ${payments.length} holders`);
+
+    for (const payment of payments) {
+      websocketMarketService.emitToUser(payment.user_id, 'dividend_paid', {
+        actionId: action.id,
+        symbol: payment.symbol,
+        quantity: payment.quantity,
+        amountPerShare: action.amount,
+        amount: payment.amount,
+        payDate: action.pay_date,
+      });
+    }
+    return true;
+  }
+
+  // Whichever node applied an action, every node's simulator continues in the new terms
+  private async restateMockPrices(): Promise<void> {
+    const recent = await getRecentlyApplied(RESTATE_WINDOW_MS);
+    for (const action of recent) {
+      if (this.restated.has(action.id)) continue;
+      this.restated.add(action.id);
+
+      if (action.kind === 'symbol_change') {
+        await marketDataService.restateMockPrices(action.old_symbol!, 1, action.new_symbol!);
+      } else {
+        await marketDataService.restateMockPrices(action.symbol, action.price_factor ?? 1);
+      }
+    }
+
+    // Forget actions that have left the window
+    const ids = new Set(recent.map((action) => action.id));
+    for (const id of this.restated) {
+      if (!ids.has(id)) this.restated.delete(id);
+    }
+  }
+
+  // A split must not turn whole-share positions or open orders into fractional ones
+  private async checkWholeShares(
+    symbol: string,
+    ratio: number,
+    client?: PoolClient
+  ): Promise<void> {
+    const { positions, orders } = await countFractionalSplitHoldings(symbol, ratio, client);
+    if (positions > 0 || orders > 0) {
+      throw new InvalidActionError(
+        `Invalid split: a ratio of ${ratio} leaves fractional shares in ${positions} positions and ${orders} open orders`
+      );
+    }
+  }
+
+  /**
+   * Errors that retrying won't fix: invalid actions, Postgres data exceptions (class 22)
+   * and constraint violations (class 23), e.g. the new symbol of a symbol change being
+   * taken by then
+   */
+  private isPermanentFailure(error: unknown): boolean {
+    if (error instanceof InvalidActionError) return true;
+    const code = (error as { code?: unknown } | null)?.code;
+    return typeof code === 'string' && (code.startsWith('22') || code.startsWith('23'));
+  }
+
+  private describe(action: CorporateAction): string {
+    if (action.kind === 'split')
+      return `${action.symbol} ${action.ratio}:1 split on ${action.ex_date}`;
+    if (action.kind === 'symbol_change') {
+      return `${action.old_symbol ?? action.symbol} → ${action.new_symbol} on ${action.ex_date}`;
+    }
+    return `${action.symbol} $${action.amount} dividend, ex ${action.ex_date}, paid ${action.pay_date}`;
+  }
+}
+
+export default new CorporateActionService();
@@ -0,0 +1,78 @@
+import { CandleInterval } from '../models/candle.model';
+import {
+  IndicatorType,
+  IndicatorValue,
+  DEFAULT_PERIODS,
+  computeIndicator,
+} from '../utils/indicators';
+import candleService from './candle.service';
+import { Quote } from './market-data.service';
+import websocketMarketService from './websocket-market.service';
+
+export interface IndicatorSpec {
+  type: IndicatorType;
+  period: number;
+  interval: CandleInterval;
+}
+
+export interface IndicatorPoint {
+  time: number;
+  value: IndicatorValue | null;
+}
+
+/**
+ * Server-side indicators over stored candles
+ * Streamed indicators are registered by WebSocketMarketService as
+ * `type:period:interval` keys; the price updater recomputes them on each tick
+ */
+class IndicatorService {
+  async getIndicator(
+    symbol: string,
+    spec: IndicatorSpec,
+    from?: Date,
+    to?: Date
+  ): Promise<IndicatorPoint[]> {
+    const candles = await candleService.getCandles(symbol, spec.interval, from, to);
+    const values = computeIndicator(spec.type, candles, spec.period);
+    return candles.map((candle, i) => ({ time: candle.time, value: values[i] }));
+  }
+
+  // Recompute every streamed indicator for this symbol and push the latest value
+  async publishUpdates(quote: Quote): Promise<void> {
+    const members = await websocketMarketService.getActiveIndicators(quote.symbol);
+    if (members.length === 0) return;
+
+    for (const member of members) {
+      const spec = this.parseSpec(member);
+      if (!spec) continue;
+
+      try {
+        const points = await this.getIndicator(quote.symbol, spec);
+        const latest = points[points.length - 1];
+        if (!latest) continue;
+
+        websocketMarketService.publishIndicatorUpdate(quote.symbol, member, {
+          symbol: quote.symbol,
+          ...spec,
+          time: latest.time,
+          value: latest.value,
+          price: quote.price,
+        });
+      } catch (error) {
+        console.error(`Failed to update ${member} for ${quote.symbol}:`, error);
+      }
+    }
+  }
+
+  private parseSpec(key: string): IndicatorSpec | null {
+    const [type, period, interval] = key.split(':');
+    if (!(type in DEFAULT_PERIODS)) return null;
+    return {
+      type: type as IndicatorType,
+      period: Number(period),
+      interval: interval as CandleInterval,
+    };
+  }
+}
+
+export default new IndicatorService();
@@ -0,0 +1,309 @@
+import { z } from 'zod';
+import {
+  bulkUpsertInstruments,
+  searchInstruments,
+  listInstruments,
+  findInstrument,
+  insertInstrument,
+  updateInstrument,
+  setInstrumentActive,
+  getSimulationState,
+  Instrument,
+  InstrumentFields,
+  InstrumentImportRow,
+  InstrumentStatus,
+} from '../models/instrument.model';
+import { parseCsvRecords } from '../utils/csv';
+import stockSimulator, { SymbolParameters } from '../utils/stock-simulator';
+import marketDataService from './market-data.service';
+import websocketMarketService from './websocket-market.service';
+
+// Rows written per statement
+const IMPORT_BATCH_SIZE = 1000;
+export const MAX_IMPORT_ROWS = 50000;
+export const DEFAULT_SEARCH_LIMIT = 10;
+// Other nodes pick up admin edits within this long
+const RELOAD_MS = 30000;
+
+// Empty CSV cells count as "not provided"
+const optional = (schema: z.ZodString) =>
+  z.preprocess((value) => (value === '' || value === null ? undefined : value), schema.optional());
+
+const importRowSchema = z.object({
+  symbol: z.string().trim().min(1).max(20).toUpperCase(),
+  name: z.string().trim().min(1).max(255),
+  exchange: optional(z.string().trim().max(50).toUpperCase()),
+  sector: optional(z.string().trim().max(100)),
+  asset_type: optional(z.string().trim().max(50).toLowerCase()),
+  currency: optional(z.string().trim().min(3).max(10).toUpperCase()),
+});
+
+export interface ImportRowError {
+  row: number;
+  symbol?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  received: number;
+  inserted: number;
+  updated: number;
+  duplicates: number;
+  errors: ImportRowError[];
+}
+
+export interface InstrumentInput {
+  name?: string;
+  exchange?: string;
+  sector?: string | null;
+  assetType?: string;
+  currency?: string;
+  // null clears them, so the simulator falls back to sector defaults
+  simulation?: SymbolParameters | null;
+}
+
+export interface SearchResult {
+  symbol: string;
+  name: string;
+  description: string; // same as name; kept for older clients
+  exchange: string | null;
+  sector: string | null;
+  assetType: string | null;
+  currency: string | null;
+  source: 'local' | 'provider';
+}
+
+/**
+ * Instrument reference data
+ * The instruments table is the source of truth: it is filled by bulk imports and admin
+ * edits, and searched with prefix + trigram ranking. The external provider only tops up
+ * search results with symbols we don't have yet.
+ *
+ * Each node keeps the simulator parameters and the deactivated symbols in memory,
+ * reloaded every RELOAD_MS and right after an edit made through it.
+ */
+class InstrumentService {
+  private inactive: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+    await this.reload();
+    this.timer = setInterval(() => {
+      this.reload().catch((error) => console.error('Instrument reload failed:', error));
+    }, RELOAD_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Deactivated as of the last reload on this node
+  isInactive(symbol: string): boolean {
+    return this.inactive.has(symbol.toUpperCase());
+  }
+
+  async listInstruments(
+    status: InstrumentStatus,
+    limit: number,
+    offset: number
+  ): Promise<Instrument[]> {
+    return listInstruments(status, limit, offset);
+  }
+
+  async getInstrument(symbol: string): Promise<Instrument> {
+    const instrument = await findInstrument(symbol);
+    if (!instrument) throw new Error('Instrument not found');
+    return instrument;
+  }
+
+  async createInstrument(
+    symbol: string,
+    input: InstrumentInput & { name: string }
+  ): Promise<Instrument> {
+    const instrument = await insertInstrument(symbol, {
+      ...this.toFields(input),
+      name: input.name,
+    });
+    if (!instrument) throw new Error(`Instrument ${symbol.toUpperCase()} already exists`);
+
+    await this.reload();
+    return instrument;
+  }
+
+  async updateInstrument(symbol: string, input: InstrumentInput): Promise<Instrument> {
+    const instrument = await updateInstrument(symbol, this.toFields(input));
+    if (!instrument) throw new Error('Instrument not found');
+
+    marketDataService.forgetInstrument(instrument.symbol);
+    await this.reload();
+    return instrument;
+  }
+
+  /**
+   * Take a symbol out of service
+   * It disappears from search, subscribers are notified and unsubscribed, and new
+   * subscriptions are refused until it is reactivated
+   */
+  async deactivateInstrument(symbol: string): Promise<Instrument> {
+    const instrument = await setInstrumentActive(symbol, false);
+    if (!instrument) return this.explainUnchanged(symbol, 'inactive');
+
+    marketDataService.forgetInstrument(instrument.symbol);
+    await this.reload();
+    await websocketMarketService.removeSymbol(instrument.symbol);
+    console.log(`Instrument ${instrument.symbol} deactivated`);
+    return instrument;
+  }
+
+  async reactivateInstrument(symbol: string): Promise<Instrument> {
+    const instrument = await setInstrumentActive(symbol, true);
+    if (!instrument) return this.explainUnchanged(symbol, 'active');
+
+    await this.reload();
+    console.log(`Instrument ${instrument.symbol} reactivated`);
+    return instrument;
+  }
+
+  /**
+   * Import instruments from CSV (header row required) or a JSON array
+   * Invalid rows are reported and skipped; a symbol listed twice keeps its last row
+   */
+  async importInstruments(format: 'csv' | 'json', payload: unknown): Promise<ImportResult> {
+    const records = this.readRecords(format, payload);
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new Error(`An import can have at most ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    const errors: ImportRowError[] = [];
+    const rows = new Map<string, InstrumentImportRow>();
+    let duplicates = 0;
+
+    for (const { row, record } of records) {
+      const parsed = importRowSchema.safeParse(record);
+      if (!parsed.success) {
+        const symbol = typeof record.symbol === 'string' ? record.symbol : undefined;
+        errors.push({
+          row,
+          symbol,
+          message: parsed.error.issues
+            .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; '),
+        });
+        continue;
+      }
+      if (rows.has(parsed.data.symbol)) duplicates++;
+      rows.set(parsed.data.symbol, parsed.data);
+    }
+
+    let inserted = 0;
+    let updated = 0;
+    const valid = Array.from(rows.values());
+    for (let i = 0; i < valid.length; i += IMPORT_BATCH_SIZE) {
+      const batch = valid.slice(i, i + IMPORT_BATCH_SIZE);
+      const counts = await bulkUpsertInstruments(batch);
+      inserted += counts.inserted;
+      updated += counts.updated;
+      // Cached exchanges and sectors, including the US default for symbols unknown until now
+      batch.forEach((row) => marketDataService.forgetInstrument(row.symbol));
+    }
+
+    console.log(
+      `Instrument import: ${inserted} inserted, ${updated} updated, ${errors.length} rejected`
+    );
+    return { received: records.length, inserted, updated, duplicates, errors };
+  }
+
+  // Local matches first; provider results fill any remaining slots
+  async search(query: string, limit: number = DEFAULT_SEARCH_LIMIT): Promise<SearchResult[]> {
+    const local: SearchResult[] = (await searchInstruments(query.trim(), limit)).map(
+      (instrument) => ({
+        symbol: instrument.symbol,
+        name: instrument.name,
+        description: instrument.name,
+        exchange: instrument.exchange ?? null,
+        sector: instrument.sector ?? null,
+        assetType: instrument.asset_type ?? null,
+        currency: instrument.currency ?? null,
+        source: 'local',
+      })
+    );
+    if (local.length >= limit) return local;
+
+    try {
+      const known = new Set(local.map((result) => result.symbol));
+      const enrichment = (await marketDataService.searchProvider(query))
+        .filter((result) => !known.has(result.symbol.toUpperCase()))
+        .slice(0, limit - local.length)
+        .map<SearchResult>((result) => ({
+          symbol: result.symbol.toUpperCase(),
+          name: result.description,
+          description: result.description,
+          exchange: null,
+          sector: null,
+          assetType: result.type ?? null,
+          currency: null,
+          source: 'provider',
+        }));
+      return [...local, ...enrichment];
+    } catch (error) {
+      // The local results stand on their own
+      console.warn('Provider search failed, serving local results only:', error);
+      return local;
+    }
+  }
+
+  // Push the stored simulator parameters into the simulator and refresh the inactive set
+  async reload(): Promise<void> {
+    const { parameters, inactive } = await getSimulationState();
+    stockSimulator.setSymbolParameters(parameters);
+    this.inactive = new Set(inactive);
+  }
+
+  // setInstrumentActive changed nothing: either no such symbol, or it was already in that state
+  private async explainUnchanged(symbol: string, state: 'active' | 'inactive'): Promise<never> {
+    if (!(await findInstrument(symbol))) throw new Error('Instrument not found');
+    throw new Error(`Instrument ${symbol.toUpperCase()} is already ${state}`);
+  }
+
+  private toFields(input: InstrumentInput): InstrumentFields {
+    const simulation = input.simulation;
+    return {
+      name: input.name,
+      exchange: input.exchange,
+      sector: input.sector,
+      asset_type: input.assetType,
+      currency: input.currency,
+      sim_drift: simulation === null ? null : simulation?.drift,
+      sim_volatility: simulation === null ? null : simulation?.volatility,
+      sim_base_price: simulation === null ? null : simulation?.basePrice,
+    };
+  }
+
+  private readRecords(
+    format: 'csv' | 'json',
+    payload: unknown
+  ): Array<{ row: number; record: Record<string, unknown> }> {
+    if (format === 'csv') {
+      if (typeof payload !== 'string') throw new Error('Invalid CSV: expected a text body');
+      return parseCsvRecords(payload);
+    }
+
+    // A bare array, or { instruments: [...] }
+    const list = Array.isArray(payload)
+      ? payload
+      : (payload as { instruments?: unknown } | null)?.instruments;
+    if (!Array.isArray(list)) {
+      throw new Error('Invalid JSON: expected an array of instruments');
+    }
+    return list.map((record, i) => ({
+      row: i + 1,
+      record: record && typeof record === 'object' ? (record as Record<string, unknown>) : {},
+    }));
+  }
+}
+
+export default new InstrumentService();
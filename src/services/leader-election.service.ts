@@ -0,0 +1,120 @@
+import redisClient from '../config/redis';
+import { INSTANCE_ID } from '../config/instance';
+
+// Extend the lease only if we still hold it
+const RENEW_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  end
+  return 0
+`;
+
+// Give the lease up only if we still hold it
+const RELEASE_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+  end
+  return 0
+`;
+
+export interface LeaderElectionOptions {
+  onElected: () => void;
+  onRevoked: () => void;
+  leaseMs?: number;
+}
+
+/**
+ * Redis lease-based leader election for singleton background jobs
+ * The leader holds `leader:<name>` (value = instance id, PX lease) and renews it every
+ * third of the lease; followers try to take it on the same cadence. A leader that cannot
+ * reach Redis steps down while its last lease is still valid, before anyone else could
+ * take over. Stopping releases the lease so another node takes over immediately
+ * instead of waiting for expiry.
+ */
+export class LeaderElection {
+  private timer: NodeJS.Timeout | null = null;
+  private leader = false;
+  private lastRenewedAt = 0;
+  private readonly key: string;
+  private readonly leaseMs: number;
+
+  constructor(
+    name: string,
+    private options: LeaderElectionOptions
+  ) {
+    this.key = `leader:${name}`;
+    this.leaseMs = options.leaseMs ?? 15000;
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+    const campaign = () =>
+      this.tick().catch((error) => console.error(`Leader election (${this.key}) failed:`, error));
+
+    await campaign();
+    this.timer = setInterval(campaign, Math.floor(this.leaseMs / 3));
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (!this.leader) return;
+
+    this.setLeader(false);
+    try {
+      await redisClient.eval(RELEASE_SCRIPT, { keys: [this.key], arguments: [INSTANCE_ID] });
+    } catch (error) {
+      console.error(`Failed to release ${this.key}:`, error);
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  // Instance currently holding the lease, if any
+  async getLeaderId(): Promise<string | null> {
+    return redisClient.get(this.key);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      if (this.leader) {
+        const renewed = await redisClient.eval(RENEW_SCRIPT, {
+          keys: [this.key],
+          arguments: [INSTANCE_ID, String(this.leaseMs)],
+        });
+        if (renewed === 1) {
+          this.lastRenewedAt = Date.now();
+        } else {
+          console.warn(`Lost ${this.key} to another instance`);
+          this.setLeader(false);
+        }
+        return;
+      }
+
+      const acquired = await redisClient.set(this.key, INSTANCE_ID, { NX: true, PX: this.leaseMs });
+      if (acquired === 'OK') {
+        this.lastRenewedAt = Date.now();
+        this.setLeader(true);
+      }
+    } catch (error) {
+      // Can't reach Redis: step down before our last lease could expire
+      if (this.leader && Date.now() - this.lastRenewedAt >= this.leaseMs / 2) {
+        console.warn(`Could not renew ${this.key}, stepping down`);
+        this.setLeader(false);
+      }
+      throw error;
+    }
+  }
+
+  private setLeader(leader: boolean): void {
+    if (leader === this.leader) return;
+    this.leader = leader;
+    console.log(`${leader ? 'Elected' : 'No longer'} leader for ${this.key} (${INSTANCE_ID})`);
+    if (leader) this.options.onElected();
+    else this.options.onRevoked();
+  }
+}
@@ -1,9 +1,38 @@
 import axios from 'axios';
-import { upsertInstrument, getInstrumentBySymbol } from '../models/instrument.model';
+import { randomUUID } from 'crypto';
+import redisClient from '../config/redis';
+import { upsertInstrument, getInstrumentBySymbol, Instrument } from '../models/instrument.model';
 import stockSimulator from '../utils/stock-simulator';
+import { simulationConfig, getSimulationModel } from '../config/simulation';
+import { MarketStatus, getMarketStatus, getSessionDate } from '../utils/market-calendar';
+import { CircuitBreaker, CircuitBreakerSnapshot } from '../utils/circuit-breaker';
+import {
+  MarketDataProvider,
+  ProviderName,
+  ProviderError,
+  createProviderChain,
+  circuitBreakerOptions,
+} from './providers';
+import marketScenarioService from './market-scenario.service';
 
-const ALPHA_VANTAGE_KEY = process.env.ALPHA_VANTAGE_API_KEY;
 const FINNHUB_KEY = process.env.FINNHUB_API_KEY;
+// A cached quote younger than this is served without asking a provider
+const QUOTE_CACHE_FRESHNESS_MS = parseInt(process.env.QUOTE_CACHE_FRESHNESS_SECONDS || '5', 10) * 1000;
+// Cross-instance fetch lock: held at most this long, waited on at most this long
+const QUOTE_LOCK_TTL_MS = 5000;
+const QUOTE_LOCK_WAIT_MS = 2000;
+const QUOTE_LOCK_POLL_MS = 100;
+// Delete the lock only if we still own it (it may have expired and been re-taken)
+const RELEASE_LOCK_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+  end
+  return 0
+`;
+// Mock quotes are stepped as 1-minute bars (252 trading days, 6.5 hours)
+const MOCK_TIME_STEP = 1 / (252 * 78);
+// Correlated symbols quoted within the same window share one joint shock draw
+const CORRELATION_WINDOW_MS = 5000;
 
 export interface Quote {
   symbol: string;
@@ -16,145 +45,321 @@ export interface Quote {
   previousClose: number;
   volume: number;
   timestamp: number;
-  dataSource: 'finnhub' | 'alphavantage' | 'mock';
+  dataSource: ProviderName | 'mock';
   isRealTime: boolean; 
+  marketStatus: MarketStatus;
+  // Set on quotes pushed by the price updater
+  stale?: boolean;
+  refreshLagMs?: number;
+  // Trading halted by a market scenario (mock data only)
+  halted?: boolean;
+}
+
+export interface QuoteOptions {
+  // Accept a cached quote up to this old; 0 always fetches (default QUOTE_CACHE_FRESHNESS_SECONDS)
+  maxAgeMs?: number;
+}
+
+export interface ProviderSearchResult {
+  symbol: string;
+  description: string;
+  type?: string;
+}
+
+export interface ProviderHealth extends CircuitBreakerSnapshot {
+  name: ProviderName;
+  position: number;
+  configured: boolean;
+}
+
+// Mock trading-day state: previousClose/open roll when a new session starts
+interface MockSession {
+  sessionDate: string;
+  previousClose: number;
+  open: number;
+  openSet: boolean;
 }
 
 class MarketDataService {
-  private rateLimitHit: boolean = false;
-  private rateLimitResetTime: number = 0;
+  private providers: Array<{ provider: MarketDataProvider; breaker: CircuitBreaker }> =
+    createProviderChain().map((provider) => ({
+      provider,
+      breaker: new CircuitBreaker(circuitBreakerOptions),
+    }));
+  private exchanges: Map<string, string> = new Map();
+  private sectors: Map<string, string> = new Map();
+  private inFlight: Map<string, Promise<Quote>> = new Map();
   /**
    * Get current quote for a symbol
-   * Tries Finnhub first(60 req/min), falls back to Alpha Vantage(5 req/min), then mock data
+   * Read-through: a fresh `quote:<SYMBOL>` entry in Redis is served as is; otherwise
+   * one upstream fetch is shared by every concurrent caller (see fetchQuote)
    */
-  async getQuote(symbol: string): Promise<Quote> {
-    // Check if we're in rate limit cooldown
-    if (this.rateLimitHit && Date.now() < this.rateLimitResetTime) {
-      console.warn(`Rate limit active, using mock data for ${symbol}`);
-      const quote = this.getMockQuote(symbol);
-      return { ...quote, dataSource: 'mock', isRealTime: false };
+  async getQuote(symbol: string, options: QuoteOptions = {}): Promise<Quote> {
+    const upper = symbol.toUpperCase();
+    const maxAgeMs = options.maxAgeMs ?? QUOTE_CACHE_FRESHNESS_MS;
+
+    if (maxAgeMs > 0) {
+      const cached = this.parseCachedQuote(await this.readCache(upper));
+      if (cached && this.isFresh(cached, maxAgeMs)) return cached;
     }
+    return this.fetchQuote(upper, maxAgeMs);
+  }
+
+  /**
+   * Upstream fetch, coalesced
+   * In-process: concurrent callers for a symbol share one promise.
+   * Across instances: the first to take `quote-lock:<SYMBOL>` fetches and writes the
+   * cache; the others poll the cache briefly and only fetch themselves if it never fills.
+   */
+  private fetchQuote(symbol: string, maxAgeMs: number): Promise<Quote> {
+    const pending = this.inFlight.get(symbol);
+    if (pending) return pending;
+
+    const fetch = this.fetchWithLock(symbol, maxAgeMs).finally(() => {
+      this.inFlight.delete(symbol);
+    });
+    this.inFlight.set(symbol, fetch);
+    return fetch;
+  }
+
+  private async fetchWithLock(symbol: string, maxAgeMs: number): Promise<Quote> {
+    const lockKey = `quote-lock:${symbol}`;
+    const token = randomUUID();
+    let locked = false;
     try {
-      const quote = await this.getQuoteFromFinnhub(symbol);
-      // Reset rate limit flag on success
-      this.rateLimitHit = false;
-      return { ...quote, dataSource: 'finnhub', isRealTime: true };
-    } catch (error: any) {
-      // Check if it's a rate limit error
-      if (error.response?.status === 429 || error.message?.includes('rate limit')) {
-        console.warn(`Finnhub rate limit hit, switching to mock data for 60 seconds`);
-        this.rateLimitHit = true;
-        this.rateLimitResetTime = Date.now() + 60000; // 1 minute cooldown
-        const quote = this.getMockQuote(symbol);
-        return { ...quote, dataSource: 'mock', isRealTime: false };
+      locked = (await redisClient.set(lockKey, token, { NX: true, PX: QUOTE_LOCK_TTL_MS })) === 'OK';
+    } catch (error) {
+      console.error(`Quote lock failed for ${symbol}, fetching without it:`, error);
+      return this.fetchAndCache(symbol);
+    }
+
+    if (!locked) {
+      // Another instance is fetching; wait for its result (anything newer than now counts)
+      const requestedAt = Date.now();
+      const deadline = requestedAt + QUOTE_LOCK_WAIT_MS;
+      while (Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, QUOTE_LOCK_POLL_MS));
+        const cached = this.parseCachedQuote(await this.readCache(symbol));
+        if (cached && (cached.timestamp >= requestedAt || this.isFresh(cached, maxAgeMs))) {
+          return cached;
+        }
       }
-      // Other errors, try Alpha Vantage or mock
-      console.warn(`Finnhub failed for ${symbol}, using mock data`);
-      const quote = this.getMockQuote(symbol);
-      return { ...quote, dataSource: 'mock', isRealTime: false };
+      return this.fetchAndCache(symbol);
+    }
+
+    try {
+      return await this.fetchAndCache(symbol);
+    } finally {
+      await redisClient
+        .eval(RELEASE_LOCK_SCRIPT, { keys: [lockKey], arguments: [token] })
+        .catch((error) => console.error(`Failed to release quote lock for ${symbol}:`, error));
     }
   }
 
-  // Fetch quote from Finnhub
-  private async getQuoteFromFinnhub(symbol: string): Promise<Quote> {
-    const response = await axios.get('https://finnhub.io/api/v1/quote', {
-      params: {
-        symbol: symbol.toUpperCase(),
-        token: FINNHUB_KEY,
-      },
-      timeout: 5000,
-    });
+  private async fetchAndCache(symbol: string): Promise<Quote> {
+    const quote = await this.fetchFromProviders(symbol);
+    try {
+      // Keep entries a little past freshness so waiting instances can still pick them up
+      await redisClient.set(`quote:${symbol}`, JSON.stringify(quote), {
+        PX: Math.max(QUOTE_CACHE_FRESHNESS_MS * 2, 10000),
+      });
+    } catch (error) {
+      console.error(`Failed to cache quote for ${symbol}:`, error);
+    }
+    return quote;
+  }
 
-    const data = response.data;
-    // Finnhub returns 0 for all fields if symbol invalid
-    if (data.c === 0 && data.pc === 0) {
-      throw new Error(`Invalid symbol or no data: ${symbol}`);
+  private async readCache(symbol: string): Promise<string | null> {
+    try {
+      return await redisClient.get(`quote:${symbol}`);
+    } catch (error) {
+      console.error(`Quote cache read failed for ${symbol}:`, error);
+      return null;
     }
+  }
 
-    const price = data.c;
-    const previousClose = data.pc;
-    const change = price - previousClose;
-    const changePercent = (change / previousClose) * 100;
+  private parseCachedQuote(value: string | null | undefined): Quote | null {
+    if (!value) return null;
+    try {
+      return JSON.parse(value) as Quote;
+    } catch {
+      return null;
+    }
+  }
 
-    return {
-      symbol: symbol.toUpperCase(),
-      price,
-      change,
-      changePercent,
-      high: data.h,
-      low: data.l,
-      open: data.o,
-      previousClose,
-      volume: 0, // Finnhub doesn't provide volume in quote endpoint
-      timestamp: Date.now(),
-      dataSource: 'finnhub', 
-      isRealTime: true
-    };
+  private isFresh(quote: Quote, maxAgeMs: number): boolean {
+    return Date.now() - quote.timestamp <= maxAgeMs;
   }
 
-   // Fetch quote from Alpha Vantage
-  private async getQuoteFromAlphaVantage(symbol: string): Promise<Quote> {
-    const response = await axios.get('https://www.alphavantage.co/query', {
-      params: {
-        function: 'GLOBAL_QUOTE',
-        symbol: symbol.toUpperCase(),
-        apikey: ALPHA_VANTAGE_KEY,
-      },
-      timeout: 5000,
-    });
+  /**
+   * Walks the provider chain (MARKET_DATA_PROVIDERS) in order, skipping providers whose
+   * circuit is open, and falls back to mock data when none of them can answer
+   */
+  private async fetchFromProviders(symbol: string): Promise<Quote> {
+    const exchange = await this.getExchange(symbol);
+
+    for (const { provider, breaker } of this.providers) {
+      if (!provider.isConfigured() || !breaker.tryAcquire()) continue;
 
-    const data = response.data['Global Quote'];
-    if (!data || Object.keys(data).length === 0) {
-      throw new Error(`Invalid symbol or API limit reached: ${symbol}`);
+      try {
+        const quote = await provider.getQuote(symbol);
+        breaker.recordSuccess();
+        return {
+          ...quote,
+          dataSource: provider.name,
+          isRealTime: true,
+          marketStatus: getMarketStatus(exchange),
+        };
+      } catch (error) {
+        if (error instanceof ProviderError && error.kind === 'not_found') {
+          // The upstream answered; it just doesn't know this symbol
+          breaker.recordSuccess();
+          continue;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`${provider.name} failed for ${symbol}: ${message}`);
+        if (error instanceof ProviderError && error.kind === 'rate_limited') {
+          breaker.recordFailure(message, error.retryAfterMs ?? circuitBreakerOptions.openDurationMs);
+        } else {
+          breaker.recordFailure(message);
+        }
+      }
     }
 
-    const price = parseFloat(data['05. price']);
-    const previousClose = parseFloat(data['08. previous close']);
-    const change = parseFloat(data['09. change']);
-    const changePercent = parseFloat(data['10. change percent'].replace('%', ''));
+    const quote = this.getMockQuote(symbol, exchange);
+    return { ...quote, dataSource: 'mock', isRealTime: false };
+  }
 
-    return {
-      symbol: symbol.toUpperCase(),
-      price,
-      change,
-      changePercent,
-      high: parseFloat(data['03. high']),
-      low: parseFloat(data['04. low']),
-      open: parseFloat(data['02. open']),
-      previousClose,
-      volume: parseInt(data['06. volume']),
-      timestamp: Date.now(),
-      dataSource: 'alphavantage', 
-      isRealTime: true
-    };
+  // Circuit state of each provider in chain order
+  getProviderHealth(): ProviderHealth[] {
+    return this.providers.map(({ provider, breaker }, position) => ({
+      name: provider.name,
+      position,
+      configured: provider.isConfigured(),
+      ...breaker.snapshot(),
+    }));
+  }
+
+  /**
+   * Market status for a symbol's exchange right now
+   * Lets the price updater decide how often (if at all) to tick a symbol
+   */
+  async getMarketStatus(symbol: string): Promise<MarketStatus> {
+    return getMarketStatus(await this.getExchange(symbol));
+  }
+
+  // Drop cached reference data after an instrument is edited or deactivated
+  forgetInstrument(symbol: string): void {
+    const upper = symbol.toUpperCase();
+    this.exchanges.delete(upper);
+    this.sectors.delete(upper);
+  }
+
+  /**
+   * Restate a symbol's mock price path after a corporate action
+   * Splits and dividends scale the last price and the session's reference prices by the
+   * action's price factor; a symbol change carries the path over to the new symbol.
+   */
+  async restateMockPrices(symbol: string, priceFactor: number, newSymbol?: string): Promise<void> {
+    const from = symbol.toUpperCase();
+    const to = newSymbol?.toUpperCase() ?? from;
+
+    const lastPrice = this.lastMockPrices.get(from);
+    const variance = this.lastMockVariances.get(from);
+    const session = this.mockSessions.get(from);
+    [this.lastMockPrices, this.lastMockVariances, this.mockSessions].forEach((map) =>
+      map.delete(from)
+    );
+
+    if (lastPrice !== undefined) this.lastMockPrices.set(to, lastPrice * priceFactor);
+    if (variance !== undefined) this.lastMockVariances.set(to, variance);
+    if (session) {
+      this.mockSessions.set(to, {
+        ...session,
+        previousClose: session.previousClose * priceFactor,
+        open: session.open * priceFactor,
+      });
+    }
+    this.forgetInstrument(from);
+
+    // The cached quote is in old terms
+    try {
+      await redisClient.del(`quote:${from}`);
+    } catch (error) {
+      console.error(`Failed to clear cached quote for ${from}:`, error);
+    }
+  }
+
+  // Exchange of a symbol from the instruments table (cached); US when unknown
+  private async getExchange(symbol: string): Promise<string> {
+    const upper = symbol.toUpperCase();
+    const cached = this.exchanges.get(upper);
+    if (cached) return cached;
+
+    try {
+      const instrument = await getInstrumentBySymbol(upper);
+      const exchange = instrument?.exchange || 'US';
+      this.exchanges.set(upper, exchange);
+      if (instrument?.sector) this.sectors.set(upper, instrument.sector);
+      return exchange;
+    } catch (error) {
+      console.error(`Failed to look up exchange for ${upper}:`, error);
+      return 'US';
+    }
   }
 
   private lastMockPrices: Map<string, number> = new Map();
+  private lastMockVariances: Map<string, number> = new Map();
+  private mockSessions: Map<string, MockSession> = new Map();
+  private correlatedShocks: { window: number; shocks: Map<string, number> } = {
+    window: -1,
+    shocks: new Map(),
+  };
    // Generate mock data
-   private getMockQuote(symbol: string): Quote {
+   private getMockQuote(symbol: string, exchange: string): Quote {
+    const simulator = simulationConfig.seed
+      ? stockSimulator.forSymbol(symbol, simulationConfig.seed)
+      : stockSimulator;
     const params = stockSimulator.getSymbolParameters(symbol);
     
     // Get last price or use base price
     const lastPrice = this.lastMockPrices.get(symbol) || params.basePrice;
+    const marketStatus = getMarketStatus(exchange);
+    const session = this.getMockSession(symbol, exchange, lastPrice, params.basePrice, simulator);
 
-    // Generate next price using GBM
-    const price = stockSimulator.generateNextPrice(
-      lastPrice,
-      params.drift,
-      params.volatility,
-      1 / (252 * 78) // 1-minute intervals (252 trading days, 6.5 hours)
-    );
+    // Operator scenarios: halts freeze the price, gaps jump it, volatility is scaled
+    const sector = this.sectors.get(symbol.toUpperCase()) ?? stockSimulator.getSymbolSector(symbol);
+    const effects = marketScenarioService.getEffects(symbol.toUpperCase(), sector);
+
+    // Prices don't move while the market is closed or trading is halted
+    const closed = simulationConfig.enforceMarketHours && marketStatus === 'closed';
+    const price =
+      closed || effects.halted
+        ? lastPrice
+        : this.stepMockPrice(
+            symbol,
+            lastPrice * marketScenarioService.takeGapFactor(symbol.toUpperCase(), sector),
+            simulator,
+            effects.volatilityMultiplier
+          );
 
     // Store for next call (creates continuous price path)
     this.lastMockPrices.set(symbol, price);
 
-    const previousClose = params.basePrice;
+    // The first regular-session tick sets the day's open
+    if (!session.openSet && marketStatus === 'open') {
+      session.open = price;
+      session.openSet = true;
+    }
+
+    const previousClose = session.previousClose;
     const change = price - previousClose;
     const changePercent = (change / previousClose) * 100;
     
-    const open = previousClose * (1 + stockSimulator['randomNormal'](0, 0.005));
-    const high = Math.max(price, open, lastPrice) * (1 + Math.random() * 0.005);
-    const low = Math.min(price, open, lastPrice) * (1 - Math.random() * 0.005);
+    const open = session.open;
+    const high = Math.max(price, open, lastPrice) * (1 + simulator.randomUniform() * 0.005);
+    const low = Math.min(price, open, lastPrice) * (1 - simulator.randomUniform() * 0.005);
 
     return {
       symbol: symbol.toUpperCase(),
@@ -165,37 +370,164 @@ class MarketDataService {
       low: parseFloat(low.toFixed(2)),
       open: parseFloat(open.toFixed(2)),
       previousClose: parseFloat(previousClose.toFixed(2)),
-      volume: Math.floor(Math.random() * 10000000),
+      volume: Math.floor(simulator.randomUniform() * 10000000),
       timestamp: Date.now(),
       dataSource: 'mock',
-      isRealTime: false
+      isRealTime: false,
+      marketStatus,
+      ...(effects.halted && { halted: true }),
+    };
+  }
+
+  // Next mock price with the model configured for this symbol
+  private stepMockPrice(
+    symbol: string,
+    lastPrice: number,
+    simulator: typeof stockSimulator,
+    volatilityMultiplier: number = 1
+  ): number {
+    const base = stockSimulator.getSymbolParameters(symbol);
+    const params = { ...base, volatility: base.volatility * volatilityMultiplier };
+    switch (getSimulationModel(symbol)) {
+      case 'correlated':
+        return stockSimulator.applyShock(
+          lastPrice,
+          params.drift,
+          params.volatility,
+          MOCK_TIME_STEP,
+          this.getCorrelatedShock(symbol)
+        );
+      case 'jump':
+        return simulator.generateJumpDiffusionPrice(
+          lastPrice,
+          params.drift,
+          params.volatility,
+          MOCK_TIME_STEP,
+          stockSimulator.getJumpParameters(params.volatility)
+        );
+      case 'heston': {
+        const step = simulator.generateHestonStep(
+          lastPrice,
+          this.lastMockVariances.get(symbol) ?? params.volatility ** 2,
+          params.drift,
+          MOCK_TIME_STEP,
+          stockSimulator.getHestonParameters(params.volatility)
+        );
+        this.lastMockVariances.set(symbol, step.variance);
+        return step.price;
+      }
+      default:
+        return simulator.generateNextPrice(
+          lastPrice,
+          params.drift,
+          params.volatility,
+          MOCK_TIME_STEP
+        );
+    }
+  }
+
+  /**
+   * Current mock trading day for a symbol
+   * The first quote seeds the day from the base price; when a new session starts
+   * (see getSessionDate) the last price becomes previousClose and open is reset.
+   */
+  private getMockSession(
+    symbol: string,
+    exchange: string,
+    lastPrice: number,
+    basePrice: number,
+    simulator: typeof stockSimulator
+  ): MockSession {
+    const sessionDate = simulationConfig.enforceMarketHours ? getSessionDate(exchange) : '';
+    const current = this.mockSessions.get(symbol);
+    if (current && current.sessionDate === sessionDate) return current;
+
+    const session: MockSession = current
+      ? { sessionDate, previousClose: lastPrice, open: lastPrice, openSet: false }
+      : {
+          sessionDate,
+          previousClose: basePrice,
+          open: basePrice * (1 + simulator.randomNormal(0, 0.005)),
+          openSet: true,
+        };
+    this.mockSessions.set(symbol, session);
+    return session;
+  }
+
+  /**
+   * Shock for a symbol on the correlated model
+   * The correlated symbols stepped in a window are drawn jointly, using the Cholesky
+   * factor of their sector correlation matrix, so same-sector names move together.
+   * A symbol first stepped mid-window triggers a fresh joint draw that includes it; each
+   * window starts over, so symbols no longer quoted drop out of the draw.
+   */
+  private getCorrelatedShock(symbol: string): number {
+    const window = Math.floor(Date.now() / CORRELATION_WINDOW_MS);
+    const cached = this.correlatedShocks;
+    if (cached.window === window && cached.shocks.has(symbol)) {
+      return cached.shocks.get(symbol)!;
+    }
+
+    const stepped = cached.window === window ? [...cached.shocks.keys()] : [];
+    const symbols = Array.from(new Set([...stepped, symbol])).sort();
+    // Instruments outside the simulator's built-in list use their sector from the database
+    const matrix = stockSimulator.buildCorrelationMatrix(
+      symbols.map((s) => stockSimulator.getSymbolSector(s, this.sectors.get(s)))
+    );
+    const simulator = simulationConfig.seed
+      ? stockSimulator.forSymbol('__MARKET__', simulationConfig.seed)
+      : stockSimulator;
+    const normals = simulator.correlatedNormals(stockSimulator.choleskyDecompose(matrix));
+
+    this.correlatedShocks = {
+      window,
+      shocks: new Map(symbols.map((s, i) => [s, normals[i]])),
     };
+    return normals[symbols.indexOf(symbol)];
   }
 
    // Get multiple quotes at once
-  async getMultipleQuotes(symbols: string[]): Promise<Quote[]> {
-    const promises = symbols.map((symbol) => this.getQuote(symbol));
+  // Cache hits come from a single MGET; only the misses go upstream
+  async getMultipleQuotes(symbols: string[], options: QuoteOptions = {}): Promise<Quote[]> {
+    if (symbols.length === 0) return [];
+    const upper = symbols.map((symbol) => symbol.toUpperCase());
+    const maxAgeMs = options.maxAgeMs ?? QUOTE_CACHE_FRESHNESS_MS;
+
+    let cached: Array<string | null> = [];
+    if (maxAgeMs > 0) {
+      try {
+        cached = await redisClient.mGet(upper.map((symbol) => `quote:${symbol}`));
+      } catch (error) {
+        console.error('Quote cache MGET failed:', error);
+      }
+    }
+
+    const promises = upper.map((symbol, i) => {
+      const quote = this.parseCachedQuote(cached[i]);
+      return quote && this.isFresh(quote, maxAgeMs)
+        ? Promise.resolve(quote)
+        : this.fetchQuote(symbol, maxAgeMs);
+    });
     return Promise.all(promises);
   }
 
-   // Search for instruments by name or symbol
-  async searchInstruments(query: string): Promise<Array<{ symbol: string; description: string }>> {
-    try {
-      const response = await axios.get('https://finnhub.io/api/v1/search', {
-        params: {
-          q: query,
-          token: FINNHUB_KEY,
-        },
-      });
+  /**
+   * Symbol search on the external provider (Finnhub)
+   * Only used to enrich local search results and to discover unknown symbols;
+   * throws when the provider is unavailable
+   */
+  async searchProvider(query: string): Promise<ProviderSearchResult[]> {
+    if (!FINNHUB_KEY) return [];
 
-      return response.data.result.slice(0, 10).map((item: any) => ({
-        symbol: item.symbol,
-        description: item.description,
-      }));
-    } catch (error) {
-      console.error('Search failed:', error);
-      return [];
-    }
+    const response = await axios.get<{ result?: ProviderSearchResult[] }>(
+      'https://finnhub.io/api/v1/search',
+      { params: { q: query, token: FINNHUB_KEY }, timeout: 5000 }
+    );
+    return (response.data.result ?? []).slice(0, 10).map((item) => ({
+      symbol: item.symbol,
+      description: item.description,
+      type: item.type,
+    }));
   }
 
    // Store instrument metadata in database
@@ -204,7 +536,7 @@ class MarketDataService {
       const existing = await getInstrumentBySymbol(symbol);
       if (existing) return;
       if (!name) {
-        const searchResults = await this.searchInstruments(symbol);
+        const searchResults = await this.searchProvider(symbol);
         name = searchResults[0]?.description || symbol;
       }
 
@@ -219,6 +551,29 @@ class MarketDataService {
       console.error(`Failed to save instrument ${symbol}:`, error);
     }
   }
+
+  /**
+   * Validate a symbol against the instruments table
+   * Unknown symbols are looked up via search and stored if an exact match exists
+   * Returns null when the symbol can't be found anywhere
+   */
+  async resolveInstrument(symbol: string): Promise<Instrument | null> {
+    const upper = symbol.toUpperCase();
+    const existing = await getInstrumentBySymbol(upper);
+    if (existing) return existing;
+
+    let searchResults: ProviderSearchResult[] = [];
+    try {
+      searchResults = await this.searchProvider(upper);
+    } catch (error) {
+      console.error(`Provider search failed for ${upper}:`, error);
+    }
+    const match = searchResults.find((result) => result.symbol.toUpperCase() === upper);
+    if (!match) return null;
+
+    await this.saveInstrumentMetadata(upper, match.description);
+    return getInstrumentBySymbol(upper);
+  }
 }
 
 export default new MarketDataService();
\ No newline at end of file
@@ -0,0 +1,215 @@
+import {
+  MarketScenario,
+  ScenarioKind,
+  insertScenario,
+  getScenarios,
+  getScenarioById,
+  getEffectiveScenarios,
+  cancelScenario,
+  claimStartedScenarios,
+  claimEndedScenarios,
+} from '../models/market-scenario.model';
+
+// How often every node re-reads the scenarios in effect and checks for due notifications
+const POLL_MS = 1000;
+// A gap is taken by each symbol's first mock tick within this long after it starts
+const GAP_WINDOW_MS = 5 * 60 * 1000;
+
+export interface CreateScenarioRequest {
+  name?: string;
+  kind: ScenarioKind;
+  symbols?: string[];
+  sector?: string;
+  percent?: number; // gap
+  multiplier?: number; // volatility
+  startsAt?: Date; // default: now
+  durationSeconds?: number; // halts without one last until cancelled
+}
+
+export interface ScenarioEffects {
+  halted: boolean;
+  volatilityMultiplier: number;
+}
+
+export interface MarketEvent {
+  event: 'started' | 'ended';
+  scenarioId: number;
+  kind: ScenarioKind;
+  name: string;
+  symbols: string[] | null;
+  sector: string | null;
+  magnitude: number | null;
+  startsAt: number;
+  endsAt: number | null;
+  cancelled: boolean;
+  timestamp: number;
+}
+
+/**
+ * Operator-injected market scenarios for the mock market
+ * - gap: one-off percent jump for the targeted symbols
+ * - halt: prices freeze and quotes are flagged `halted`
+ * - volatility: the simulator's volatility is multiplied for the duration
+ *
+ * Scenarios live in Postgres. Each node polls the ones in effect so getMockQuote can read
+ * them synchronously, and notification flags are claimed atomically so every start and
+ * end is announced once as a `market_event`, whichever node gets there first.
+ */
+class MarketScenarioService {
+  private effective: MarketScenario[] = [];
+  // `scenario:symbol` gaps this node has already applied
+  private appliedGaps: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private onEvent: ((event: MarketEvent) => void) | null = null;
+
+  async start(onEvent: (event: MarketEvent) => void): Promise<void> {
+    if (this.timer) return;
+    this.onEvent = onEvent;
+
+    await this.poll();
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => console.error('Market scenario poll failed:', error));
+    }, POLL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async createScenario(userId: number, input: CreateScenarioRequest): Promise<MarketScenario> {
+    const symbols = input.symbols?.length ? input.symbols.map((s) => s.toUpperCase()) : null;
+    const sector = input.sector ?? null;
+    const startsAt = input.startsAt ?? new Date();
+
+    let magnitude: number | null = null;
+    if (input.kind === 'gap') {
+      if (input.percent === undefined) throw new Error('A gap needs a percent');
+      if (!symbols && !sector) throw new Error('A gap needs symbols or a sector');
+      magnitude = input.percent;
+    } else if (input.kind === 'volatility') {
+      if (input.multiplier === undefined || !input.durationSeconds) {
+        throw new Error('A volatility scenario needs a multiplier and a duration');
+      }
+      magnitude = input.multiplier;
+    } else if (!symbols && !sector) {
+      throw new Error('A halt needs symbols or a sector');
+    }
+
+    const scenario = await insertScenario({
+      name: input.name ?? this.describe(input.kind, symbols, sector, magnitude),
+      kind: input.kind,
+      symbols,
+      sector,
+      magnitude,
+      starts_at: startsAt,
+      ends_at:
+        input.kind === 'gap' || !input.durationSeconds
+          ? null
+          : new Date(startsAt.getTime() + input.durationSeconds * 1000),
+      created_by: userId,
+    });
+
+    // Take effect here right away rather than on the next poll
+    await this.poll();
+    return scenario;
+  }
+
+  async getScenarios(limit: number = 100): Promise<MarketScenario[]> {
+    return getScenarios(limit);
+  }
+
+  async getScenario(id: number): Promise<MarketScenario> {
+    const scenario = await getScenarioById(id);
+    if (!scenario) throw new Error('Scenario not found');
+    return scenario;
+  }
+
+  // Stop a scheduled or running scenario (gaps can't be undone once taken)
+  async cancelScenario(id: number): Promise<MarketScenario> {
+    const scenario = await cancelScenario(id);
+    if (!scenario) throw new Error('Scenario not found or already finished');
+
+    await this.poll();
+    return scenario;
+  }
+
+  // Halt and volatility in effect for a symbol on this node
+  getEffects(symbol: string, sector?: string): ScenarioEffects {
+    let halted = false;
+    let volatilityMultiplier = 1;
+    for (const scenario of this.effective) {
+      if (!this.targets(scenario, symbol, sector)) continue;
+      if (scenario.kind === 'halt') halted = true;
+      if (scenario.kind === 'volatility') volatilityMultiplier *= scenario.magnitude ?? 1;
+    }
+    return { halted, volatilityMultiplier };
+  }
+
+  // Price factor of gaps this symbol hasn't taken yet; each gap is taken once
+  takeGapFactor(symbol: string, sector?: string): number {
+    let factor = 1;
+    for (const scenario of this.effective) {
+      if (scenario.kind !== 'gap' || !this.targets(scenario, symbol, sector)) continue;
+      const key = `${scenario.id}:${symbol}`;
+      if (this.appliedGaps.has(key)) continue;
+
+      this.appliedGaps.add(key);
+      factor *= 1 + (scenario.magnitude ?? 0) / 100;
+    }
+    return factor;
+  }
+
+  private async poll(): Promise<void> {
+    this.effective = await getEffectiveScenarios(GAP_WINDOW_MS);
+
+    // Forget gaps that have left the window
+    const gapIds = new Set(this.effective.filter((s) => s.kind === 'gap').map((s) => String(s.id)));
+    for (const key of this.appliedGaps) {
+      if (!gapIds.has(key.split(':')[0])) this.appliedGaps.delete(key);
+    }
+
+    const [started, ended] = await Promise.all([claimStartedScenarios(), claimEndedScenarios()]);
+    started.forEach((scenario) => this.notify('started', scenario));
+    ended.forEach((scenario) => this.notify('ended', scenario));
+  }
+
+  private notify(event: MarketEvent['event'], scenario: MarketScenario): void {
+    console.log(`Market scenario ${scenario.id} (${scenario.name}) ${event}`);
+    this.onEvent?.({
+      event,
+      scenarioId: scenario.id,
+      kind: scenario.kind,
+      name: scenario.name,
+      symbols: scenario.symbols,
+      sector: scenario.sector,
+      magnitude: scenario.magnitude,
+      startsAt: scenario.starts_at.getTime(),
+      endsAt: scenario.ends_at?.getTime() ?? null,
+      cancelled: scenario.cancelled_at !== null,
+      timestamp: Date.now(),
+    });
+  }
+
+  private targets(scenario: MarketScenario, symbol: string, sector?: string): boolean {
+    if (scenario.symbols && !scenario.symbols.includes(symbol)) return false;
+    if (scenario.sector && scenario.sector.toLowerCase() !== sector?.toLowerCase()) return false;
+    return true;
+  }
+
+  private describe(
+    kind: ScenarioKind,
+    symbols: string[] | null,
+    sector: string | null,
+    magnitude: number | null
+  ): string {
+    const target = symbols?.join(', ') ?? sector ?? 'market';
+    if (kind === 'gap') return `${target} gap ${magnitude! > 0 ? '+' : ''}${magnitude}%`;
+    if (kind === 'volatility') return `${target} volatility x${magnitude}`;
+    return `${target} halt`;
+  }
+}
+
+export default new MarketScenarioService();
@@ -0,0 +1,39 @@
+import optionsService, { MAX_CHAIN_STRIKES } from './options.service';
+import marketDataService from './market-data.service';
+
+jest.mock('../config/database', () => ({ __esModule: true, default: {} }));
+jest.mock('../models/instrument.model', () => ({
+  getInstrumentBySymbol: jest.fn().mockResolvedValue(null),
+}));
+jest.mock('./market-data.service', () => ({
+  __esModule: true,
+  default: { getQuote: jest.fn() },
+}));
+
+async function strikes(spot: number, count: number): Promise<number[]> {
+  (marketDataService.getQuote as jest.Mock).mockResolvedValue({ price: spot });
+  const chain = await optionsService.getChain('AAPL', [30], count);
+  return chain.expiries[0].strikes.map((row) => row.strike);
+}
+
+describe('OptionsService.getChain', () => {
+  it('returns exactly the requested number of strikes, centred on the money', async () => {
+    expect(await strikes(101, 5)).toEqual([90, 95, 100, 105, 110]);
+  });
+
+  it('puts the extra strike of an even count above the money', async () => {
+    const result = await strikes(101, 10);
+    expect(result).toHaveLength(10);
+    expect(result[0]).toBe(80);
+    expect(result[result.length - 1]).toBe(125);
+  });
+
+  it('never exceeds the strike cap', async () => {
+    expect(await strikes(500, MAX_CHAIN_STRIKES)).toHaveLength(MAX_CHAIN_STRIKES);
+    expect(await strikes(500, MAX_CHAIN_STRIKES + 1)).toHaveLength(MAX_CHAIN_STRIKES);
+  });
+
+  it('drops strikes that would not be positive', async () => {
+    expect(await strikes(2, 7)).toEqual([1, 2, 3, 4, 5]);
+  });
+});
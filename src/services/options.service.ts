@@ -0,0 +1,165 @@
+import { getInstrumentBySymbol } from '../models/instrument.model';
+import { OptionType, OptionQuote, blackScholes, impliedVolatility } from '../utils/options-pricing';
+import stockSimulator from '../utils/stock-simulator';
+import marketDataService from './market-data.service';
+
+const RISK_FREE_RATE = parseFloat(process.env.RISK_FREE_RATE || '0.045');
+
+export const DEFAULT_CHAIN_EXPIRIES = [7, 14, 30, 60, 90, 180];
+export const MAX_CHAIN_STRIKES = 41;
+
+export interface PriceOptionInput {
+  type: OptionType;
+  strike: number;
+  days: number;
+  volatility?: number;
+  rate?: number;
+  spot?: number;
+}
+
+export interface PricedOption extends OptionQuote {
+  symbol: string;
+  type: OptionType;
+  spot: number;
+  strike: number;
+  days: number;
+  volatility: number;
+  rate: number;
+}
+
+export interface OptionChain {
+  symbol: string;
+  spot: number;
+  volatility: number;
+  rate: number;
+  expiries: Array<{
+    days: number;
+    expiration: string;
+    strikes: Array<{ strike: number; call: OptionQuote; put: OptionQuote }>;
+  }>;
+}
+
+const round = (value: number, digits: number = 4): number => parseFloat(value.toFixed(digits));
+
+const roundQuote = (quote: OptionQuote): OptionQuote => ({
+  price: round(quote.price, 2),
+  delta: round(quote.delta),
+  gamma: round(quote.gamma, 6),
+  theta: round(quote.theta),
+  vega: round(quote.vega),
+  rho: round(quote.rho),
+});
+
+/**
+ * Options on top of the simulator's GBM parameters
+ * Volatility defaults to the symbol's simulator volatility; spot defaults to the live quote
+ */
+class OptionsService {
+  async priceOption(symbol: string, input: PriceOptionInput): Promise<PricedOption> {
+    const upper = symbol.toUpperCase();
+    const spot = input.spot ?? (await marketDataService.getQuote(upper)).price;
+    const volatility = input.volatility ?? (await this.defaultVolatility(upper));
+    const rate = input.rate ?? RISK_FREE_RATE;
+
+    const quote = blackScholes({
+      type: input.type,
+      spot,
+      strike: input.strike,
+      timeToExpiry: input.days / 365,
+      volatility,
+      rate,
+    });
+
+    return {
+      symbol: upper,
+      type: input.type,
+      spot,
+      strike: input.strike,
+      days: input.days,
+      volatility,
+      rate,
+      ...roundQuote(quote),
+    };
+  }
+
+  async getImpliedVolatility(
+    symbol: string,
+    input: Omit<PriceOptionInput, 'volatility'> & { premium: number }
+  ): Promise<{ symbol: string; impliedVolatility: number; spot: number; rate: number }> {
+    const upper = symbol.toUpperCase();
+    const spot = input.spot ?? (await marketDataService.getQuote(upper)).price;
+    const rate = input.rate ?? RISK_FREE_RATE;
+
+    const sigma = impliedVolatility(input.premium, {
+      type: input.type,
+      spot,
+      strike: input.strike,
+      timeToExpiry: input.days / 365,
+      rate,
+    });
+    if (sigma === null) {
+      throw new Error('Implied volatility did not converge for this premium');
+    }
+
+    return { symbol: upper, impliedVolatility: round(sigma), spot, rate };
+  }
+
+  // Synthetic chain: strikes centred on spot × the requested expiries, flat volatility
+  async getChain(
+    symbol: string,
+    expiries: number[] = DEFAULT_CHAIN_EXPIRIES,
+    strikeCount: number = 11
+  ): Promise<OptionChain> {
+    const upper = symbol.toUpperCase();
+    const spot = (await marketDataService.getQuote(upper)).price;
+    const volatility = await this.defaultVolatility(upper);
+    const rate = RISK_FREE_RATE;
+
+    const strikes = this.chainStrikes(spot, Math.min(strikeCount, MAX_CHAIN_STRIKES));
+    const now = Date.now();
+
+    return {
+      symbol: upper,
+      spot,
+      volatility,
+      rate,
+      expiries: [...expiries]
+        .sort((a, b) => a - b)
+        .map((days) => ({
+          days,
+          expiration: new Date(now + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+          strikes: strikes.map((strike) => {
+            const base = { spot, strike, timeToExpiry: days / 365, volatility, rate };
+            return {
+              strike,
+              call: roundQuote(blackScholes({ ...base, type: 'call' })),
+              put: roundQuote(blackScholes({ ...base, type: 'put' })),
+            };
+          }),
+        })),
+    };
+  }
+
+  private async defaultVolatility(symbol: string): Promise<number> {
+    const instrument = await getInstrumentBySymbol(symbol);
+    return stockSimulator.getSymbolParameters(symbol, instrument?.sector).volatility;
+  }
+
+  // Listed-style strike increments that scale with the underlying's price
+  // An even count puts the extra strike above the money
+  private chainStrikes(spot: number, count: number): number[] {
+    const increment = spot < 25 ? 1 : spot < 100 ? 2.5 : spot < 250 ? 5 : spot < 1000 ? 10 : 50;
+    const atm = Math.round(spot / increment) * increment;
+    const below = Math.floor((count - 1) / 2);
+    const above = count - 1 - below;
+
+    const strikes: number[] = [];
+    for (let i = -below; i <= above; i++) {
+      const strike = round(atm + i * increment, 2);
+      if (strike > 0) strikes.push(strike);
+    }
+    return strikes;
+  }
+}
+
+export default new OptionsService();
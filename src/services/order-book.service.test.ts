@@ -0,0 +1,41 @@
+import orderBookService from './order-book.service';
+import redisClient from '../config/redis';
+import marketDataService from './market-data.service';
+
+jest.mock('../config/redis', () => ({ __esModule: true, default: { get: jest.fn() } }));
+jest.mock('../config/database', () => ({ __esModule: true, default: {} }));
+jest.mock('../models/instrument.model', () => ({
+  getInstrumentBySymbol: jest.fn().mockResolvedValue(null),
+}));
+jest.mock('./market-data.service', () => ({
+  __esModule: true,
+  default: { getQuote: jest.fn() },
+}));
+jest.mock('./subscription-registry.service', () => ({ __esModule: true, default: {} }));
+
+describe('OrderBookService.getSnapshotOrPreview', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it('serves the stored book when one is ticking', async () => {
+    const stored = { symbol: 'AAPL', seq: 42, mid: 100, spread: 0.05, bids: [], asks: [] };
+    (redisClient.get as jest.Mock).mockResolvedValue(JSON.stringify(stored));
+
+    await expect(orderBookService.getSnapshotOrPreview('aapl')).resolves.toEqual(stored);
+    expect(redisClient.get).toHaveBeenCalledWith('order_book:AAPL');
+    expect(marketDataService.getQuote).not.toHaveBeenCalled();
+  });
+
+  it('builds a seq 0 preview around the last quote when nothing ticks', async () => {
+    (redisClient.get as jest.Mock).mockResolvedValue(null);
+    (marketDataService.getQuote as jest.Mock).mockResolvedValue({
+      symbol: 'AAPL',
+      price: 187.5,
+      timestamp: 1000,
+    });
+
+    const preview = await orderBookService.getSnapshotOrPreview('AAPL');
+    expect(preview).toMatchObject({ symbol: 'AAPL', seq: 0, mid: 187.5, timestamp: 1000 });
+    expect(preview.bids[0][0]).toBeLessThan(187.5);
+    expect(preview.asks[0][0]).toBeGreaterThan(187.5);
+  });
+});
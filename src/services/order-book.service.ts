@@ -0,0 +1,120 @@
+import redisClient from '../config/redis';
+import { simulationConfig } from '../config/simulation';
+import { getInstrumentBySymbol } from '../models/instrument.model';
+import stockSimulator from '../utils/stock-simulator';
+import { createSeededRandom } from '../utils/random';
+import { SyntheticOrderBook, OrderBookSnapshot, OrderBookUpdate, Trade } from '../utils/order-book';
+import marketDataService, { Quote } from './market-data.service';
+import subscriptionRegistry from './subscription-registry.service';
+
+// Trades kept for the tape snapshot sent to new subscribers
+const TAPE_LENGTH = 50;
+// Snapshots of books nobody is streaming any more expire instead of lingering
+const SNAPSHOT_TTL_SECONDS = 60;
+
+const bookKey = (symbol: string) => `order_book:${symbol}`;
+const tapeKey = (symbol: string) => `trade_tape:${symbol}`;
+
+export interface DepthTick {
+  update: OrderBookUpdate;
+  trades: Trade[];
+  // Set when the book was (re)created: subscribers replace their book with it
+  snapshot?: OrderBookSnapshot;
+}
+
+/**
+ * Synthetic depth and time-and-sales on top of the price ticks
+ * The price updater steps a book per symbol someone streams (`book:` or `trades:` rooms)
+ * and the latest snapshot and tape are kept in Redis, so any node can answer
+ * `GET /market/book/:symbol` or send the snapshot to a socket that joins.
+ *
+ * Only that stored book is ever sent to subscribers, so snapshots and updates share one
+ * `seq`. A book the leader creates (first subscriber, or a new leader) goes out as a full
+ * snapshot, and the stored copy is deleted as soon as the book is dropped.
+ */
+class OrderBookService {
+  private books: Map<string, SyntheticOrderBook> = new Map();
+
+  // Step the symbol's book to this tick; null when nobody is streaming its depth or tape
+  async recordTick(quote: Quote): Promise<DepthTick | null> {
+    const symbol = quote.symbol;
+    const counts = await subscriptionRegistry.getRoomCounts();
+    const watched = (counts.get(`book:${symbol}`) ?? 0) + (counts.get(`trades:${symbol}`) ?? 0);
+    if (watched === 0) {
+      // Start from a fresh book next time someone subscribes
+      if (this.books.delete(symbol)) {
+        await redisClient.del([bookKey(symbol), tapeKey(symbol)]);
+      }
+      return null;
+    }
+
+    let book = this.books.get(symbol);
+    if (!book) {
+      book = await this.createBook(symbol);
+      this.books.set(symbol, book);
+      const tick = book.step(quote.price, quote.timestamp);
+      await this.store(symbol, book.snapshot()!, tick.trades);
+      return { ...tick, snapshot: book.snapshot()! };
+    }
+
+    const tick = book.step(quote.price, quote.timestamp);
+    await this.store(symbol, book.snapshot()!, tick.trades);
+    return tick;
+  }
+
+  // The book being streamed, as last stored by the leader; null until its first tick
+  async getSnapshot(symbol: string): Promise<OrderBookSnapshot | null> {
+    const cached = await redisClient.get(bookKey(symbol.toUpperCase()));
+    return cached ? (JSON.parse(cached) as OrderBookSnapshot) : null;
+  }
+
+  /**
+   * Stored book, or a one-off book around the current quote when none is ticking
+   * A preview (seq 0) is not part of any update stream; subscribers replace it with the
+   * leader's snapshot once the book ticks.
+   */
+  async getSnapshotOrPreview(symbol: string): Promise<OrderBookSnapshot> {
+    const upper = symbol.toUpperCase();
+    const stored = await this.getSnapshot(upper);
+    if (stored) return stored;
+
+    const quote = await marketDataService.getQuote(upper);
+    const book = await this.createBook(upper);
+    book.step(quote.price, quote.timestamp);
+    return { ...book.snapshot()!, seq: 0 };
+  }
+
+  // Most recent trades, newest first
+  async getRecentTrades(symbol: string): Promise<Trade[]> {
+    const entries = await redisClient.lRange(tapeKey(symbol.toUpperCase()), 0, TAPE_LENGTH - 1);
+    return entries.map((entry) => JSON.parse(entry) as Trade);
+  }
+
+  private async createBook(symbol: string): Promise<SyntheticOrderBook> {
+    const instrument = await getInstrumentBySymbol(symbol);
+    const { volatility } = stockSimulator.getSymbolParameters(symbol, instrument?.sector);
+    const random = simulationConfig.seed
+      ? createSeededRandom(`${simulationConfig.seed}:book:${symbol}`)
+      : Math.random;
+    return new SyntheticOrderBook(symbol, volatility, random);
+  }
+
+  private async store(symbol: string, snapshot: OrderBookSnapshot, trades: Trade[]): Promise<void> {
+    const multi = redisClient
+      .multi()
+      .set(bookKey(symbol), JSON.stringify(snapshot), { EX: SNAPSHOT_TTL_SECONDS });
+
+    if (trades.length > 0) {
+      multi
+        .lPush(
+          tapeKey(symbol),
+          trades.map((trade) => JSON.stringify(trade))
+        )
+        .lTrim(tapeKey(symbol), 0, TAPE_LENGTH - 1)
+        .expire(tapeKey(symbol), SNAPSHOT_TTL_SECONDS);
+    }
+    await multi.exec();
+  }
+}
+
+export default new OrderBookService();
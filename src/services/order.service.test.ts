@@ -0,0 +1,66 @@
+import orderService from './order.service';
+import pool from '../config/database';
+import marketDataService, { Quote } from './market-data.service';
+import { getMarketableLimitOrders, insertOrder } from '../models/order.model';
+import { getOrCreateAccount } from '../models/portfolio.model';
+
+jest.mock('../config/database', () => ({ __esModule: true, default: { connect: jest.fn() } }));
+jest.mock('../models/order.model');
+jest.mock('../models/portfolio.model');
+jest.mock('./market-data.service', () => ({
+  __esModule: true,
+  default: { getQuote: jest.fn() },
+}));
+jest.mock('./websocket-market.service', () => ({
+  __esModule: true,
+  default: { emitToUser: jest.fn() },
+}));
+
+function quote(overrides: Partial<Quote> = {}): Quote {
+  return { symbol: 'AAPL', price: 150, timestamp: Date.now(), ...overrides } as Quote;
+}
+
+describe('OrderService during a halt', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('refuses market orders while the symbol is halted', async () => {
+    (marketDataService.getQuote as jest.Mock).mockResolvedValue(quote({ halted: true }));
+
+    await expect(
+      orderService.placeOrder(1, { symbol: 'aapl', side: 'buy', type: 'market', quantity: 10 })
+    ).rejects.toThrow('Trading in AAPL is halted');
+    expect(pool.connect).not.toHaveBeenCalled();
+    expect(insertOrder).not.toHaveBeenCalled();
+  });
+
+  it('still accepts limit orders, which rest until the halt ends', async () => {
+    (getOrCreateAccount as jest.Mock).mockResolvedValue({ cash_balance: 10000 });
+    (insertOrder as jest.Mock).mockResolvedValue({ id: 5, status: 'open' });
+
+    const order = await orderService.placeOrder(1, {
+      symbol: 'AAPL',
+      side: 'buy',
+      type: 'limit',
+      quantity: 10,
+      limitPrice: 140,
+    });
+    expect(order.status).toBe('open');
+  });
+
+  it('does not fill resting limit orders on a halted tick', async () => {
+    await orderService.processTick(quote({ halted: true }));
+
+    expect(getMarketableLimitOrders).not.toHaveBeenCalled();
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+
+  it('matches resting limit orders again once the halt ends', async () => {
+    (getMarketableLimitOrders as jest.Mock).mockResolvedValue([]);
+
+    await orderService.processTick(quote());
+    expect(getMarketableLimitOrders).toHaveBeenCalledWith('AAPL', 150);
+  });
+});
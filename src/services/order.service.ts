@@ -0,0 +1,217 @@
+import pool from '../config/database';
+import {
+  Order,
+  Execution,
+  OrderSide,
+  OrderType,
+  OrderStatus,
+  insertOrder,
+  getOrdersByUser,
+  cancelOpenOrder,
+  getMarketableLimitOrders,
+  getSymbolsWithOpenLimitOrders,
+  fillOrder,
+  rejectOpenOrder,
+} from '../models/order.model';
+import { applyExecution, getOrCreateAccount, getPosition } from '../models/portfolio.model';
+import marketDataService, { Quote } from './market-data.service';
+import websocketMarketService from './websocket-market.service';
+
+export interface PlaceOrderInput {
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  limitPrice?: number;
+}
+
+/**
+ * Paper-trading order engine
+ * - Market orders fill immediately at the current quote
+ * - Limit orders rest as 'open' until a published tick crosses the limit price
+ * - While a scenario halts a symbol (quotes flagged `halted`), market orders are refused
+ *   and limit orders keep resting until the halt ends
+ * Every fill settles against the user's cash account and position in the same transaction
+ * Fills are pushed to the owner's sockets as 'order_filled'
+ */
+class OrderService {
+  async placeOrder(userId: number, input: PlaceOrderInput): Promise<Order> {
+    const symbol = input.symbol.toUpperCase();
+
+    if (input.type === 'limit' && input.limitPrice === undefined) {
+      throw new Error('Limit price is required for limit orders');
+    }
+
+    if (input.type === 'market') {
+      const quote = await marketDataService.getQuote(symbol);
+      if (quote.halted) {
+        throw new Error(`Trading in ${symbol} is halted; market orders are not accepted`);
+      }
+      return this.executeMarketOrder(userId, { ...input, symbol }, quote.price);
+    }
+
+    // Resting orders are checked up front so obviously unfillable ones are refused now,
+    // and re-checked at fill time since cash/positions may have changed in between
+    await this.checkBuyingPower(userId, symbol, input.side, input.quantity, input.limitPrice!);
+
+    const order = await insertOrder({
+      userId,
+      symbol,
+      side: input.side,
+      type: input.type,
+      quantity: input.quantity,
+      limitPrice: input.limitPrice,
+    });
+
+    console.log(
+      `Limit ${order.side} order ${order.id} placed: ${order.quantity} ${symbol} @ ${order.limit_price}`
+    );
+    return order;
+  }
+
+  async getOrders(userId: number, status?: OrderStatus): Promise<Order[]> {
+    return getOrdersByUser(userId, status);
+  }
+
+  async cancelOrder(userId: number, orderId: number): Promise<Order> {
+    const order = await cancelOpenOrder(orderId, userId);
+    if (!order) {
+      throw new Error('Order not found or no longer open');
+    }
+    return order;
+  }
+
+  // Symbols with resting limit orders; the price updater keeps these ticking
+  async getWatchedSymbols(): Promise<string[]> {
+    return getSymbolsWithOpenLimitOrders();
+  }
+
+  /**
+   * Match resting limit orders against a freshly published tick
+   * Called by PriceUpdaterService after every publish
+   */
+  async processTick(quote: Quote): Promise<void> {
+    if (quote.halted) return;
+    const orders = await getMarketableLimitOrders(quote.symbol, quote.price);
+    if (orders.length === 0) return;
+
+    for (const order of orders) {
+      try {
+        await this.fillInTransaction(order.id, quote.price);
+      } catch (error) {
+        console.error(`Failed to fill limit order ${order.id}:`, error);
+      }
+    }
+  }
+
+  private async executeMarketOrder(
+    userId: number,
+    input: PlaceOrderInput,
+    price: number
+  ): Promise<Order> {
+    const client = await pool.connect();
+    let filled: { order: Order; execution: Execution } | null = null;
+
+    try {
+      await client.query('BEGIN');
+      const order = await insertOrder(
+        {
+          userId,
+          symbol: input.symbol,
+          side: input.side,
+          type: 'market',
+          quantity: input.quantity,
+        },
+        client
+      );
+      filled = await fillOrder(client, order.id, price);
+      if (filled) {
+        await applyExecution(client, filled.execution);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (!filled) {
+      throw new Error('Failed to fill market order');
+    }
+
+    this.notifyFill(filled.order, filled.execution);
+    return filled.order;
+  }
+
+  private async fillInTransaction(orderId: number, price: number): Promise<void> {
+    const client = await pool.connect();
+    let filled: { order: Order; execution: Execution } | null = null;
+    let rejection: string | null = null;
+
+    try {
+      await client.query('BEGIN');
+      filled = await fillOrder(client, orderId, price);
+      if (filled) {
+        await applyExecution(client, filled.execution);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (!(error instanceof Error && error.message.includes('Insufficient'))) {
+        throw error;
+      }
+      rejection = error.message;
+    } finally {
+      client.release();
+    }
+
+    if (rejection) {
+      await this.rejectOrder(orderId, rejection);
+      return;
+    }
+
+    // Another tick (or a cancel) got to it first
+    if (filled) {
+      this.notifyFill(filled.order, filled.execution);
+    }
+  }
+
+  private async checkBuyingPower(
+    userId: number,
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    price: number
+  ): Promise<void> {
+    if (side === 'buy') {
+      const account = await getOrCreateAccount(userId);
+      if (account.cash_balance < quantity * price) {
+        throw new Error('Insufficient buying power');
+      }
+      return;
+    }
+
+    const position = await getPosition(userId, symbol);
+    if (!position || position.quantity < quantity) {
+      throw new Error('Insufficient position to sell');
+    }
+  }
+
+  private async rejectOrder(orderId: number, reason: string): Promise<void> {
+    const order = await rejectOpenOrder(orderId);
+    if (!order) return;
+
+    console.warn(`Order ${order.id} rejected: ${reason}`);
+    websocketMarketService.emitToUser(order.user_id, 'order_rejected', { order, reason });
+  }
+
+  private notifyFill(order: Order, execution: Execution): void {
+    console.log(
+      `Order ${order.id} filled: ${order.side} ${order.quantity} ${order.symbol} @ ${execution.price}`
+    );
+    websocketMarketService.emitToUser(order.user_id, 'order_filled', { order, execution });
+  }
+}
+
+export default new OrderService();
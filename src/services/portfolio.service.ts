@@ -0,0 +1,95 @@
+import { getOrCreateAccount, getPositionsByUser, Position } from '../models/portfolio.model';
+import marketDataService, { Quote } from './market-data.service';
+
+export interface MarkedPosition {
+  symbol: string;
+  quantity: number;
+  averageCost: number;
+  costBasis: number;
+  marketPrice: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  realizedPnl: number;
+  dataSource: Quote['dataSource'];
+}
+
+export interface PortfolioSummary {
+  cashBalance: number;
+  startingBalance: number;
+  positionsValue: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  totalEquity: number;
+  totalReturnPercent: number;
+  positions: MarkedPosition[];
+}
+
+const round = (value: number): number => parseFloat(value.toFixed(2));
+
+class PortfolioService {
+  /**
+   * Cash, P&L and equity for a user
+   * Open positions are marked to market with the latest quote
+   */
+  async getPortfolio(userId: number): Promise<PortfolioSummary> {
+    const account = await getOrCreateAccount(userId);
+    const positions = await getPositionsByUser(userId);
+    const marked = await this.markToMarket(positions);
+
+    const positionsValue = marked.reduce((sum, p) => sum + p.marketValue, 0);
+    const unrealizedPnl = marked.reduce((sum, p) => sum + p.unrealizedPnl, 0);
+    // Closed positions still carry realized P&L
+    const realizedPnl = positions.reduce((sum, p) => sum + p.realized_pnl, 0);
+    const totalEquity = account.cash_balance + positionsValue;
+
+    return {
+      cashBalance: round(account.cash_balance),
+      startingBalance: round(account.starting_balance),
+      positionsValue: round(positionsValue),
+      unrealizedPnl: round(unrealizedPnl),
+      realizedPnl: round(realizedPnl),
+      totalEquity: round(totalEquity),
+      totalReturnPercent: round(
+        ((totalEquity - account.starting_balance) / account.starting_balance) * 100
+      ),
+      positions: marked,
+    };
+  }
+
+  // Open positions only, marked to market
+  async getPositions(userId: number): Promise<MarkedPosition[]> {
+    const positions = await getPositionsByUser(userId);
+    return this.markToMarket(positions);
+  }
+
+  private async markToMarket(positions: Position[]): Promise<MarkedPosition[]> {
+    const open = positions.filter((p) => p.quantity > 0);
+    if (open.length === 0) return [];
+
+    const quotes = await marketDataService.getMultipleQuotes(open.map((p) => p.symbol));
+    const quoteBySymbol = new Map(quotes.map((q) => [q.symbol, q]));
+
+    return open.map((position) => {
+      const quote = quoteBySymbol.get(position.symbol)!;
+      const costBasis = position.quantity * position.average_cost;
+      const marketValue = position.quantity * quote.price;
+      const unrealizedPnl = marketValue - costBasis;
+
+      return {
+        symbol: position.symbol,
+        quantity: position.quantity,
+        averageCost: round(position.average_cost),
+        costBasis: round(costBasis),
+        marketPrice: quote.price,
+        marketValue: round(marketValue),
+        unrealizedPnl: round(unrealizedPnl),
+        unrealizedPnlPercent: costBasis > 0 ? round((unrealizedPnl / costBasis) * 100) : 0,
+        realizedPnl: round(position.realized_pnl),
+        dataSource: quote.dataSource,
+      };
+    });
+  }
+}
+
+export default new PortfolioService();
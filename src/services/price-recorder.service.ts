@@ -0,0 +1,116 @@
+import cron from 'node-cron';
+import { ScheduledTask } from 'node-cron';
+import {
+  insertRecordings,
+  deleteRecordingsBefore,
+  PriceRecording,
+} from '../models/price-recording.model';
+
+const RECORDING_ENABLED = process.env.PRICE_RECORDING_ENABLED !== 'false';
+const RETENTION_DAYS = parseInt(process.env.PRICE_RECORDING_RETENTION_DAYS || '7', 10);
+// Expired rows are deleted this many at a time so no single statement holds locks for long
+const PURGE_BATCH_SIZE = 10000;
+// Buffered payloads are written in one insert this often, or sooner once this many pile up
+const FLUSH_INTERVAL_MS = 1000;
+const FLUSH_BATCH_SIZE = 500;
+// Never hold more than this in memory if the database is unreachable
+const MAX_BUFFERED = 50000;
+
+/**
+ * Records every price payload published to clients so sessions can be replayed
+ * Writes are batched off the publish path; a failed batch is kept and retried
+ * on the next flush. An hourly job deletes recordings older than the retention
+ * period; every node runs it, and deleting what another node already deleted is a no-op.
+ */
+class PriceRecorderService {
+  private buffer: Array<Omit<PriceRecording, 'id'>> = [];
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private purgeJob: ScheduledTask | null = null;
+  private purging = false;
+
+  start(): void {
+    if (!RECORDING_ENABLED || this.timer) return;
+    this.timer = setInterval(() => {
+      this.flush().catch((error) => console.error('Failed to flush price recordings:', error));
+    }, FLUSH_INTERVAL_MS);
+
+    // Hourly, at a random minute so nodes don't all purge at once
+    const minute = Math.floor(Math.random() * 60);
+    this.purgeJob = cron.schedule(`0 ${minute} * * * *`, async () => {
+      await this.purgeExpired();
+    });
+    console.log(`Price recorder started (keeping ${RETENTION_DAYS} days)`);
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.purgeJob) {
+      this.purgeJob.stop();
+      this.purgeJob = null;
+    }
+    await this.flush().catch((error) =>
+      console.error('Failed to flush price recordings on shutdown:', error)
+    );
+  }
+
+  record(symbol: string, payload: object): void {
+    if (!RECORDING_ENABLED) return;
+
+    this.buffer.push({
+      symbol,
+      recorded_at: new Date(),
+      payload: payload as Record<string, unknown>,
+    });
+    if (this.buffer.length > MAX_BUFFERED) {
+      this.buffer.splice(0, this.buffer.length - MAX_BUFFERED);
+    }
+    if (this.buffer.length >= FLUSH_BATCH_SIZE) {
+      this.flush().catch((error) => console.error('Failed to flush price recordings:', error));
+    }
+  }
+
+  // Delete recordings that have outlived the retention period
+  async purgeExpired(): Promise<void> {
+    if (this.purging) return;
+    this.purging = true;
+    try {
+      const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      let deleted = 0;
+      let batch: number;
+      do {
+        batch = await deleteRecordingsBefore(cutoff, PURGE_BATCH_SIZE);
+        deleted += batch;
+      } while (batch === PURGE_BATCH_SIZE);
+      if (deleted > 0)
+        console.log(`Deleted ${deleted} price recordings older than ${cutoff.toISOString()}`);
+    } catch (error) {
+      console.error('Failed to delete expired price recordings:', error);
+    } finally {
+      this.purging = false;
+    }
+  }
+
+  private async flush(): Promise<void> {
+    // One insert at a time keeps rows in publish order
+    if (this.flushing) return this.flushing;
+    if (this.buffer.length === 0) return;
+
+    const batch = this.buffer;
+    this.buffer = [];
+    this.flushing = insertRecordings(batch)
+      .catch((error) => {
+        this.buffer = batch.concat(this.buffer);
+        throw error;
+      })
+      .finally(() => {
+        this.flushing = null;
+      });
+    return this.flushing;
+  }
+}
+
+export default new PriceRecorderService();
@@ -1,16 +1,79 @@
 import cron from 'node-cron';
 import { ScheduledTask } from 'node-cron'; 
-import marketDataService from './market-data.service';
+import marketDataService, { Quote } from './market-data.service';
 import websocketMarketService from './websocket-market.service';
-import redisClient from '../config/redis';
+import orderService from './order.service';
+import alertService from './alert.service';
+import candleService from './candle.service';
+import indicatorService from './indicator.service';
+import orderBookService from './order-book.service';
+import instrumentService from './instrument.service';
+import { simulationConfig } from '../config/simulation';
+import { MarketStatus } from '../utils/market-calendar';
+import { LeaderElection } from './leader-election.service';
 
+// Upstream quote calls allowed per minute (Finnhub free tier: 60)
+const QUOTE_BUDGET_PER_MINUTE = parseInt(process.env.QUOTE_BUDGET_PER_MINUTE || '60', 10);
+// A trading symbol not refreshed within this long is marked stale
+const REFRESH_TARGET_SECONDS = parseInt(process.env.QUOTE_REFRESH_TARGET_SECONDS || '15', 10);
+
+interface SymbolRefresh {
+  lastRefreshAt: number;
+  marketStatus: MarketStatus;
+  lastQuote: Quote;
+  stale: boolean;
+}
+
+export interface SymbolRefreshStatus {
+  symbol: string;
+  subscribers: number;
+  marketStatus: MarketStatus | null;
+  lastRefreshAt: number | null;
+  lagMs: number | null;
+  targetMs: number | null;
+  stale: boolean;
+}
+
+export interface UpdaterStatus {
+  running: boolean;
+  leaderId: string | null;
+  budgetPerMinute: number;
+  usedLastMinute: number;
+  symbols: SymbolRefreshStatus[];
+}
+
+/**
+ * Background quote refresh
+ * Every cycle it spends a slice of the per-minute provider budget on the symbols that
+ * are most overdue. Priority is age weighted by audience, so busy symbols refresh more
+ * often but every symbol's claim grows until it is served; symbols that miss their
+ * refresh target are re-published with `stale: true`.
+ *
+ * Only the elected leader among API nodes runs the job (see LeaderElection), so the
+ * budget is spent once per cluster, not once per node.
+ */
 class PriceUpdaterService {
   private updateJob: ScheduledTask | null = null;
   private isRunning: boolean = false;
-  private readonly MAX_SYMBOLS_PER_UPDATE = 5; // Finnhub rate limit consideration
   private readonly UPDATE_INTERVAL_SECONDS = 5;
+  private refreshes: Map<string, SymbolRefresh> = new Map();
+  private fetchLog: number[] = []; // upstream call times within the last minute
+  private lastCycle: {
+    symbols: string[];
+    statuses: Map<string, MarketStatus>;
+    subscribers: Map<string, number>;
+  } = { symbols: [], statuses: new Map(), subscribers: new Map() };
+  private leadership = new LeaderElection('price-updater', {
+    onElected: () => this.startJob(),
+    onRevoked: () => this.stopJob(),
+  });
+
+  // Campaign for leadership; the update job runs while this node leads
+  async start(): Promise<void> {
+    await this.leadership.start();
+  }
 
-  start(): void {
+  private startJob(): void {
     if (this.isRunning) {
       console.log('Price updater already running');
       return;
@@ -25,7 +88,7 @@ class PriceUpdaterService {
     console.log('Price updater started');
   }
 
-  stop(): void {
+  private stopJob(): void {
     if (this.updateJob) {
       this.updateJob.stop();
       this.isRunning = false;
@@ -37,24 +100,40 @@ class PriceUpdaterService {
     try {
       // Get list of symbols users are currently subscribed to
       const activeSymbols = await this.getActiveSymbols();
+      this.forgetInactive(activeSymbols);
       if (activeSymbols.length === 0) {
         return;
       }
-      console.log(`Updating prices for ${activeSymbols.length} symbols:`, activeSymbols.join(', '));
 
-      // Fetch prices for all active symbols (with concurrency limit)
-      const symbolsToFetch = activeSymbols.slice(0, this.MAX_SYMBOLS_PER_UPDATE);
-      const promises = symbolsToFetch.map(symbol => this.fetchAndPublish(symbol));
+      const [statuses, subscribers] = await Promise.all([
+        this.getMarketStatuses(activeSymbols),
+        websocketMarketService.getSubscriberCounts(activeSymbols),
+      ]);
+      this.lastCycle = { symbols: activeSymbols, statuses, subscribers };
+
+      // Fetch the most overdue symbols this cycle's share of the budget allows
+      const due = activeSymbols.filter(symbol => this.isDue(symbol, statuses.get(symbol)!));
+      const symbolsToFetch = this.pickBatch(due, subscribers, this.availableBudget());
+
+      if (symbolsToFetch.length > 0) {
+        console.log(
+          `Updating prices for ${symbolsToFetch.length}/${activeSymbols.length} symbols:`,
+          symbolsToFetch.join(', ')
+        );
+        const promises = symbolsToFetch.map(symbol => this.fetchAndPublish(symbol));
 
-      const results = await Promise.allSettled(promises);
+        const results = await Promise.allSettled(promises);
 
-      const successful = results.filter(r => r.status === 'fulfilled').length;
-      const failed = results.filter(r => r.status === 'rejected').length;
-      
-      if (failed > 0) {
-        console.warn(`Price update: ${successful} succeeded, ${failed} failed`);
+        const successful = results.filter(r => r.status === 'fulfilled').length;
+        const failed = results.filter(r => r.status === 'rejected').length;
+
+        if (failed > 0) {
+          console.warn(`Price update: ${successful} succeeded, ${failed} failed`);
+        }
       }
 
+      await this.markStale(activeSymbols, statuses);
+
     } catch (error) {
       console.error('Error in price update loop:', error);
     }
@@ -62,18 +141,50 @@ class PriceUpdaterService {
 
   private async fetchAndPublish(symbol: string): Promise<void> {
     try {
-      // Fetch current price (uses Finnhub or mock data as fallback)
-      const quote = await marketDataService.getQuote(symbol);
+      // Fetch current price (provider chain, mock data as fallback); always a new tick,
+      // which also refreshes the quote:<SYMBOL> cache used by HTTP and socket reads
+      this.fetchLog.push(Date.now());
+      const fetched = await marketDataService.getQuote(symbol, { maxAgeMs: 0 });
+
+      const previous = this.refreshes.get(symbol);
+      const now = Date.now();
+      const quote: Quote = {
+        ...fetched,
+        stale: false,
+        refreshLagMs: previous ? now - previous.lastRefreshAt : undefined,
+      };
+      this.refreshes.set(symbol, {
+        lastRefreshAt: now,
+        marketStatus: quote.marketStatus,
+        lastQuote: quote,
+        stale: false,
+      });
 
       // All WebSocket servers subscribed to "stock:AAPL" will receive this
       await websocketMarketService.publishPriceUpdate(symbol, quote);
 
-      // cache in Redis for HTTP API calls
-      await redisClient.setEx(
-        `quote:${symbol}`,
-        10, // Cache for 10 seconds (longer than update interval)
-        JSON.stringify(quote)
-      );
+      // Keep the tick for charting (1m candles, rolled up later)
+      await candleService.recordTick(quote);
+
+      // Step the synthetic book and tape for symbols whose depth is being streamed
+      const depth = await orderBookService.recordTick(quote);
+      if (depth) {
+        if (depth.snapshot) {
+          websocketMarketService.publishOrderBookSnapshot(symbol, depth.snapshot);
+        } else {
+          websocketMarketService.publishOrderBookUpdate(symbol, depth.update);
+        }
+        websocketMarketService.publishTrades(symbol, depth.trades);
+      }
+
+      // Push streamed indicators recomputed with this tick
+      await indicatorService.publishUpdates(quote);
+
+      // Fill any resting limit orders this tick crosses
+      await orderService.processTick(quote);
+
+      // Evaluate price alerts against the same tick
+      await alertService.evaluateTick(quote);
 
     } catch (error) {
       console.error(`Failed to fetch/publish ${symbol}:`, error);
@@ -81,15 +192,163 @@ class PriceUpdaterService {
     }
   }
 
+  private async getMarketStatuses(symbols: string[]): Promise<Map<string, MarketStatus>> {
+    const statuses = await Promise.all(
+      symbols.map((symbol) => marketDataService.getMarketStatus(symbol))
+    );
+    return new Map(symbols.map((symbol, i) => [symbol, statuses[i]]));
+  }
+
+  /**
+   * Whether a symbol's market warrants a refresh at all
+   * Regular session: always. Pre/post-market: every extendedHoursIntervalSeconds.
+   * Closed: once, so subscribers see the closing status, then not until the next session.
+   */
+  private isDue(symbol: string, status: MarketStatus): boolean {
+    if (!simulationConfig.enforceMarketHours) return true;
+
+    const last = this.refreshes.get(symbol);
+    switch (status) {
+      case 'open':
+        return true;
+      case 'pre_market':
+      case 'post_market':
+        return (
+          last === undefined ||
+          Date.now() - last.lastRefreshAt >= simulationConfig.extendedHoursIntervalSeconds * 1000
+        );
+      case 'closed':
+        return last?.marketStatus !== 'closed';
+    }
+  }
+
+  // How long a symbol may go without a refresh before it is stale (null: never, market closed)
+  private refreshTargetMs(status: MarketStatus | undefined): number | null {
+    if (!simulationConfig.enforceMarketHours) return REFRESH_TARGET_SECONDS * 1000;
+    switch (status) {
+      case 'open':
+        return REFRESH_TARGET_SECONDS * 1000;
+      case 'pre_market':
+      case 'post_market':
+        return Math.max(REFRESH_TARGET_SECONDS, simulationConfig.extendedHoursIntervalSeconds * 2) * 1000;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Calls this cycle may spend: an even share of the per-minute budget,
+   * capped by what is left of it over the last 60 seconds
+   */
+  private availableBudget(): number {
+    const now = Date.now();
+    this.fetchLog = this.fetchLog.filter(time => now - time < 60000);
+    const perCycle = Math.max(1, Math.ceil((QUOTE_BUDGET_PER_MINUTE * this.UPDATE_INTERVAL_SECONDS) / 60));
+    return Math.max(0, Math.min(perCycle, QUOTE_BUDGET_PER_MINUTE - this.fetchLog.length));
+  }
+
+  /**
+   * Most overdue symbols first: time since last refresh × (1 + log2(1 + subscribers))
+   * Never-refreshed symbols go first, busiest among them first.
+   */
+  private pickBatch(symbols: string[], subscribers: Map<string, number>, limit: number): string[] {
+    if (limit <= 0) return [];
+    const now = Date.now();
+
+    return symbols
+      .map(symbol => {
+        const count = subscribers.get(symbol) ?? 0;
+        const last = this.refreshes.get(symbol);
+        const age = last ? now - last.lastRefreshAt : Infinity;
+        return { symbol, count, score: age * (1 + Math.log2(1 + count)) };
+      })
+      .sort((a, b) => b.score - a.score || b.count - a.count)
+      .slice(0, limit)
+      .map(entry => entry.symbol);
+  }
+
+  // Re-publish the last quote flagged stale for trading symbols past their refresh target
+  private async markStale(symbols: string[], statuses: Map<string, MarketStatus>): Promise<void> {
+    const now = Date.now();
+    for (const symbol of symbols) {
+      const refresh = this.refreshes.get(symbol);
+      const targetMs = this.refreshTargetMs(statuses.get(symbol));
+      if (!refresh || refresh.stale || targetMs === null) continue;
+
+      const lagMs = now - refresh.lastRefreshAt;
+      if (lagMs <= targetMs) continue;
+
+      refresh.stale = true;
+      await websocketMarketService.publishPriceUpdate(symbol, {
+        ...refresh.lastQuote,
+        stale: true,
+        refreshLagMs: lagMs,
+      });
+    }
+  }
+
+  private forgetInactive(activeSymbols: string[]): void {
+    const active = new Set(activeSymbols);
+    for (const symbol of this.refreshes.keys()) {
+      if (!active.has(symbol)) this.refreshes.delete(symbol);
+    }
+  }
+
+  // Per-symbol refresh lag and budget use, for the status endpoint
+  // (only the leader has data; followers report who leads)
+  async getStatus(): Promise<UpdaterStatus> {
+    const now = Date.now();
+    const { symbols, statuses, subscribers } = this.lastCycle;
+    const leaderId = await this.leadership.getLeaderId().catch(() => null);
+
+    return {
+      running: this.isRunning,
+      leaderId,
+      budgetPerMinute: QUOTE_BUDGET_PER_MINUTE,
+      usedLastMinute: this.fetchLog.filter(time => now - time < 60000).length,
+      symbols: symbols
+        .map(symbol => {
+          const refresh = this.refreshes.get(symbol);
+          return {
+            symbol,
+            subscribers: subscribers.get(symbol) ?? 0,
+            marketStatus: statuses.get(symbol) ?? null,
+            lastRefreshAt: refresh?.lastRefreshAt ?? null,
+            lagMs: refresh ? now - refresh.lastRefreshAt : null,
+            targetMs: this.refreshTargetMs(statuses.get(symbol)),
+            stale: refresh?.stale ?? false,
+          };
+        })
+        .sort((a, b) => (b.lagMs ?? Infinity) - (a.lagMs ?? Infinity)),
+    };
+  }
+
   private async getActiveSymbols(): Promise<string[]> {
-    // Use the WebSocket service method instead
-    return await websocketMarketService.getActiveSymbols();
+    // Symbols someone is watching over WebSocket, plus symbols with active alerts or
+    // resting limit orders (those must fire and fill even when the owner has no tab open),
+    // minus deactivated instruments
+    const [socketSymbols, alertSymbols, orderSymbols] = await Promise.all([
+      websocketMarketService.getActiveSymbols(),
+      alertService.getWatchedSymbols().catch((error) => {
+        console.error('Failed to get alert symbols:', error);
+        return [] as string[];
+      }),
+      orderService.getWatchedSymbols().catch((error) => {
+        console.error('Failed to get limit order symbols:', error);
+        return [] as string[];
+      }),
+    ]);
+    return Array.from(new Set([...socketSymbols, ...alertSymbols, ...orderSymbols])).filter(
+      (symbol) => !instrumentService.isInactive(symbol)
+    );
   }
 
 
   async shutdown(): Promise<void> {
     console.log('Shutting down price updater...');
-    this.stop();
+    // Hand leadership over right away; stops the job if we were running it
+    await this.leadership.stop();
+    this.stopJob();
     // Wait for any in-progress updates to complete
     await new Promise(resolve => setTimeout(resolve, 1000));
     
@@ -0,0 +1,74 @@
+import axios from 'axios';
+import {
+  MarketDataProvider,
+  ProviderQuote,
+  ProviderError,
+  toProviderError,
+} from './market-data-provider';
+
+interface AlphaVantageResponse {
+  Note?: string;
+  Information?: string;
+  'Global Quote'?: Record<string, string>;
+}
+
+// Alpha Vantage free tier allows 5 req/min; back off for a full minute when told to
+const RATE_LIMIT_BACKOFF_MS = 60000;
+
+/**
+ * Alpha Vantage GLOBAL_QUOTE
+ * Rate limits arrive as HTTP 200 with a "Note"/"Information" message instead of a quote
+ */
+export class AlphaVantageProvider implements MarketDataProvider {
+  readonly name = 'alphavantage' as const;
+
+  constructor(private apiKey?: string) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async getQuote(symbol: string): Promise<ProviderQuote> {
+    let body: AlphaVantageResponse;
+    try {
+      const response = await axios.get<AlphaVantageResponse>('https://www.alphavantage.co/query', {
+        params: {
+          function: 'GLOBAL_QUOTE',
+          symbol: symbol.toUpperCase(),
+          apikey: this.apiKey,
+        },
+        timeout: 5000,
+      });
+      body = response.data;
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+
+    if (body?.Note || body?.Information) {
+      throw new ProviderError('alphavantage rate limit hit', 'rate_limited', RATE_LIMIT_BACKOFF_MS);
+    }
+
+    const data = body?.['Global Quote'];
+    if (!data || Object.keys(data).length === 0) {
+      throw new ProviderError(`Invalid symbol or no data: ${symbol}`, 'not_found');
+    }
+
+    const price = parseFloat(data['05. price']);
+    const previousClose = parseFloat(data['08. previous close']);
+    const change = parseFloat(data['09. change']);
+    const changePercent = parseFloat(data['10. change percent'].replace('%', ''));
+
+    return {
+      symbol: symbol.toUpperCase(),
+      price,
+      change,
+      changePercent,
+      high: parseFloat(data['03. high']),
+      low: parseFloat(data['04. low']),
+      open: parseFloat(data['02. open']),
+      previousClose,
+      volume: parseInt(data['06. volume']),
+      timestamp: Date.now(),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import axios from 'axios';
+import {
+  MarketDataProvider,
+  ProviderName,
+  ProviderQuote,
+  ProviderError,
+  toProviderError,
+} from './market-data-provider';
+
+// c: current, pc: previous close, h/l/o: day high/low/open, v: volume (stand-in only)
+interface FinnhubQuoteResponse {
+  c: number;
+  pc: number;
+  h: number;
+  l: number;
+  o: number;
+  v?: number;
+}
+
+interface FinnhubProviderOptions {
+  name: ProviderName;
+  baseUrl: string;
+  token?: string;
+  // The local stand-in needs no API key
+  requiresToken: boolean;
+}
+
+/**
+ * Finnhub quote API (60 req/min on the free tier)
+ * Also used for the local stand-in, which serves the same /api/v1/quote shape
+ */
+export class FinnhubProvider implements MarketDataProvider {
+  readonly name: ProviderName;
+
+  constructor(private options: FinnhubProviderOptions) {
+    this.name = options.name;
+  }
+
+  isConfigured(): boolean {
+    return !this.options.requiresToken || Boolean(this.options.token);
+  }
+
+  async getQuote(symbol: string): Promise<ProviderQuote> {
+    let data: FinnhubQuoteResponse;
+    try {
+      const response = await axios.get<FinnhubQuoteResponse>(
+        `${this.options.baseUrl}/api/v1/quote`,
+        {
+          params: {
+            symbol: symbol.toUpperCase(),
+            token: this.options.token,
+          },
+          timeout: 5000,
+        }
+      );
+      data = response.data;
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+
+    // Finnhub returns 0 for all fields if symbol invalid
+    if (data.c === 0 && data.pc === 0) {
+      throw new ProviderError(`Invalid symbol or no data: ${symbol}`, 'not_found');
+    }
+
+    const price = data.c;
+    const previousClose = data.pc;
+    const change = price - previousClose;
+    const changePercent = (change / previousClose) * 100;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      price,
+      change,
+      changePercent,
+      high: data.h,
+      low: data.l,
+      open: data.o,
+      previousClose,
+      volume: data.v ?? 0, // Finnhub doesn't provide volume in quote endpoint (the stand-in does)
+      timestamp: Date.now(),
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import dotenv from 'dotenv';
+import { MarketDataProvider, ProviderName } from './market-data-provider';
+import { FinnhubProvider } from './finnhub.provider';
+import { AlphaVantageProvider } from './alpha-vantage.provider';
+
+dotenv.config();
+
+export * from './market-data-provider';
+
+// Ordered chain, e.g. "finnhub,alphavantage" or "local" for offline development
+const PROVIDER_CHAIN = process.env.MARKET_DATA_PROVIDERS || 'finnhub,alphavantage';
+const LOCAL_PROVIDER_URL = process.env.LOCAL_PROVIDER_URL || 'http://localhost:4010';
+
+export const circuitBreakerOptions = {
+  failureThreshold: parseInt(process.env.PROVIDER_FAILURE_THRESHOLD || '3', 10),
+  openDurationMs: parseInt(process.env.PROVIDER_OPEN_SECONDS || '30', 10) * 1000,
+};
+
+const factories: Record<ProviderName, () => MarketDataProvider> = {
+  finnhub: () =>
+    new FinnhubProvider({
+      name: 'finnhub',
+      baseUrl: 'https://finnhub.io',
+      token: process.env.FINNHUB_API_KEY,
+      requiresToken: true,
+    }),
+  alphavantage: () => new AlphaVantageProvider(process.env.ALPHA_VANTAGE_API_KEY),
+  local: () =>
+    new FinnhubProvider({ name: 'local', baseUrl: LOCAL_PROVIDER_URL, requiresToken: false }),
+};
+
+/**
+ * Build the provider chain from MARKET_DATA_PROVIDERS
+ * Unknown names are ignored with a warning; mock data is always the last resort
+ * and is not part of the chain
+ */
+export const createProviderChain = (): MarketDataProvider[] => {
+  const names = PROVIDER_CHAIN.split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: MarketDataProvider[] = [];
+  for (const name of new Set(names)) {
+    const factory = factories[name as ProviderName];
+    if (!factory) {
+      console.warn(`Ignoring unknown market data provider: "${name}"`);
+      continue;
+    }
+    providers.push(factory());
+  }
+  return providers;
+};
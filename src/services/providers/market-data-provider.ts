@@ -0,0 +1,56 @@
+import axios from 'axios';
+import type { Quote } from '../market-data.service';
+
+export type ProviderName = 'finnhub' | 'alphavantage' | 'local';
+
+// What a provider returns; MarketDataService adds source, real-time flag and market status
+export type ProviderQuote = Omit<Quote, 'dataSource' | 'isRealTime' | 'marketStatus'>;
+
+/**
+ * An upstream quote source in the provider chain
+ * Providers throw ProviderError so the chain can tell a bad symbol (try the next
+ * provider, the upstream is healthy) from an upstream problem (trip its breaker).
+ */
+export interface MarketDataProvider {
+  readonly name: ProviderName;
+  // False when required credentials are missing; unconfigured providers are skipped
+  isConfigured(): boolean;
+  getQuote(symbol: string): Promise<ProviderQuote>;
+}
+
+export type ProviderErrorKind = 'rate_limited' | 'not_found' | 'unavailable';
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ProviderErrorKind,
+    // How long the upstream asked us to back off (rate limits)
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Map an axios/network error onto a ProviderError
+ * 429s become rate limits (honouring Retry-After), everything else is unavailability
+ */
+export const toProviderError = (provider: ProviderName, error: unknown): ProviderError => {
+  if (error instanceof ProviderError) return error;
+  if (!axios.isAxiosError(error)) {
+    return new ProviderError(`${provider} request failed: ${String(error)}`, 'unavailable');
+  }
+
+  if (error.response?.status === 429) {
+    const retryAfter = parseInt(String(error.response.headers['retry-after']), 10);
+    return new ProviderError(
+      `${provider} rate limit hit`,
+      'rate_limited',
+      Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined
+    );
+  }
+
+  const status = error.response?.status ? ` (HTTP ${error.response.status})` : '';
+  return new ProviderError(`${provider} request failed${status}: ${error.message}`, 'unavailable');
+};
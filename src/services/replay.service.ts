@@ -0,0 +1,257 @@
+import { randomUUID } from 'crypto';
+import { getRecordings, PriceRecording } from '../models/price-recording.model';
+
+export type ReplaySpeed = 1 | 10 | 100;
+export type ReplayState = 'playing' | 'paused' | 'ended';
+
+export interface ReplayOptions {
+  symbols: string[];
+  from: Date;
+  to: Date;
+  speed: ReplaySpeed;
+  paused?: boolean;
+}
+
+export interface ReplayStatus {
+  replayId: string;
+  state: ReplayState;
+  speed: ReplaySpeed;
+  symbols: string[];
+  from: number;
+  to: number;
+  position: number; // recorded time reached, epoch ms
+}
+
+type Emit = (rooms: string[], event: string, payload: unknown) => void;
+
+// Recorded ticks read per query
+const PAGE_SIZE = 1000;
+// Quiet stretches in a recording (overnight, outages) are shortened to this in real time
+const MAX_WAIT_MS = 5000;
+// Replays a single socket may run at once
+export const MAX_REPLAYS_PER_SOCKET = 3;
+
+export const replayRoom = (replayId: string, symbol: string) => `replay:${replayId}:${symbol}`;
+
+/**
+ * One recorded session played back into `replay:<id>:<SYMBOL>` rooms
+ * Ticks are re-emitted with the recorded spacing divided by the speed; seeking drops
+ * the read-ahead and continues from the new position. Every state change is
+ * broadcast as `replay_status`.
+ */
+class ReplaySession {
+  readonly id = randomUUID();
+  private state: ReplayState = 'paused';
+  private position: number;
+  private pending: PriceRecording[] = [];
+  private cursor: { recorded_at: Date; id: string } | undefined;
+  private exhausted = false;
+  private timer: NodeJS.Timeout | null = null;
+  // When the pending wait started, to know how far a pause got
+  private waitStartedAt = 0;
+  // Bumped on every pause/seek so an in-flight page load can tell it's outdated
+  private generation = 0;
+
+  constructor(
+    readonly ownerId: string,
+    private options: ReplayOptions,
+    private emit: Emit
+  ) {
+    this.position = options.from.getTime();
+  }
+
+  get rooms(): string[] {
+    return this.options.symbols.map((symbol) => replayRoom(this.id, symbol));
+  }
+
+  status(): ReplayStatus {
+    return {
+      replayId: this.id,
+      state: this.state,
+      speed: this.options.speed,
+      symbols: this.options.symbols,
+      from: this.options.from.getTime(),
+      to: this.options.to.getTime(),
+      position: this.position,
+    };
+  }
+
+  play(): void {
+    if (this.state === 'playing') return;
+    if (this.state === 'ended') this.seek(this.options.from.getTime());
+    this.state = 'playing';
+    this.broadcastStatus();
+    this.scheduleNext();
+  }
+
+  pause(): void {
+    if (this.state !== 'playing') return;
+    this.advanceWaited();
+    this.cancel();
+    this.state = 'paused';
+    this.broadcastStatus();
+  }
+
+  seek(position: number): void {
+    const clamped = Math.min(
+      Math.max(position, this.options.from.getTime()),
+      this.options.to.getTime()
+    );
+    this.cancel();
+    this.position = clamped;
+    this.pending = [];
+    this.cursor = undefined;
+    this.exhausted = false;
+    if (this.state === 'ended') this.state = 'paused';
+
+    this.broadcastStatus();
+    if (this.state === 'playing') this.scheduleNext();
+  }
+
+  setSpeed(speed: ReplaySpeed): void {
+    if (this.state === 'playing') {
+      // Re-time the pending wait at the new speed
+      this.advanceWaited();
+      this.cancel();
+      this.options.speed = speed;
+      this.scheduleNext();
+    } else {
+      this.options.speed = speed;
+    }
+    this.broadcastStatus();
+  }
+
+  stop(): void {
+    this.cancel();
+    if (this.state === 'ended') return;
+    this.state = 'ended';
+    this.broadcastStatus();
+  }
+
+  private cancel(): void {
+    this.generation++;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Credit the recorded time that passed while waiting for the next tick
+  private advanceWaited(): void {
+    if (!this.timer) return;
+    const next = this.pending[0]?.recorded_at.getTime() ?? this.position;
+    const waited = (Date.now() - this.waitStartedAt) * this.options.speed;
+    this.position = Math.min(next, this.position + waited);
+  }
+
+  private scheduleNext(): void {
+    const generation = this.generation;
+    this.nextTick()
+      .then((next) => {
+        if (generation !== this.generation || this.state !== 'playing') return;
+        if (!next) {
+          this.state = 'ended';
+          this.position = this.options.to.getTime();
+          this.broadcastStatus();
+          return;
+        }
+
+        const wait = Math.min(
+          MAX_WAIT_MS,
+          Math.max(0, (next.recorded_at.getTime() - this.position) / this.options.speed)
+        );
+        this.waitStartedAt = Date.now();
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pending.shift();
+          this.position = next.recorded_at.getTime();
+          this.emit([replayRoom(this.id, next.symbol)], 'replay_update', {
+            replayId: this.id,
+            recordedAt: this.position,
+            payload: next.payload,
+          });
+          this.scheduleNext();
+        }, wait);
+      })
+      .catch((error) => {
+        console.error(`Replay ${this.id} failed to read recordings:`, error);
+        if (generation === this.generation) this.pause();
+      });
+  }
+
+  // Next recorded tick at or after the current position, reading ahead a page at a time
+  private async nextTick(): Promise<PriceRecording | null> {
+    if (this.pending.length === 0 && !this.exhausted) {
+      const page = await getRecordings(
+        this.options.symbols,
+        this.cursor ? this.options.from : new Date(this.position),
+        this.options.to,
+        PAGE_SIZE,
+        this.cursor
+      );
+      this.pending = page;
+      this.exhausted = page.length < PAGE_SIZE;
+      const last = page[page.length - 1];
+      if (last) this.cursor = { recorded_at: last.recorded_at, id: last.id };
+    }
+    return this.pending[0] ?? null;
+  }
+
+  private broadcastStatus(): void {
+    this.emit(this.rooms, 'replay_status', this.status());
+  }
+}
+
+/**
+ * Replays of recorded price sessions (see PriceRecorderService)
+ * Sessions run on the node whose socket started them and are controlled only by that
+ * socket; the rooms are ordinary socket.io rooms, so they reach other nodes too.
+ * Playback reads only Postgres, so it works without any market data provider.
+ */
+class ReplayService {
+  private sessions: Map<string, ReplaySession> = new Map();
+
+  start(ownerId: string, options: ReplayOptions, emit: Emit): ReplaySession {
+    const session = new ReplaySession(ownerId, options, emit);
+    this.sessions.set(session.id, session);
+    if (!options.paused) session.play();
+    return session;
+  }
+
+  // A session this socket may control
+  get(replayId: string, ownerId: string): ReplaySession | null {
+    const session = this.sessions.get(replayId);
+    return session && session.ownerId === ownerId ? session : null;
+  }
+
+  // Sessions still playing or paused; ended ones don't count toward the per-socket limit
+  countOwnedBy(ownerId: string): number {
+    return this.ownedBy(ownerId).filter((session) => session.status().state !== 'ended').length;
+  }
+
+  // Forget this owner's ended sessions, returning them so their rooms can be left
+  removeEndedOwnedBy(ownerId: string): ReplaySession[] {
+    const ended = this.ownedBy(ownerId).filter((session) => session.status().state === 'ended');
+    ended.forEach((session) => this.sessions.delete(session.id));
+    return ended;
+  }
+
+  stop(replayId: string): void {
+    this.sessions.get(replayId)?.stop();
+    this.sessions.delete(replayId);
+  }
+
+  stopOwnedBy(ownerId: string): void {
+    for (const session of this.sessions.values()) {
+      if (session.ownerId === ownerId) this.stop(session.id);
+    }
+  }
+
+  shutdown(): void {
+    for (const replayId of this.sessions.keys()) this.stop(replayId);
+  }
+
+  private ownedBy(ownerId: string): ReplaySession[] {
+    return Array.from(this.sessions.values()).filter((session) => session.ownerId === ownerId);
+  }
+}
+
+export default new ReplayService();
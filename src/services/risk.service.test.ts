@@ -0,0 +1,69 @@
+import riskService from './risk.service';
+import marketDataService from './market-data.service';
+import { getOrCreateAccount, getPositionsByUser } from '../models/portfolio.model';
+import { getInstrumentBySymbol } from '../models/instrument.model';
+import stockSimulator from '../utils/stock-simulator';
+
+jest.mock('../config/database', () => ({ __esModule: true, default: {} }));
+jest.mock('../models/portfolio.model');
+jest.mock('../models/instrument.model');
+jest.mock('./market-data.service', () => ({
+  __esModule: true,
+  default: { getMultipleQuotes: jest.fn() },
+}));
+
+describe('RiskService', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (getOrCreateAccount as jest.Mock).mockResolvedValue({ cash_balance: 1000 });
+    (getPositionsByUser as jest.Mock).mockResolvedValue([
+      { symbol: 'AAA', quantity: 10 },
+      { symbol: 'BBB', quantity: 5 },
+    ]);
+    (marketDataService.getMultipleQuotes as jest.Mock).mockResolvedValue([
+      { price: 100 },
+      { price: 50 },
+    ]);
+    (getInstrumentBySymbol as jest.Mock).mockResolvedValue({ sector: 'Energy' });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('reports 1-day and 10-day measures even for a shorter horizon', async () => {
+    const report = await riskService.getPortfolioRisk(1, 100, 5);
+
+    expect(report.portfolioValue).toBe(2250);
+    expect(report.horizonDays).toBe(5);
+    expect(Array.from(new Set(report.measures.map((m) => m.horizonDays)))).toEqual([1, 5, 10]);
+    expect(report.worstPaths[0].values).toHaveLength(6);
+  });
+
+  it('draws the holdings jointly with their sector correlation', async () => {
+    const correlated = jest.spyOn(stockSimulator, 'generateCorrelatedPrices');
+
+    await riskService.getPortfolioRisk(1, 100, 10);
+
+    expect(correlated).toHaveBeenCalledTimes(100 * 10);
+    const cholesky = correlated.mock.calls[0][2];
+    // Same sector: corr = L[1][0] * L[0][0]
+    expect(cholesky[1][0] * cholesky[0][0]).toBeCloseTo(0.65);
+  });
+
+  it('yields to the event loop during a large run', async () => {
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 0);
+    try {
+      await riskService.getPortfolioRisk(1, 2000, 30);
+    } finally {
+      clearInterval(timer);
+    }
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it('has no risk without positions', async () => {
+    (getPositionsByUser as jest.Mock).mockResolvedValue([]);
+
+    const report = await riskService.getPortfolioRisk(1, 100, 1);
+    expect(report.measures.every((m) => m.valueAtRisk === 0)).toBe(true);
+  });
+});
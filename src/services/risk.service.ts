@@ -0,0 +1,185 @@
+import { getInstrumentBySymbol } from '../models/instrument.model';
+import { getOrCreateAccount, getPositionsByUser } from '../models/portfolio.model';
+import stockSimulator from '../utils/stock-simulator';
+import marketDataService from './market-data.service';
+
+export const DEFAULT_RISK_PATHS = 2000;
+export const MAX_RISK_PATHS = 10000;
+export const DEFAULT_RISK_HORIZON_DAYS = 10;
+export const MAX_RISK_HORIZON_DAYS = 30;
+
+const CONFIDENCE_LEVELS = [0.95, 0.99];
+// Horizons always reported, whatever the requested horizon
+const REPORTED_HORIZONS = [1, 10];
+// Paths simulated between yields to the event loop
+const PATHS_PER_CHUNK = 250;
+const PERCENTILES = [1, 5, 10, 25, 50, 75, 90, 95, 99];
+const WORST_PATHS = 5;
+
+interface Holding {
+  symbol: string;
+  quantity: number;
+  price: number;
+  drift: number;
+  volatility: number;
+  sector?: string;
+}
+
+export interface RiskMeasure {
+  horizonDays: number;
+  confidence: number;
+  valueAtRisk: number;
+  conditionalValueAtRisk: number;
+}
+
+export interface RiskReport {
+  portfolioValue: number;
+  cashBalance: number;
+  paths: number;
+  horizonDays: number;
+  holdings: Array<Holding & { marketValue: number }>;
+  measures: RiskMeasure[];
+  percentiles: Array<{ percentile: number; pnl: number }>;
+  worstPaths: Array<{ finalPnl: number; values: number[] }>;
+}
+
+const round = (value: number): number => parseFloat(value.toFixed(2));
+
+/**
+ * Monte Carlo Value-at-Risk
+ * Each holding follows a GBM with the simulator's drift/volatility, stepped daily, with
+ * shocks correlated by sector as in the correlated price model. VaR is the loss not
+ * exceeded with the given confidence; CVaR (expected shortfall) is the average loss beyond it.
+ * 1-day and 10-day measures are always reported, so paths run at least 10 days; the
+ * percentiles and worst paths are for the requested horizon.
+ * The simulation yields to the event loop between chunks of paths so sockets and other
+ * requests keep being served during a large run.
+ */
+class RiskService {
+  async getPortfolioRisk(
+    userId: number,
+    paths: number = DEFAULT_RISK_PATHS,
+    horizonDays: number = DEFAULT_RISK_HORIZON_DAYS
+  ): Promise<RiskReport> {
+    const pathCount = Math.min(Math.max(Math.floor(paths), 100), MAX_RISK_PATHS);
+    const horizon = Math.min(Math.max(Math.floor(horizonDays), 1), MAX_RISK_HORIZON_DAYS);
+
+    const account = await getOrCreateAccount(userId);
+    const holdings = await this.loadHoldings(userId);
+    const cash = account.cash_balance;
+    const startValue = cash + holdings.reduce((sum, h) => sum + h.quantity * h.price, 0);
+
+    // values[p][d] = portfolio value of path p after day d + 1
+    const days = Math.max(horizon, ...REPORTED_HORIZONS);
+    const values = await this.simulate(holdings, cash, pathCount, days);
+
+    const reportHorizons = Array.from(new Set([...REPORTED_HORIZONS, horizon])).sort(
+      (a, b) => a - b
+    );
+    const measures: RiskMeasure[] = [];
+    for (const reported of reportHorizons) {
+      const pnl = values.map((path) => path[reported - 1] - startValue).sort((a, b) => a - b);
+      for (const confidence of CONFIDENCE_LEVELS) {
+        measures.push({ horizonDays: reported, confidence, ...this.tailRisk(pnl, confidence) });
+      }
+    }
+
+    const finalPnl = values.map((path, index) => ({ index, pnl: path[horizon - 1] - startValue }));
+    finalPnl.sort((a, b) => a.pnl - b.pnl);
+    const sortedPnl = finalPnl.map((entry) => entry.pnl);
+
+    return {
+      portfolioValue: round(startValue),
+      cashBalance: round(cash),
+      paths: pathCount,
+      horizonDays: horizon,
+      holdings: holdings.map((h) => ({ ...h, marketValue: round(h.quantity * h.price) })),
+      measures,
+      percentiles: PERCENTILES.map((percentile) => ({
+        percentile,
+        pnl: round(this.quantile(sortedPnl, percentile / 100)),
+      })),
+      worstPaths: finalPnl.slice(0, WORST_PATHS).map((entry) => ({
+        finalPnl: round(entry.pnl),
+        values: [startValue, ...values[entry.index].slice(0, horizon)].map(round),
+      })),
+    };
+  }
+
+  private async loadHoldings(userId: number): Promise<Holding[]> {
+    const positions = (await getPositionsByUser(userId)).filter((p) => p.quantity > 0);
+    if (positions.length === 0) return [];
+
+    const quotes = await marketDataService.getMultipleQuotes(positions.map((p) => p.symbol));
+
+    return Promise.all(
+      positions.map(async (position, i) => {
+        const instrument = await getInstrumentBySymbol(position.symbol);
+        const params = stockSimulator.getSymbolParameters(position.symbol, instrument?.sector);
+        return {
+          symbol: position.symbol,
+          quantity: position.quantity,
+          price: quotes[i].price,
+          drift: params.drift,
+          volatility: params.volatility,
+          sector: stockSimulator.getSymbolSector(position.symbol, instrument?.sector),
+        };
+      })
+    );
+  }
+
+  private async simulate(
+    holdings: Holding[],
+    cash: number,
+    paths: number,
+    horizon: number
+  ): Promise<number[][]> {
+    const dt = 1 / 252;
+    const cholesky = stockSimulator.choleskyDecompose(
+      stockSimulator.buildCorrelationMatrix(holdings.map((h) => h.sector))
+    );
+    const values: number[][] = [];
+
+    for (let p = 0; p < paths; p++) {
+      if (p > 0 && p % PATHS_PER_CHUNK === 0) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      let prices = holdings.map((h) => h.price);
+      const path: number[] = [];
+
+      for (let day = 0; day < horizon; day++) {
+        prices = stockSimulator.generateCorrelatedPrices(prices, holdings, cholesky, dt);
+        path.push(prices.reduce((value, price, h) => value + holdings[h].quantity * price, cash));
+      }
+      values.push(path);
+    }
+    return values;
+  }
+
+  // VaR/CVaR reported as positive loss amounts from an ascending P&L distribution
+  private tailRisk(
+    sortedPnl: number[],
+    confidence: number
+  ): { valueAtRisk: number; conditionalValueAtRisk: number } {
+    const cutoff = this.quantile(sortedPnl, 1 - confidence);
+    const tail = sortedPnl.filter((pnl) => pnl <= cutoff);
+    const tailMean = tail.reduce((sum, pnl) => sum + pnl, 0) / (tail.length || 1);
+
+    return {
+      valueAtRisk: round(Math.max(-cutoff, 0)),
+      conditionalValueAtRisk: round(Math.max(-tailMean, 0)),
+    };
+  }
+
+  // Linear-interpolated quantile of an ascending array
+  private quantile(sorted: number[], q: number): number {
+    if (sorted.length === 0) return 0;
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+}
+
+export default new RiskService();
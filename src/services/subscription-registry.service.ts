@@ -0,0 +1,118 @@
+import { Server as SocketIOServer } from 'socket.io';
+import redisClient from '../config/redis';
+import { INSTANCE_ID } from '../config/instance';
+
+// Instances re-announce themselves this often; one silent for REFS_TTL_MS is presumed dead
+const HEARTBEAT_MS = 10000;
+const REFS_TTL_MS = 30000;
+// Aggregated counts are re-read at most this often (indicator updates ask on every tick)
+const SNAPSHOT_MAX_AGE_MS = 1000;
+
+const INSTANCES_KEY = 'ws_instances';
+const refsKey = (instanceId: string) => `room_refs:${instanceId}`;
+
+// Rooms whose audience drives background work
+const TRACKED_PREFIXES = ['stock:', 'indicator:', 'book:', 'trades:'];
+const isTrackedRoom = (room: string) => TRACKED_PREFIXES.some((prefix) => room.startsWith(prefix));
+
+/**
+ * Cross-instance subscriber counts per room
+ * Each instance keeps `room_refs:<instance>` (room → local socket count) in step with its
+ * socket.io rooms: joins, leaves and disconnects update it, and a heartbeat rewrites it in
+ * full and extends its TTL. Live instances are scored by heartbeat time in `ws_instances`;
+ * a crashed instance stops heartbeating, its hash expires and it is pruned from the set,
+ * so its symbols stop counting as watched without anyone cleaning up after it.
+ */
+class SubscriptionRegistryService {
+  private io: SocketIOServer | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private snapshot: { at: number; counts: Map<string, number> } | null = null;
+
+  async start(io: SocketIOServer): Promise<void> {
+    this.io = io;
+    const adapter = io.of('/').adapter;
+
+    // Disconnects leave every room, so this also covers socket cleanup
+    adapter.on('join-room', (room: string) => this.syncRoom(room));
+    adapter.on('leave-room', (room: string) => this.syncRoom(room));
+
+    await this.beat();
+    this.heartbeat = setInterval(() => {
+      this.beat().catch((error) => console.error('Subscription heartbeat failed:', error));
+    }, HEARTBEAT_MS);
+    console.log(`Subscription registry started (instance ${INSTANCE_ID})`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    try {
+      await redisClient.multi().del(refsKey(INSTANCE_ID)).zRem(INSTANCES_KEY, INSTANCE_ID).exec();
+    } catch (error) {
+      console.error('Failed to clear subscription refs:', error);
+    }
+  }
+
+  // Total sockets in each tracked room across all live instances
+  async getRoomCounts(): Promise<Map<string, number>> {
+    if (this.snapshot && Date.now() - this.snapshot.at < SNAPSHOT_MAX_AGE_MS) {
+      return this.snapshot.counts;
+    }
+
+    const instances = await redisClient.zRangeByScore(
+      INSTANCES_KEY,
+      Date.now() - REFS_TTL_MS,
+      '+inf'
+    );
+    const hashes = await Promise.all(instances.map((id) => redisClient.hGetAll(refsKey(id))));
+
+    const counts = new Map<string, number>();
+    for (const hash of hashes) {
+      for (const [room, count] of Object.entries(hash)) {
+        counts.set(room, (counts.get(room) ?? 0) + Number(count));
+      }
+    }
+    this.snapshot = { at: Date.now(), counts };
+    return counts;
+  }
+
+  // Mirror the local size of one room into this instance's hash
+  private syncRoom(room: string): void {
+    if (!isTrackedRoom(room) || !this.io) return;
+    this.snapshot = null;
+
+    const size = this.io.of('/').adapter.rooms.get(room)?.size ?? 0;
+    const key = refsKey(INSTANCE_ID);
+    const update = size > 0 ? redisClient.hSet(key, room, size) : redisClient.hDel(key, room);
+    update.catch((error) => console.error(`Failed to update refs for ${room}:`, error));
+  }
+
+  /**
+   * Announce this instance and rewrite its refs from local rooms
+   * The full rewrite also repairs any update lost while Redis was unreachable
+   */
+  private async beat(): Promise<void> {
+    if (!this.io) return;
+    const now = Date.now();
+    const key = refsKey(INSTANCE_ID);
+
+    const refs: Record<string, number> = {};
+    for (const [room, sockets] of this.io.of('/').adapter.rooms) {
+      if (isTrackedRoom(room) && sockets.size > 0) refs[room] = sockets.size;
+    }
+
+    const multi = redisClient
+      .multi()
+      .zAdd(INSTANCES_KEY, { score: now, value: INSTANCE_ID })
+      .zRemRangeByScore(INSTANCES_KEY, '-inf', now - REFS_TTL_MS)
+      .del(key);
+    if (Object.keys(refs).length > 0) {
+      multi.hSet(key, refs).pExpire(key, REFS_TTL_MS);
+    }
+    await multi.exec();
+  }
+}
+
+export default new SubscriptionRegistryService();
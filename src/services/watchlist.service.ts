@@ -0,0 +1,108 @@
+import {
+  Watchlist,
+  getWatchlistsByUser,
+  getWatchlistById,
+  insertWatchlist,
+  renameWatchlist,
+  deleteWatchlist,
+  addWatchlistSymbols,
+  removeWatchlistSymbol,
+} from '../models/watchlist.model';
+import marketDataService from './market-data.service';
+
+const MAX_SYMBOLS_PER_WATCHLIST = 50;
+
+class WatchlistService {
+  async getWatchlists(userId: number): Promise<Watchlist[]> {
+    return getWatchlistsByUser(userId);
+  }
+
+  async getWatchlist(userId: number, watchlistId: number): Promise<Watchlist> {
+    const watchlist = await getWatchlistById(watchlistId, userId);
+    if (!watchlist) {
+      throw new Error('Watchlist not found');
+    }
+    return watchlist;
+  }
+
+  async createWatchlist(userId: number, name: string, symbols: string[] = []): Promise<Watchlist> {
+    const validated = await this.validateSymbols(symbols);
+
+    try {
+      const watchlistId = await insertWatchlist(userId, name);
+      await addWatchlistSymbols(watchlistId, validated);
+      return this.getWatchlist(userId, watchlistId);
+    } catch (error) {
+      throw this.mapUniqueViolation(error);
+    }
+  }
+
+  async renameWatchlist(userId: number, watchlistId: number, name: string): Promise<Watchlist> {
+    try {
+      const updated = await renameWatchlist(watchlistId, userId, name);
+      if (!updated) {
+        throw new Error('Watchlist not found');
+      }
+      return this.getWatchlist(userId, watchlistId);
+    } catch (error) {
+      throw this.mapUniqueViolation(error);
+    }
+  }
+
+  async deleteWatchlist(userId: number, watchlistId: number): Promise<void> {
+    const deleted = await deleteWatchlist(watchlistId, userId);
+    if (!deleted) {
+      throw new Error('Watchlist not found');
+    }
+  }
+
+  async addSymbols(userId: number, watchlistId: number, symbols: string[]): Promise<Watchlist> {
+    const watchlist = await this.getWatchlist(userId, watchlistId);
+    const validated = await this.validateSymbols(symbols);
+
+    const combined = new Set([...watchlist.symbols, ...validated]);
+    if (combined.size > MAX_SYMBOLS_PER_WATCHLIST) {
+      throw new Error(`A watchlist can hold at most ${MAX_SYMBOLS_PER_WATCHLIST} symbols`);
+    }
+
+    await addWatchlistSymbols(watchlistId, validated);
+    return this.getWatchlist(userId, watchlistId);
+  }
+
+  async removeSymbol(userId: number, watchlistId: number, symbol: string): Promise<Watchlist> {
+    await this.getWatchlist(userId, watchlistId);
+    const removed = await removeWatchlistSymbol(watchlistId, symbol);
+    if (!removed) {
+      throw new Error(`Symbol ${symbol.toUpperCase()} not found in watchlist`);
+    }
+    return this.getWatchlist(userId, watchlistId);
+  }
+
+  // Every symbol must resolve to a known instrument
+  private async validateSymbols(symbols: string[]): Promise<string[]> {
+    const unique = Array.from(new Set(symbols.map((s) => s.toUpperCase())));
+    if (unique.length > MAX_SYMBOLS_PER_WATCHLIST) {
+      throw new Error(`A watchlist can hold at most ${MAX_SYMBOLS_PER_WATCHLIST} symbols`);
+    }
+
+    const instruments = await Promise.all(
+      unique.map((symbol) => marketDataService.resolveInstrument(symbol))
+    );
+    const unknown = unique.filter((_, index) => !instruments[index]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown symbol(s): ${unknown.join(', ')}`);
+    }
+
+    return unique;
+  }
+
+  // Postgres unique_violation on (user_id, name)
+  private mapUniqueViolation(error: unknown): unknown {
+    if ((error as { code?: string })?.code === '23505') {
+      return new Error('A watchlist with this name already exists');
+    }
+    return error;
+  }
+}
+
+export default new WatchlistService();
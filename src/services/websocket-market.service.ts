@@ -1,129 +1,568 @@
 import { Server as SocketIOServer } from 'socket.io';
+import { z } from 'zod';
 import { AuthenticatedSocket } from '../config/websocket';
-import marketDataService from './market-data.service';
-import redisClient from '../config/redis';
+import marketDataService, { Quote } from './market-data.service';
+import subscriptionRegistry from './subscription-registry.service';
+import orderBookService from './order-book.service';
+import priceRecorderService from './price-recorder.service';
+import replayService, { MAX_REPLAYS_PER_SOCKET } from './replay.service';
+import { getWatchlistById } from '../models/watchlist.model';
+import { getInactiveSymbols } from '../models/instrument.model';
+import { DEFAULT_PERIODS } from '../utils/indicators';
+import { PriceStream, PriceStreamOptions, MAX_UPDATES_PER_SECOND } from '../utils/price-stream';
+import { OrderBookSnapshot, OrderBookUpdate, Trade } from '../utils/order-book';
+import { MarketEvent } from './market-scenario.service';
+import {
+  clientMessageSchemas,
+  AckMessage,
+  AckResults,
+  ClientEvent,
+  ErrorMessage,
+  InstrumentDeactivatedMessage,
+  ParsedClientMessage,
+  SocketErrorCode,
+} from '../protocol/market-socket';
+
+// Distinct symbols one user may stream at once (prices, depth or tape), across all their
+// sockets and nodes
+const MAX_SYMBOLS_PER_USER = parseInt(process.env.MAX_SYMBOLS_PER_USER || '100', 10);
+
+// Failure a handler reports back to the client as an `error` message
+class SocketRequestError extends Error {
+  constructor(
+    readonly code: SocketErrorCode,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'SocketRequestError';
+  }
+}
+
+// Rooms that stream a symbol and count towards the per-user cap
+const SYMBOL_ROOM_PREFIXES = ['stock:', 'book:', 'trades:'];
+
+type Handler<E extends ClientEvent> = (
+  data: ParsedClientMessage<E>
+) => Promise<AckResults[E]> | AckResults[E];
 
 class WebSocketMarketService {
   private io: SocketIOServer | null = null;
-  private subscribedSymbols: Set<string> = new Set();
-  private redisSubscriber = redisClient.duplicate(); // Separate connection for subscribing
+  // socket id → symbol → that socket's price stream
+  private streams: Map<string, Map<string, PriceStream>> = new Map();
+  // Latest tick per symbol seen by this node, for resyncs
+  private latestQuotes: Map<string, Quote> = new Map();
 
   async initialize(io: SocketIOServer): Promise<void> {
     this.io = io;
-    await this.redisSubscriber.connect();
-    console.log('Redis subscriber connected');
+    await subscriptionRegistry.start(io);
 
-    this.redisSubscriber.on('message', (channel, message) => {
-      try {
-        const data = JSON.parse(message);
-        this.io?.to(channel).emit('price_update', data);
-      } catch (error) {
-        console.error('Error processing Redis message:', error);
-      }
-    });
+    // Ticks published on other nodes, relayed by the Redis adapter
+    io.on('price_update', (symbol: string, quote: Quote) => this.deliverLocal(symbol, quote));
+    // Symbols deactivated through another node
+    io.on('instrument_deactivated', (symbol: string) => this.dropLocal(symbol));
 
     io.on('connection', (socket: AuthenticatedSocket) => {
       this.handleSocketConnection(socket);
     });
   }
 
-  private async addActiveSymbol(symbol: string): Promise<void> {
-    await redisClient.sAdd('active_symbols', symbol);
+  async shutdown(): Promise<void> {
+    replayService.shutdown();
+    await subscriptionRegistry.stop();
   }
 
-  private async removeActiveSymbol(symbol: string): Promise<void> {
-    await redisClient.sRem('active_symbols', symbol);
+  // Streamed indicators per symbol, as `type:period:interval` keys
+  async getActiveIndicators(symbol: string): Promise<string[]> {
+    try {
+      const prefix = `indicator:${symbol}:`;
+      const counts = await subscriptionRegistry.getRoomCounts();
+      return Array.from(counts.keys())
+        .filter((room) => room.startsWith(prefix))
+        .map((room) => room.slice(prefix.length));
+    } catch (error) {
+      console.error(`Failed to get active indicators for ${symbol}:`, error);
+      return [];
+    }
   }
 
+  // Symbols with at least one subscribed socket (prices, depth or tape) on any instance
   async getActiveSymbols(): Promise<string[]> {
     try {
-      const symbols = await redisClient.sMembers('active_symbols');
-      return symbols;
+      const counts = await subscriptionRegistry.getRoomCounts();
+      const symbols = new Set<string>();
+      for (const room of counts.keys()) {
+        const prefix = SYMBOL_ROOM_PREFIXES.find((candidate) => room.startsWith(candidate));
+        if (prefix) symbols.add(room.slice(prefix.length));
+      }
+      return Array.from(symbols);
     } catch (error) {
       console.error('Failed to get active symbols:', error);
       return [];
     }
   }
 
-  // Update the subscribe handler:
-  private handleSocketConnection(socket: AuthenticatedSocket): void {
-    socket.on('subscribe', async (data: { symbol: string }) => {
+  // Subscribed sockets per symbol across all instances
+  async getSubscriberCounts(symbols: string[]): Promise<Map<string, number>> {
+    try {
+      const counts = await subscriptionRegistry.getRoomCounts();
+      return new Map(symbols.map((symbol) => [symbol, counts.get(`stock:${symbol}`) ?? 0]));
+    } catch (error) {
+      console.error('Failed to get subscriber counts:', error);
+      return new Map();
+    }
+  }
+
+  // Join the stock room; the subscription registry tells the price updater someone is watching
+  // Explicit stream options replace the socket's current ones; otherwise existing are kept
+  private async joinSymbolRoom(
+    socket: AuthenticatedSocket,
+    symbol: string,
+    options?: PriceStreamOptions
+  ): Promise<string> {
+    const room = `stock:${symbol}`;
+
+    socket.join(room);
+    this.openStream(socket, symbol, options);
+    console.log(`User ${socket.userId} subscribed to ${symbol}`);
+    return room;
+  }
+
+  private openStream(
+    socket: AuthenticatedSocket,
+    symbol: string,
+    options?: PriceStreamOptions
+  ): PriceStream {
+    let socketStreams = this.streams.get(socket.id);
+    if (!socketStreams) {
+      socketStreams = new Map();
+      this.streams.set(socket.id, socketStreams);
+    }
+
+    const existing = socketStreams.get(symbol);
+    if (existing && !options) return existing;
+    existing?.close();
+
+    const stream = new PriceStream(
+      options ?? { delta: false, maxUpdatesPerSecond: null },
+      (event, payload) => socket.emit(event, payload)
+    );
+    socketStreams.set(symbol, stream);
+    return stream;
+  }
+
+  private closeStream(socketId: string, symbol?: string): void {
+    const socketStreams = this.streams.get(socketId);
+    if (!socketStreams) return;
+
+    for (const [streamSymbol, stream] of socketStreams) {
+      if (symbol && streamSymbol !== symbol) continue;
+      stream.close();
+      socketStreams.delete(streamSymbol);
+    }
+    if (socketStreams.size === 0) this.streams.delete(socketId);
+  }
+
+  private streamOptions(data: { delta?: boolean; maxUpdatesPerSecond?: number }): PriceStreamOptions {
+    const rate = data.maxUpdatesPerSecond;
+    return {
+      delta: data.delta ?? false,
+      maxUpdatesPerSecond: rate === undefined ? null : Math.min(rate, MAX_UPDATES_PER_SECOND),
+    };
+  }
+
+  // Reject a subscription that would take the user past MAX_SYMBOLS_PER_USER distinct symbols
+  // Counts every socket the user has open, on any node (fetchSockets goes through the adapter)
+  private async checkSymbolLimit(socket: AuthenticatedSocket, symbols: string[]): Promise<void> {
+    const subscribed = new Set<string>();
+    const sockets = this.io ? await this.io.in(`user:${socket.userId}`).fetchSockets() : [];
+    for (const userSocket of [...sockets, socket]) {
+      for (const room of userSocket.rooms) {
+        const prefix = SYMBOL_ROOM_PREFIXES.find((candidate) => room.startsWith(candidate));
+        if (prefix) subscribed.add(room.slice(prefix.length));
+      }
+    }
+
+    const added = symbols.filter((symbol) => !subscribed.has(symbol));
+    if (subscribed.size + added.length > MAX_SYMBOLS_PER_USER) {
+      throw new SocketRequestError(
+        'SUBSCRIPTION_LIMIT',
+        `Subscribing would exceed ${MAX_SYMBOLS_PER_USER} symbols per user`,
+        { limit: MAX_SYMBOLS_PER_USER, subscribed: subscribed.size, requested: added.length }
+      );
+    }
+  }
+
+  // Deactivated instruments can't be streamed (symbols we have no record of still can)
+  private async checkActive(symbols: string[]): Promise<void> {
+    const inactive = await getInactiveSymbols(symbols);
+    if (inactive.length > 0) {
+      throw new SocketRequestError('NOT_FOUND', `Not an active instrument: ${inactive.join(', ')}`, {
+        symbols: inactive,
+      });
+    }
+  }
+
+  // Subscribe to each symbol and send its initial price (a snapshot in delta mode)
+  private async subscribeSymbols(
+    socket: AuthenticatedSocket,
+    symbols: string[],
+    options: PriceStreamOptions
+  ): Promise<void> {
+    await this.checkActive(symbols);
+    await this.checkSymbolLimit(socket, symbols);
+    for (const symbol of symbols) {
+      await this.joinSymbolRoom(socket, symbol, options);
+    }
+
+    const quotes = await marketDataService.getMultipleQuotes(symbols);
+    quotes.forEach((quote) => this.openStream(socket, quote.symbol).push(quote));
+  }
+
+  // Leave `<prefix><SYMBOL>` rooms; symbols the socket wasn't in are reported back
+  private leaveSymbolRooms(
+    socket: AuthenticatedSocket,
+    prefix: string,
+    requested: string[]
+  ): { symbols: string[]; notSubscribed: string[] } {
+    const symbols: string[] = [];
+    const notSubscribed: string[] = [];
+
+    for (const symbol of requested) {
+      const room = `${prefix}${symbol}`;
+      if (!socket.rooms.has(room)) {
+        notSubscribed.push(symbol);
+        continue;
+      }
+      // Leaving updates the shared refcount
+      socket.leave(room);
+      symbols.push(symbol);
+    }
+    return { symbols, notSubscribed };
+  }
+
+  /**
+   * Register a protocol handler: validates the payload against its schema, then answers
+   * with `ack` or `error` carrying the client's requestId (and through the socket.io ack
+   * callback, if the client passed one)
+   */
+  private handle<E extends ClientEvent>(
+    socket: AuthenticatedSocket,
+    event: E,
+    handler: Handler<E>
+  ): void {
+    socket.on(event as string, async (raw: unknown, callback?: unknown) => {
+      const requestId =
+        raw && typeof raw === 'object' && typeof (raw as { requestId?: unknown }).requestId === 'string'
+          ? (raw as { requestId: string }).requestId
+          : undefined;
+
+      const respond = (message: AckMessage<E> | ErrorMessage) => {
+        socket.emit(message.ok ? 'ack' : 'error', message);
+        if (typeof callback === 'function') callback(message);
+      };
+
       try {
-        const symbol = data.symbol.toUpperCase();
-        const room = `stock:${symbol}`;
-
-        socket.join(room);
-        console.log(`User ${socket.userId} subscribed to ${symbol}`);
-        // If this is the first subscriber to this symbol
-        if (!this.subscribedSymbols.has(symbol)) {
-          await this.redisSubscriber.subscribe(room, (message) => {});
-          this.subscribedSymbols.add(symbol);
-          
-          // Track in Redis so background job knows to fetch prices
-          await this.addActiveSymbol(symbol);
-          console.log(`Subscribed to Redis channel: ${room}`);
+        const data = clientMessageSchemas[event].parse(raw ?? {}) as ParsedClientMessage<E>;
+        const result = await handler(data);
+        respond({ requestId, event, ok: true, result });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          respond({
+            requestId,
+            event,
+            ok: false,
+            code: 'INVALID_MESSAGE',
+            message: `Invalid ${event} message`,
+            details: error.issues,
+          });
+        } else if (error instanceof SocketRequestError) {
+          respond({
+            requestId,
+            event,
+            ok: false,
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          });
+        } else {
+          console.error(`WebSocket ${event} error:`, error);
+          respond({ requestId, event, ok: false, code: 'INTERNAL_ERROR', message: `Failed to handle ${event}` });
         }
+      }
+    });
+  }
+
+  private handleSocketConnection(socket: AuthenticatedSocket): void {
+    // One or many symbols; optional delivery options: { delta: true } for snapshot + deltas,
+    // { maxUpdatesPerSecond: 1 } to conflate faster ticks
+    this.handle(socket, 'subscribe', async (data) => {
+      const options = this.streamOptions(data);
+      await this.subscribeSymbols(socket, data.symbols, options);
+      return { symbols: data.symbols, options };
+    });
 
-        // Send initial price immediately
-        const quote = await marketDataService.getQuote(symbol);
-        socket.emit('price_update', quote);
-        socket.emit('subscribed', { symbol, room });
+    // Join every stock room of a saved watchlist in one call
+    this.handle(socket, 'subscribe_watchlist', async (data) => {
+      if (!socket.userId) throw new SocketRequestError('UNAUTHORIZED', 'Unauthorized');
 
-      } catch (error) {
-        console.error('Subscribe error:', error);
-        socket.emit('error', { message: 'Failed to subscribe to symbol' });
+      const watchlist = await getWatchlistById(data.watchlistId, socket.userId);
+      if (!watchlist) throw new SocketRequestError('NOT_FOUND', 'Watchlist not found');
+
+      const options = this.streamOptions(data);
+      await this.subscribeSymbols(socket, watchlist.symbols, options);
+      return { watchlistId: watchlist.id, symbols: watchlist.symbols, options };
+    });
+
+    this.handle(socket, 'unsubscribe', (data) => {
+      const result = this.leaveSymbolRooms(socket, 'stock:', data.symbols);
+      result.symbols.forEach((symbol) => this.closeStream(socket.id, symbol));
+      console.log(`User ${socket.userId} unsubscribed from ${result.symbols.join(', ') || 'nothing'}`);
+
+      return result;
+    });
+
+    // Stream an indicator alongside price_update (also subscribes to the symbol)
+    this.handle(socket, 'subscribe_indicator', async (data) => {
+      const key = this.indicatorKey(data);
+      if (!socket.rooms.has(`stock:${data.symbol}`)) {
+        await this.checkActive([data.symbol]);
+        await this.checkSymbolLimit(socket, [data.symbol]);
       }
+      await this.joinSymbolRoom(socket, data.symbol);
+      socket.join(`indicator:${data.symbol}:${key}`);
+
+      return { symbol: data.symbol, indicator: key };
     });
 
-    socket.on('unsubscribe', async (data: { symbol: string }) => {
-      try {
-        const symbol = data.symbol.toUpperCase();
-        const room = `stock:${symbol}`;
-
-        socket.leave(room);
-        console.log(`User ${socket.userId} unsubscribed from ${symbol}`);
-
-        // Check if any other sockets are still in this room
-        const socketsInRoom = await this.io?.in(room).fetchSockets();
-        
-        // If no one else is subscribed, unsubscribe from Redis
-        if (!socketsInRoom || socketsInRoom.length === 0) {
-          await this.redisSubscriber.unsubscribe(room);
-          this.subscribedSymbols.delete(symbol);
-          // Remove from active symbols
-          await this.removeActiveSymbol(symbol);
-          console.log(`Unsubscribed from Redis channel: ${room}`);
-        }
+    this.handle(socket, 'unsubscribe_indicator', (data) => {
+      const key = this.indicatorKey(data);
+      const room = `indicator:${data.symbol}:${key}`;
+      if (!socket.rooms.has(room)) {
+        throw new SocketRequestError('NOT_SUBSCRIBED', `Not subscribed to ${data.symbol} ${key}`);
+      }
+      socket.leave(room);
 
-        socket.emit('unsubscribed', { symbol });
+      return { symbol: data.symbol, indicator: key };
+    });
 
-      } catch (error) {
-        console.error('Unsubscribe error:', error);
-        socket.emit('error', { message: 'Failed to unsubscribe from symbol' });
+    // Depth: the current book, then level diffs broadcast to `book:<SYMBOL>`
+    this.handle(socket, 'subscribe_book', async (data) => {
+      await this.checkActive(data.symbols);
+      await this.checkSymbolLimit(socket, data.symbols);
+      for (const symbol of data.symbols) {
+        socket.join(`book:${symbol}`);
+        // Nothing stored yet (no ticks, e.g. the market is closed): a preview around the
+        // last quote, replaced by the leader's snapshot when its book starts ticking
+        socket.emit('book_snapshot', await orderBookService.getSnapshotOrPreview(symbol));
+      }
+      return { symbols: data.symbols };
+    });
+
+    // Client saw a gap in the book's `seq`: send the current stored book again
+    this.handle(socket, 'resync_book', async (data) => {
+      if (!socket.rooms.has(`book:${data.symbol}`)) {
+        throw new SocketRequestError('NOT_SUBSCRIBED', `Not subscribed to ${data.symbol} depth`);
+      }
+      const snapshot = await orderBookService.getSnapshotOrPreview(data.symbol);
+      socket.emit('book_snapshot', snapshot);
+      return { symbol: data.symbol, seq: snapshot.seq };
+    });
+
+    this.handle(socket, 'unsubscribe_book', (data) =>
+      this.leaveSymbolRooms(socket, 'book:', data.symbols)
+    );
+
+    // Time and sales: the recent tape, then new prints broadcast to `trades:<SYMBOL>`
+    this.handle(socket, 'subscribe_trades', async (data) => {
+      await this.checkActive(data.symbols);
+      await this.checkSymbolLimit(socket, data.symbols);
+      for (const symbol of data.symbols) {
+        socket.join(`trades:${symbol}`);
+        const trades = await orderBookService.getRecentTrades(symbol);
+        socket.emit('trades_snapshot', { symbol, trades: trades.reverse() });
+      }
+      return { symbols: data.symbols };
+    });
+
+    this.handle(socket, 'unsubscribe_trades', (data) =>
+      this.leaveSymbolRooms(socket, 'trades:', data.symbols)
+    );
+
+    // Client saw a gap in `seq`: send a fresh snapshot and restart deltas from it
+    this.handle(socket, 'resync', async (data) => {
+      const stream = this.streams.get(socket.id)?.get(data.symbol);
+      if (!stream) {
+        throw new SocketRequestError('NOT_SUBSCRIBED', `Not subscribed to ${data.symbol}`);
+      }
+
+      const quote =
+        this.latestQuotes.get(data.symbol) ?? (await marketDataService.getQuote(data.symbol));
+      stream.resync(quote);
+      return { symbol: data.symbol, seq: stream.getSeq() };
+    });
+
+    this.handle(socket, 'start_replay', (data) => {
+      // Replays that played to the end are let go once another is started
+      replayService
+        .removeEndedOwnedBy(socket.id)
+        .forEach((session) => session.rooms.forEach((room) => socket.leave(room)));
+      if (replayService.countOwnedBy(socket.id) >= MAX_REPLAYS_PER_SOCKET) {
+        throw new SocketRequestError(
+          'SUBSCRIPTION_LIMIT',
+          `At most ${MAX_REPLAYS_PER_SOCKET} replays per connection`
+        );
       }
+
+      const session = replayService.start(socket.id, data, (rooms, event, payload) =>
+        this.io?.to(rooms).emit(event, payload)
+      );
+      // Join before the first tick is read from the database
+      session.rooms.forEach((room) => socket.join(room));
+      return { ...session.status(), rooms: session.rooms };
+    });
+
+    // Only the socket that started a replay controls it
+    this.handle(socket, 'replay_control', (data) => {
+      const session = replayService.get(data.replayId, socket.id);
+      if (!session) throw new SocketRequestError('NOT_FOUND', 'Replay not found');
+
+      switch (data.action) {
+        case 'play':
+          session.play();
+          break;
+        case 'pause':
+          session.pause();
+          break;
+        case 'seek':
+          session.seek(data.position.getTime());
+          break;
+        case 'speed':
+          session.setSpeed(data.speed);
+          break;
+        case 'stop':
+          replayService.stop(session.id);
+          session.rooms.forEach((room) => socket.leave(room));
+          break;
+      }
+      return session.status();
     });
 
-    socket.on('get_subscriptions', () => {
-      // Get all rooms this socket is in (excluding the default room which is the socket ID)
-      const rooms = Array.from(socket.rooms).filter(room => room !== socket.id);
+    this.handle(socket, 'get_subscriptions', () => {
+      // Get all stock rooms this socket is in (excluding the socket ID and user rooms)
+      const rooms = Array.from(socket.rooms).filter(room => room.startsWith('stock:'));
       const symbols = rooms.map(room => room.replace('stock:', ''));
-      socket.emit('subscriptions', { symbols });
+      const indicators = Array.from(socket.rooms)
+        .filter(room => room.startsWith('indicator:'))
+        .map(room => room.replace('indicator:', ''));
+      const books = Array.from(socket.rooms)
+        .filter(room => room.startsWith('book:'))
+        .map(room => room.replace('book:', ''));
+      const trades = Array.from(socket.rooms)
+        .filter(room => room.startsWith('trades:'))
+        .map(room => room.replace('trades:', ''));
+      const replays = Array.from(socket.rooms)
+        .filter(room => room.startsWith('replay:'))
+        .map(room => room.replace('replay:', ''));
+      const streams = Array.from(this.streams.get(socket.id) ?? []).map(([symbol, stream]) => ({
+        symbol,
+        ...stream.options,
+      }));
+      return { symbols, indicators, books, trades, replays, streams, limit: MAX_SYMBOLS_PER_USER };
     });
 
+    // socket.io removes the socket from all its rooms, which releases its refcounts
     socket.on('disconnect', async () => {
+      this.closeStream(socket.id);
+      replayService.stopOwnedBy(socket.id);
       console.log(`User ${socket.userId} disconnected from market data`);
     });
   }
   
-  async publishPriceUpdate(symbol: string, quote: any): Promise<void> {
+  async publishPriceUpdate(symbol: string, quote: Quote): Promise<void> {
     try {
-      const room = `stock:${symbol}`;
-      // All WebSocket servers subscribed to this channel will receive it
-      await redisClient.publish(room, JSON.stringify(quote));
+      // Deliver here, and have every other node deliver to its own sockets
+      // (each socket has its own rate limit and format, so this can't be a room broadcast)
+      this.deliverLocal(symbol, quote);
+      this.io?.serverSideEmit('price_update', symbol, quote);
+      // Keep what clients were sent so the session can be replayed
+      priceRecorderService.record(symbol, quote);
     } catch (error) {
       console.error(`Failed to publish price update for ${symbol}:`, error);
     }
   }
+
+  private deliverLocal(symbol: string, quote: Quote): void {
+    this.latestQuotes.set(symbol, quote);
+    const socketIds = this.io?.of('/').adapter.rooms.get(`stock:${symbol}`);
+    if (!socketIds) return;
+
+    for (const socketId of socketIds) {
+      this.streams.get(socketId)?.get(symbol)?.push(quote);
+    }
+  }
+
+  publishIndicatorUpdate(symbol: string, key: string, payload: unknown): void {
+    this.io?.to(`indicator:${symbol}:${key}`).emit('indicator_update', payload);
+  }
+
+  // Depth and tape are the same for every subscriber, so these are plain room broadcasts
+  publishOrderBookSnapshot(symbol: string, snapshot: OrderBookSnapshot): void {
+    this.io?.to(`book:${symbol}`).emit('book_snapshot', snapshot);
+  }
+
+  publishOrderBookUpdate(symbol: string, update: OrderBookUpdate): void {
+    this.io?.to(`book:${symbol}`).emit('book_update', update);
+  }
+
+  publishTrades(symbol: string, trades: Trade[]): void {
+    if (trades.length === 0) return;
+    this.io?.to(`trades:${symbol}`).emit('trades', { symbol, trades });
+  }
+
+  // Normalize an indicator subscription to its `type:period:interval` key
+  private indicatorKey(data: ParsedClientMessage<'subscribe_indicator'>): string {
+    const period = data.period ?? DEFAULT_PERIODS[data.type];
+    return `${data.type}:${period}:${data.interval}`;
+  }
+
+  /**
+   * Unsubscribe everyone from a deactivated (or renamed) symbol
+   * Subscribers are told first, then removed from its price, indicator, depth and tape
+   * rooms on every node, which drops it from the active symbols the price updater polls.
+   */
+  async removeSymbol(symbol: string, replacedBy?: string): Promise<void> {
+    if (!this.io) return;
+    const rooms = SYMBOL_ROOM_PREFIXES.map((prefix) => `${prefix}${symbol}`);
+    const indicatorRooms = (await this.getActiveIndicators(symbol)).map(
+      (key) => `indicator:${symbol}:${key}`
+    );
+
+    const message: InstrumentDeactivatedMessage = { symbol, replacedBy, timestamp: Date.now() };
+    this.io.to(rooms).emit('instrument_deactivated', message);
+    this.io.in([...rooms, ...indicatorRooms]).socketsLeave([...rooms, ...indicatorRooms]);
+
+    this.dropLocal(symbol);
+    this.io.serverSideEmit('instrument_deactivated', symbol);
+  }
+
+  // Close this node's price streams for a symbol
+  private dropLocal(symbol: string): void {
+    this.latestQuotes.delete(symbol);
+    for (const socketId of Array.from(this.streams.keys())) {
+      this.closeStream(socketId, symbol);
+    }
+  }
+
+  // Scenario starts and ends (halts, gaps, volatility) go to every connected client
+  broadcastMarketEvent(event: MarketEvent): void {
+    this.io?.emit('market_event', event);
+  }
+
+  // Push an account-level event to every socket the user has open
+  emitToUser(userId: number, event: string, payload: unknown): void {
+    this.io?.to(`user:${userId}`).emit(event, payload);
+  }
 }
 
 export default new WebSocketMarketService();
\ No newline at end of file
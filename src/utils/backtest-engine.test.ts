@@ -0,0 +1,78 @@
+import { runBacktest, BacktestBar, StrategyDefinition } from './backtest-engine';
+
+const options = { initialCapital: 1000, commissionPercent: 0, barsPerYear: 252 };
+
+function bars(closes: number[]): BacktestBar[] {
+  return closes.map((close, time) => ({ time, high: close, low: close, close }));
+}
+
+// Buy when the price is above 10, sell when it is back below
+const breakout: StrategyDefinition = {
+  indicators: {},
+  entry: { all: [{ left: 'price', op: '>', right: 10 }] },
+  exit: { all: [{ left: 'price', op: '<', right: 10 }] },
+};
+
+describe('runBacktest', () => {
+  it('enters and exits on the rules, filling at the bar close', () => {
+    const result = runBacktest(bars([9, 11, 12, 9, 8]), breakout, options);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({
+      entryTime: 1,
+      entryPrice: 11,
+      exitTime: 3,
+      exitPrice: 9,
+      exitReason: 'signal',
+      pnl: -181.82,
+    });
+    expect(result.metrics.finalEquity).toBe(818.18);
+    expect(result.metrics.winRate).toBe(0);
+  });
+
+  it('closes an open position at the end of the data', () => {
+    const result = runBacktest(bars([9, 11, 22]), breakout, options);
+
+    expect(result.trades[0]).toMatchObject({ exitReason: 'end_of_data', pnl: 1000 });
+    expect(result.metrics.totalReturnPercent).toBe(100);
+    expect(result.metrics.winRate).toBe(100);
+  });
+
+  it('does not enter on the last bar', () => {
+    const result = runBacktest(bars([9, 9, 11]), breakout, options);
+    expect(result.trades).toHaveLength(0);
+    expect(result.metrics.finalEquity).toBe(1000);
+  });
+
+  it('stops out before checking the exit rules', () => {
+    const strategy = { ...breakout, stopLossPercent: 5 };
+    const result = runBacktest(bars([11, 12, 10.4, 10.3]), strategy, options);
+    expect(result.trades[0]).toMatchObject({ exitTime: 2, exitReason: 'stop_loss' });
+  });
+
+  it('charges commission on both sides', () => {
+    const result = runBacktest(bars([11, 11, 11]), breakout, {
+      ...options,
+      commissionPercent: 1,
+    });
+    // Buys 1000 / (11 * 1.01) shares, sells them for 99% of their value
+    expect(result.metrics.finalEquity).toBeCloseTo(980.2, 1);
+  });
+
+  it('detects crossovers between indicators', () => {
+    const strategy: StrategyDefinition = {
+      indicators: { fast: { type: 'sma', period: 1 }, slow: { type: 'sma', period: 3 } },
+      entry: { all: [{ left: 'fast', op: 'crosses_above', right: 'slow' }] },
+      exit: { all: [{ left: 'fast', op: 'crosses_below', right: 'slow' }] },
+    };
+    const result = runBacktest(bars([10, 10, 10, 12, 13, 9, 9]), strategy, options);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ entryTime: 3, exitTime: 5, exitReason: 'signal' });
+  });
+
+  it('measures the largest peak-to-trough drawdown', () => {
+    const result = runBacktest(bars([11, 22, 11, 16.5]), breakout, options);
+    expect(result.metrics.maxDrawdownPercent).toBe(50);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Backtest engine
+ * Replays a declarative long-only strategy over a bar series and reports
+ * trades, the equity curve and summary statistics.
+ *
+ * Strategy rules compare operands bar by bar:
+ * - a named indicator from `strategy.indicators` (e.g. "fast"), or a field of a
+ *   composite one (e.g. "macd.signal", "bands.lower")
+ * - "price" (the bar close)
+ * - a number literal
+ *
+ * Signals are evaluated on each bar's close and filled at that close.
+ */
+
+import {
+  IndicatorType,
+  IndicatorValue,
+  DEFAULT_PERIODS,
+  OHLCVBar,
+  computeIndicator,
+} from './indicators';
+
+export type RuleOperator = '>' | '<' | '>=' | '<=' | 'crosses_above' | 'crosses_below';
+
+export interface StrategyRule {
+  left: string | number;
+  op: RuleOperator;
+  right: string | number;
+}
+
+// Either all rules must hold, or any one of them
+export type RuleGroup = { all: StrategyRule[] } | { any: StrategyRule[] };
+
+export interface StrategyDefinition {
+  name?: string;
+  indicators: Record<string, { type: IndicatorType; period?: number }>;
+  entry: RuleGroup;
+  exit: RuleGroup;
+  stopLossPercent?: number;
+  takeProfitPercent?: number;
+  positionSizePercent?: number;
+}
+
+export interface BacktestBar extends OHLCVBar {
+  time: number;
+}
+
+export interface BacktestOptions {
+  initialCapital: number;
+  commissionPercent: number;
+  barsPerYear: number;
+}
+
+export interface BacktestTrade {
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  quantity: number;
+  pnl: number;
+  returnPercent: number;
+  exitReason: 'signal' | 'stop_loss' | 'take_profit' | 'end_of_data';
+}
+
+export interface BacktestMetrics {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturnPercent: number;
+  maxDrawdownPercent: number;
+  sharpeRatio: number;
+  winRate: number;
+  tradeCount: number;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  equityCurve: Array<{ time: number; equity: number }>;
+  metrics: BacktestMetrics;
+}
+
+type SeriesMap = Record<string, Array<IndicatorValue | null>>;
+
+const round = (value: number, digits: number = 2): number => parseFloat(value.toFixed(digits));
+
+export function runBacktest(
+  bars: BacktestBar[],
+  strategy: StrategyDefinition,
+  options: BacktestOptions
+): BacktestResult {
+  const series = computeSeries(bars, strategy);
+  const sizeFraction = (strategy.positionSizePercent ?? 100) / 100;
+  const commission = options.commissionPercent / 100;
+
+  let cash = options.initialCapital;
+  let quantity = 0;
+  let entryPrice = 0;
+  let entryTime = 0;
+  let entryCost = 0;
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: Array<{ time: number; equity: number }> = [];
+
+  const closePosition = (bar: BacktestBar, reason: BacktestTrade['exitReason']) => {
+    const proceeds = quantity * bar.close * (1 - commission);
+    const pnl = proceeds - entryCost;
+    cash += proceeds;
+    trades.push({
+      entryTime,
+      entryPrice: round(entryPrice),
+      exitTime: bar.time,
+      exitPrice: round(bar.close),
+      quantity: round(quantity, 4),
+      pnl: round(pnl),
+      returnPercent: round((pnl / entryCost) * 100),
+      exitReason: reason,
+    });
+    quantity = 0;
+  };
+
+  for (let i = 0; i < bars.length; i++) {
+    const bar = bars[i];
+
+    if (quantity > 0) {
+      const movePercent = ((bar.close - entryPrice) / entryPrice) * 100;
+      if (strategy.stopLossPercent !== undefined && movePercent <= -strategy.stopLossPercent) {
+        closePosition(bar, 'stop_loss');
+      } else if (
+        strategy.takeProfitPercent !== undefined &&
+        movePercent >= strategy.takeProfitPercent
+      ) {
+        closePosition(bar, 'take_profit');
+      } else if (evaluateGroup(strategy.exit, series, bars, i)) {
+        closePosition(bar, 'signal');
+      }
+    } else if (i < bars.length - 1 && evaluateGroup(strategy.entry, series, bars, i)) {
+      const budget = cash * sizeFraction;
+      quantity = budget / (bar.close * (1 + commission));
+      entryPrice = bar.close;
+      entryTime = bar.time;
+      entryCost = budget;
+      cash -= budget;
+    }
+
+    if (i === bars.length - 1 && quantity > 0) {
+      closePosition(bar, 'end_of_data');
+    }
+
+    equityCurve.push({ time: bar.time, equity: round(cash + quantity * bar.close) });
+  }
+
+  return {
+    trades,
+    equityCurve,
+    metrics: computeMetrics(equityCurve, trades, options),
+  };
+}
+
+function computeSeries(bars: BacktestBar[], strategy: StrategyDefinition): SeriesMap {
+  const series: SeriesMap = {};
+  for (const [name, spec] of Object.entries(strategy.indicators)) {
+    series[name] = computeIndicator(spec.type, bars, spec.period ?? DEFAULT_PERIODS[spec.type]);
+  }
+  return series;
+}
+
+// Resolve an operand to a number at bar i, or null during indicator warm-up
+function resolveOperand(
+  operand: string | number,
+  series: SeriesMap,
+  bars: BacktestBar[],
+  i: number
+): number | null {
+  if (i < 0) return null;
+  if (typeof operand === 'number') return operand;
+  if (operand === 'price') return bars[i].close;
+
+  const [name, field] = operand.split('.');
+  const value = series[name]?.[i];
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+
+  const composite = value as unknown as Record<string, number | null>;
+  // Composite indicators default to their main line
+  const key = field ?? ('macd' in composite ? 'macd' : 'middle');
+  return composite[key] ?? null;
+}
+
+function evaluateRule(rule: StrategyRule, series: SeriesMap, bars: BacktestBar[], i: number) {
+  const left = resolveOperand(rule.left, series, bars, i);
+  const right = resolveOperand(rule.right, series, bars, i);
+  if (left === null || right === null) return false;
+
+  switch (rule.op) {
+    case '>':
+      return left > right;
+    case '<':
+      return left < right;
+    case '>=':
+      return left >= right;
+    case '<=':
+      return left <= right;
+    case 'crosses_above':
+    case 'crosses_below': {
+      const prevLeft = resolveOperand(rule.left, series, bars, i - 1);
+      const prevRight = resolveOperand(rule.right, series, bars, i - 1);
+      if (prevLeft === null || prevRight === null) return false;
+      return rule.op === 'crosses_above'
+        ? prevLeft <= prevRight && left > right
+        : prevLeft >= prevRight && left < right;
+    }
+  }
+}
+
+function evaluateGroup(group: RuleGroup, series: SeriesMap, bars: BacktestBar[], i: number) {
+  if ('all' in group) {
+    return group.all.every((rule) => evaluateRule(rule, series, bars, i));
+  }
+  return group.any.some((rule) => evaluateRule(rule, series, bars, i));
+}
+
+/**
+ * Summary statistics
+ * - Max drawdown: largest peak-to-trough fall of the equity curve
+ * - Sharpe: mean / stdev of per-bar returns, annualized by sqrt(barsPerYear), zero risk-free rate
+ */
+function computeMetrics(
+  equityCurve: Array<{ time: number; equity: number }>,
+  trades: BacktestTrade[],
+  options: BacktestOptions
+): BacktestMetrics {
+  const finalEquity = equityCurve[equityCurve.length - 1]?.equity ?? options.initialCapital;
+
+  let peak = options.initialCapital;
+  let maxDrawdown = 0;
+  const returns: number[] = [];
+  let previous = options.initialCapital;
+
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+    returns.push(previous > 0 ? point.equity / previous - 1 : 0);
+    previous = point.equity;
+  }
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / (returns.length || 1);
+  const variance =
+    returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(returns.length - 1, 1);
+  const stdDev = Math.sqrt(variance);
+  const sharpe = stdDev > 0 ? (mean / stdDev) * Math.sqrt(options.barsPerYear) : 0;
+
+  const wins = trades.filter((trade) => trade.pnl > 0).length;
+
+  return {
+    initialCapital: options.initialCapital,
+    finalEquity: round(finalEquity),
+    totalReturnPercent: round(
+      ((finalEquity - options.initialCapital) / options.initialCapital) * 100
+    ),
+    maxDrawdownPercent: round(maxDrawdown * 100),
+    sharpeRatio: round(sharpe, 3),
+    winRate: trades.length > 0 ? round((wins / trades.length) * 100) : 0,
+    tradeCount: trades.length,
+  };
+}
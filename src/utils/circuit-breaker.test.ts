@@ -0,0 +1,78 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    breaker = new CircuitBreaker({ failureThreshold: 3, openDurationMs: 10_000 });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('stays closed below the failure threshold', () => {
+    breaker.recordFailure('timeout');
+    breaker.recordFailure('timeout');
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+  });
+
+  it('opens at the threshold and rejects until the cool-down ends', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('timeout');
+
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'open',
+      retryAt: now + 10_000,
+      lastError: 'timeout',
+      totals: { successes: 0, failures: 3, rejected: 1 },
+    });
+  });
+
+  it('admits exactly one trial once the cool-down has passed', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('timeout');
+    now += 10_000;
+
+    expect(breaker.snapshot().state).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('closes again when the trial succeeds', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('timeout');
+    now += 10_000;
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('reopens for a full cool-down when the trial fails', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('timeout');
+    now += 10_000;
+    breaker.tryAcquire();
+    breaker.recordFailure('still down');
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', retryAt: now + 10_000 });
+  });
+
+  it('opens straight away for as long as a rate limit asks', () => {
+    breaker.recordFailure('429 Too Many Requests', 60_000);
+
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.snapshot().retryAt).toBe(now + 60_000);
+  });
+
+  it('resets the failure count on success', () => {
+    breaker.recordFailure('timeout');
+    breaker.recordFailure('timeout');
+    breaker.recordSuccess();
+    breaker.recordFailure('timeout');
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Circuit breaker for an upstream dependency
+ * - closed: requests flow; consecutive failures are counted
+ * - open: requests are skipped until the cool-down ends
+ * - half_open: a single trial request decides between closed and open again
+ *
+ * Rate limits open the circuit straight away, for as long as the upstream asked.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  openDurationMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  retryAt: number | null;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  totals: { successes: number; failures: number; rejected: number };
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+  private lastFailureAt: number | null = null;
+  private lastSuccessAt: number | null = null;
+  private totals = { successes: 0, failures: 0, rejected: 0 };
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a request may go through now
+   * An expired open circuit moves to half-open and admits exactly one trial request
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && Date.now() >= this.openUntil) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    this.totals.rejected++;
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.lastSuccessAt = Date.now();
+    this.totals.successes++;
+  }
+
+  /**
+   * Count a failure; opens the circuit once the threshold is reached, on a failed
+   * half-open trial, or immediately when openForMs is given (rate limits)
+   */
+  recordFailure(error: string, openForMs?: number): void {
+    this.consecutiveFailures++;
+    this.lastError = error;
+    this.lastFailureAt = Date.now();
+    this.totals.failures++;
+
+    if (
+      openForMs !== undefined ||
+      this.state === 'half_open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.open(openForMs ?? this.options.openDurationMs);
+    }
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    // Report an expired open circuit as half-open without consuming the trial
+    const state = this.state === 'open' && Date.now() >= this.openUntil ? 'half_open' : this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: this.state === 'open' ? this.openUntil : null,
+      lastError: this.lastError,
+      lastFailureAt: this.lastFailureAt,
+      lastSuccessAt: this.lastSuccessAt,
+      totals: { ...this.totals },
+    };
+  }
+
+  private open(durationMs: number): void {
+    this.state = 'open';
+    this.openUntil = Date.now() + durationMs;
+    this.trialInFlight = false;
+  }
+}
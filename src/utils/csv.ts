@@ -0,0 +1,71 @@
+/**
+ * Minimal RFC 4180 CSV parsing
+ * Handles quoted fields (with embedded commas, quotes and newlines) and CRLF line endings.
+ */
+
+// Rows of raw fields; blank lines are skipped
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new Error('Invalid CSV: unterminated quoted field');
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Records keyed by the header row (lower-cased, trimmed)
+ * Each record carries its row number, counting the header as row 1, for error reporting
+ */
+export function parseCsvRecords(
+  text: string
+): Array<{ row: number; record: Record<string, string> }> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+  return rows.map((fields, i) => ({
+    row: i + 2,
+    record: Object.fromEntries(columns.map((column, j) => [column, (fields[j] ?? '').trim()])),
+  }));
+}
@@ -0,0 +1,85 @@
+import { sma, ema, rsi, macd, bollingerBands, atr, vwap, computeIndicator } from './indicators';
+
+describe('indicators', () => {
+  describe('sma', () => {
+    it('averages the last period closes after the warm-up', () => {
+      expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    });
+  });
+
+  describe('ema', () => {
+    it('is seeded with the SMA and then weights the latest price by 2 / (period + 1)', () => {
+      const result = ema([2, 4, 6, 8], 3);
+      expect(result.slice(0, 2)).toEqual([null, null]);
+      expect(result[2]).toBeCloseTo(4);
+      expect(result[3]).toBeCloseTo(8 * 0.5 + 4 * 0.5);
+    });
+  });
+
+  describe('rsi', () => {
+    it('is neutral on a perfectly flat series', () => {
+      const result = rsi(Array(20).fill(100), 14);
+      expect(result.slice(0, 14).every((value) => value === null)).toBe(true);
+      expect(result.slice(14)).toEqual(Array(6).fill(50));
+    });
+
+    it('is 100 when prices only rise and 0 when they only fall', () => {
+      const rising = Array.from({ length: 20 }, (_, i) => 100 + i);
+      expect(rsi(rising, 14)[19]).toBe(100);
+      expect(rsi([...rising].reverse(), 14)[19]).toBe(0);
+    });
+
+    it('is 50 when gains and losses balance', () => {
+      const zigzag = Array.from({ length: 15 }, (_, i) => (i % 2 === 0 ? 100 : 101));
+      expect(rsi(zigzag, 14)[14]).toBeCloseTo(50);
+    });
+  });
+
+  describe('macd', () => {
+    it('is zero with no signal yet on a flat series', () => {
+      const result = macd(Array(30).fill(10), 3, 6, 4);
+      expect(result[4]).toBeNull();
+      expect(result[5]).toEqual({ macd: 0, signal: null, histogram: null });
+      expect(result[8]).toEqual({ macd: 0, signal: 0, histogram: 0 });
+    });
+  });
+
+  describe('bollingerBands', () => {
+    it('puts the bands stdDevs population deviations from the mean', () => {
+      const [, point] = bollingerBands([1, 3], 2, 2);
+      expect(point).toEqual({ upper: 4, middle: 2, lower: 0 });
+    });
+  });
+
+  describe('atr', () => {
+    it('includes gaps from the previous close in the true range', () => {
+      const bars = [
+        { high: 11, low: 9, close: 10 },
+        { high: 15, low: 14, close: 14 },
+      ];
+      // Second true range is |15 - 10| = 5, not high - low = 1
+      expect(atr(bars, 2)).toEqual([null, (2 + 5) / 2]);
+    });
+  });
+
+  describe('vwap', () => {
+    it('weights typical prices by volume', () => {
+      const bars = [
+        { high: 10, low: 10, close: 10, volume: 1 },
+        { high: 20, low: 20, close: 20, volume: 3 },
+      ];
+      expect(vwap(bars)).toEqual([10, 17.5]);
+    });
+  });
+
+  describe('computeIndicator', () => {
+    it('keeps the input length, with nulls during the warm-up', () => {
+      const prices = Array.from({ length: 40 }, (_, i) => 100 + Math.sin(i));
+      for (const type of ['sma', 'ema', 'rsi', 'macd', 'bollinger', 'atr', 'vwap'] as const) {
+        const result = computeIndicator(type, prices);
+        expect(result).toHaveLength(prices.length);
+        expect(result[result.length - 1]).not.toBeNull();
+      }
+    });
+  });
+});
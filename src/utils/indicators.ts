@@ -0,0 +1,281 @@
+/**
+ * Technical indicators
+ * Pure functions over either raw price arrays (e.g. StockSimulator.generatePricePath output)
+ * or OHLCV bar series (e.g. candles from CandleService).
+ *
+ * Every function returns a series aligned with its input: index i is the indicator
+ * value at bar i, or null while there are not enough bars yet (the "warm-up" period).
+ */
+
+export interface OHLCVBar {
+  open?: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export type PriceSeries = number[] | OHLCVBar[];
+
+export interface MACDPoint {
+  macd: number;
+  signal: number | null;
+  histogram: number | null;
+}
+
+export interface BollingerPoint {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+// Raw prices become flat bars (high = low = close) with unit volume
+export function toBars(series: PriceSeries): OHLCVBar[] {
+  return (series as Array<number | OHLCVBar>).map((point) =>
+    typeof point === 'number' ? { high: point, low: point, close: point, volume: 1 } : point
+  );
+}
+
+export function toCloses(series: PriceSeries): number[] {
+  return (series as Array<number | OHLCVBar>).map((point) =>
+    typeof point === 'number' ? point : point.close
+  );
+}
+
+/**
+ * Simple Moving Average
+ * Mean of the last `period` closes
+ */
+export function sma(series: PriceSeries, period: number = 20): Array<number | null> {
+  const closes = toCloses(series);
+  const result: Array<number | null> = [];
+  let sum = 0;
+
+  for (let i = 0; i < closes.length; i++) {
+    sum += closes[i];
+    if (i >= period) sum -= closes[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  }
+  return result;
+}
+
+/**
+ * Exponential Moving Average
+ * Seeded with the SMA of the first `period` closes, then
+ * EMA = price * k + previousEMA * (1 - k), with k = 2 / (period + 1)
+ */
+export function ema(series: PriceSeries, period: number = 20): Array<number | null> {
+  const closes = toCloses(series);
+  const result: Array<number | null> = [];
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  let seedSum = 0;
+
+  for (let i = 0; i < closes.length; i++) {
+    if (i < period - 1) {
+      seedSum += closes[i];
+      result.push(null);
+      continue;
+    }
+    if (previous === null) {
+      previous = (seedSum + closes[i]) / period;
+    } else {
+      previous = closes[i] * k + previous * (1 - k);
+    }
+    result.push(previous);
+  }
+  return result;
+}
+
+/**
+ * Relative Strength Index (Wilder's smoothing)
+ * RSI = 100 - 100 / (1 + averageGain / averageLoss), in [0, 100]
+ * A window with no moves at all is neutral (50), not overbought
+ */
+export function rsi(series: PriceSeries, period: number = 14): Array<number | null> {
+  const closes = toCloses(series);
+  const result: Array<number | null> = closes.length > 0 ? [null] : [];
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+      if (i < period) {
+        result.push(null);
+        continue;
+      }
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+
+    if (avgLoss === 0) {
+      result.push(avgGain === 0 ? 50 : 100);
+    } else {
+      result.push(100 - 100 / (1 + avgGain / avgLoss));
+    }
+  }
+  return result;
+}
+
+/**
+ * Moving Average Convergence Divergence
+ * MACD = EMA(fast) - EMA(slow); signal = EMA(signalPeriod) of MACD; histogram = MACD - signal
+ */
+export function macd(
+  series: PriceSeries,
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): Array<MACDPoint | null> {
+  const fast = ema(series, fastPeriod);
+  const slow = ema(series, slowPeriod);
+
+  const macdLine: Array<number | null> = fast.map((f, i) => {
+    const s = slow[i];
+    return f === null || s === null ? null : f - s;
+  });
+
+  // Signal line is an EMA over the defined part of the MACD line
+  const firstDefined = macdLine.findIndex((value) => value !== null);
+  const signal: Array<number | null> =
+    firstDefined === -1
+      ? macdLine.map(() => null)
+      : [
+          ...macdLine.slice(0, firstDefined).map(() => null),
+          ...ema(macdLine.slice(firstDefined) as number[], signalPeriod),
+        ];
+
+  return macdLine.map((value, i) => {
+    if (value === null) return null;
+    const sig = signal[i];
+    return { macd: value, signal: sig, histogram: sig === null ? null : value - sig };
+  });
+}
+
+/**
+ * Bollinger Bands
+ * Middle = SMA(period); upper/lower = middle ± stdDevs * population standard deviation
+ */
+export function bollingerBands(
+  series: PriceSeries,
+  period: number = 20,
+  stdDevs: number = 2
+): Array<BollingerPoint | null> {
+  const closes = toCloses(series);
+  const middle = sma(closes, period);
+
+  return middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = closes.slice(i - period + 1, i + 1);
+    const variance = window.reduce((sum, price) => sum + (price - mean) ** 2, 0) / period;
+    const deviation = Math.sqrt(variance);
+    return { upper: mean + stdDevs * deviation, middle: mean, lower: mean - stdDevs * deviation };
+  });
+}
+
+/**
+ * Average True Range (Wilder's smoothing)
+ * True range = max(high - low, |high - previousClose|, |low - previousClose|)
+ * On raw prices this reduces to the absolute close-to-close move
+ */
+export function atr(series: PriceSeries, period: number = 14): Array<number | null> {
+  const bars = toBars(series);
+  const result: Array<number | null> = [];
+  let average = 0;
+
+  for (let i = 0; i < bars.length; i++) {
+    const { high, low } = bars[i];
+    const trueRange =
+      i === 0
+        ? high - low
+        : Math.max(
+            high - low,
+            Math.abs(high - bars[i - 1].close),
+            Math.abs(low - bars[i - 1].close)
+          );
+
+    if (i < period) {
+      average += trueRange / period;
+      result.push(i === period - 1 ? average : null);
+    } else {
+      average = (average * (period - 1) + trueRange) / period;
+      result.push(average);
+    }
+  }
+  return result;
+}
+
+/**
+ * Volume Weighted Average Price
+ * Cumulative sum(typicalPrice * volume) / sum(volume), typical price = (high + low + close) / 3
+ * Bars without volume count with weight 1, so raw prices give a running mean
+ */
+export function vwap(series: PriceSeries): Array<number | null> {
+  const bars = toBars(series);
+  const result: Array<number | null> = [];
+  let priceVolume = 0;
+  let totalVolume = 0;
+
+  for (const bar of bars) {
+    const volume = bar.volume && bar.volume > 0 ? bar.volume : 1;
+    const typical = (bar.high + bar.low + bar.close) / 3;
+    priceVolume += typical * volume;
+    totalVolume += volume;
+    result.push(priceVolume / totalVolume);
+  }
+  return result;
+}
+
+export const INDICATOR_TYPES = ['sma', 'ema', 'rsi', 'macd', 'bollinger', 'atr', 'vwap'] as const;
+export type IndicatorType = (typeof INDICATOR_TYPES)[number];
+export type IndicatorValue = number | MACDPoint | BollingerPoint;
+
+// Conventional default lookbacks; VWAP has no period
+export const DEFAULT_PERIODS: Record<IndicatorType, number> = {
+  sma: 20,
+  ema: 20,
+  rsi: 14,
+  macd: 26,
+  bollinger: 20,
+  atr: 14,
+  vwap: 0,
+};
+
+/**
+ * Dispatch by indicator name
+ * For MACD `period` is the slow EMA; fast and signal keep their 12/9 ratio to it
+ */
+export function computeIndicator(
+  type: IndicatorType,
+  series: PriceSeries,
+  period: number = DEFAULT_PERIODS[type]
+): Array<IndicatorValue | null> {
+  switch (type) {
+    case 'sma':
+      return sma(series, period);
+    case 'ema':
+      return ema(series, period);
+    case 'rsi':
+      return rsi(series, period);
+    case 'macd':
+      return macd(
+        series,
+        Math.max(2, Math.round((period * 12) / 26)),
+        period,
+        Math.max(2, Math.round((period * 9) / 26))
+      );
+    case 'bollinger':
+      return bollingerBands(series, period);
+    case 'atr':
+      return atr(series, period);
+    case 'vwap':
+      return vwap(series);
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  getExchangeCalendar,
+  getHoliday,
+  getMarketStatus,
+  getSessionDate,
+  isTradingDay,
+} from './market-calendar';
+
+const US = getExchangeCalendar('US');
+const LSE = getExchangeCalendar('LSE');
+const XETRA = getExchangeCalendar('XETRA');
+
+describe('market calendar', () => {
+  describe('getExchangeCalendar', () => {
+    it('resolves aliases and falls back to the US calendar', () => {
+      expect(getExchangeCalendar('nasdaq').code).toBe('US');
+      expect(getExchangeCalendar('XLON').code).toBe('LSE');
+      expect(getExchangeCalendar('ETR').code).toBe('XETRA');
+      expect(getExchangeCalendar('NOWHERE').code).toBe('US');
+      expect(getExchangeCalendar(null).code).toBe('US');
+    });
+  });
+
+  describe('US holidays', () => {
+    it('computes Easter-relative and nth-weekday holidays', () => {
+      expect(getHoliday(US, '2024-03-29')).toBe('Good Friday');
+      expect(getHoliday(US, '2024-01-15')).toBe('Martin Luther King Jr. Day');
+      expect(getHoliday(US, '2024-05-27')).toBe('Memorial Day');
+      expect(getHoliday(US, '2024-11-28')).toBe('Thanksgiving Day');
+    });
+
+    it('observes Saturday holidays on Friday and Sunday holidays on Monday', () => {
+      // 4 July 2026 is a Saturday, Christmas 2022 a Sunday
+      expect(getHoliday(US, '2026-07-03')).toBe('Independence Day');
+      expect(getHoliday(US, '2022-12-26')).toBe('Christmas Day');
+    });
+
+    it('does not observe a Saturday New Year on the previous 31 December', () => {
+      expect(isTradingDay(US, '2021-12-31')).toBe(true);
+      expect(getHoliday(US, '2022-01-01')).toBeNull();
+    });
+
+    it('only has Juneteenth from 2022', () => {
+      expect(getHoliday(US, '2021-06-18')).toBeNull();
+      expect(getHoliday(US, '2024-06-19')).toBe('Juneteenth');
+    });
+  });
+
+  describe('other exchanges', () => {
+    it('moves UK weekend holidays to the next free weekday', () => {
+      // Christmas 2021 was a Saturday and Boxing Day a Sunday
+      expect(getHoliday(LSE, '2021-12-27')).toBe('Christmas Day');
+      expect(getHoliday(LSE, '2021-12-28')).toBe('Boxing Day');
+      expect(getHoliday(LSE, '2024-04-01')).toBe('Easter Monday');
+    });
+
+    it('keeps German holidays on their dates', () => {
+      expect(getHoliday(XETRA, '2024-12-24')).toBe('Christmas Eve');
+      expect(getHoliday(XETRA, '2024-12-31')).toBe("New Year's Eve");
+      expect(isTradingDay(XETRA, '2024-12-30')).toBe(true);
+    });
+  });
+
+  describe('getMarketStatus', () => {
+    it('follows the US session in New York time, across daylight saving', () => {
+      expect(getMarketStatus('US', new Date('2024-03-04T08:59:00Z'))).toBe('closed');
+      expect(getMarketStatus('US', new Date('2024-03-04T09:00:00Z'))).toBe('pre_market');
+      expect(getMarketStatus('US', new Date('2024-03-04T14:30:00Z'))).toBe('open');
+      expect(getMarketStatus('US', new Date('2024-03-04T21:00:00Z'))).toBe('post_market');
+      expect(getMarketStatus('US', new Date('2024-03-05T01:00:00Z'))).toBe('closed');
+      // EDT: 9:30 local is 13:30Z
+      expect(getMarketStatus('US', new Date('2024-07-01T13:30:00Z'))).toBe('open');
+    });
+
+    it('is closed on weekends and holidays', () => {
+      expect(getMarketStatus('US', new Date('2024-03-02T15:00:00Z'))).toBe('closed');
+      expect(getMarketStatus('US', new Date('2024-03-29T15:00:00Z'))).toBe('closed');
+    });
+
+    it('closes early the day after Thanksgiving, extended hours too', () => {
+      expect(getMarketStatus('US', new Date('2024-11-29T17:59:00Z'))).toBe('open');
+      expect(getMarketStatus('US', new Date('2024-11-29T18:00:00Z'))).toBe('post_market');
+      expect(getMarketStatus('US', new Date('2024-11-29T22:00:00Z'))).toBe('closed');
+    });
+
+    it('does not close early on a Christmas Eve that falls on a weekend', () => {
+      expect(getMarketStatus('US', new Date('2023-12-22T19:00:00Z'))).toBe('open');
+    });
+
+    it('uses the exchange time zone', () => {
+      // 08:00 in London (GMT) and 09:00 in Frankfurt (CET)
+      expect(getMarketStatus('LSE', new Date('2024-03-04T08:00:00Z'))).toBe('open');
+      expect(getMarketStatus('XETRA', new Date('2024-03-04T07:59:00Z'))).toBe('pre_market');
+      expect(getMarketStatus('XETRA', new Date('2024-03-04T08:00:00Z'))).toBe('open');
+    });
+  });
+
+  describe('getSessionDate', () => {
+    it('belongs to the most recent trading day until pre-market opens', () => {
+      expect(getSessionDate('US', new Date('2024-03-04T15:00:00Z'))).toBe('2024-03-04');
+      expect(getSessionDate('US', new Date('2024-03-02T15:00:00Z'))).toBe('2024-03-01');
+      // Early Monday after Good Friday
+      expect(getSessionDate('US', new Date('2024-04-01T07:00:00Z'))).toBe('2024-03-28');
+      expect(getSessionDate('US', new Date('2024-04-01T08:00:00Z'))).toBe('2024-04-01');
+    });
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Trading calendar
+ * Knows each exchange's local sessions, weekends and holidays, so quotes can be
+ * stamped with a market status and mock prices only move while a market trades.
+ *
+ * Times are minutes after local midnight in the exchange's time zone; holidays are
+ * computed per year (fixed dates with weekend observance, Easter-relative and
+ * nth-weekday rules) rather than kept as hand-maintained lists.
+ */
+
+export type MarketStatus = 'pre_market' | 'open' | 'post_market' | 'closed';
+
+export interface ExchangeCalendar {
+  code: string;
+  timeZone: string;
+  preMarketOpen: number;
+  regularOpen: number;
+  regularClose: number;
+  postMarketClose: number;
+  holidays: (year: number) => Map<string, string>;
+  // Early closes (e.g. Christmas Eve): date → regular close in minutes
+  earlyCloses?: (year: number) => Map<string, number>;
+}
+
+interface LocalTime {
+  date: string; // YYYY-MM-DD in the exchange's time zone
+  minutes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+const isoDate = (year: number, month: number, day: number): string =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+// Day of week (0 = Sunday) for a calendar date, independent of time zones
+const weekday = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+const addDays = (date: string, days: number): string =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+const isWeekend = (date: string): boolean => weekday(date) === 0 || weekday(date) === 6;
+
+// nth (1-based) given weekday of a month; n = -1 for the last one
+const nthWeekday = (year: number, month: number, day: number, n: number): string => {
+  if (n > 0) {
+    const first = isoDate(year, month, 1);
+    const offset = (day - weekday(first) + 7) % 7;
+    return addDays(first, offset + (n - 1) * 7);
+  }
+  const last = addDays(isoDate(month === 12 ? year + 1 : year, (month % 12) + 1, 1), -1);
+  return addDays(last, -((weekday(last) - day + 7) % 7));
+};
+
+// Easter Sunday (anonymous Gregorian algorithm)
+const easterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return isoDate(year, month, day);
+};
+
+// US rule: Saturday holidays are observed Friday, Sunday holidays Monday
+const observedUS = (date: string): string => {
+  if (weekday(date) === 6) return addDays(date, -1);
+  if (weekday(date) === 0) return addDays(date, 1);
+  return date;
+};
+
+// UK rule: weekend holidays move to the next free weekday
+const observedUK = (date: string, taken: Map<string, string>): string => {
+  let observed = date;
+  while (isWeekend(observed) || taken.has(observed)) {
+    observed = addDays(observed, 1);
+  }
+  return observed;
+};
+
+// NYSE / Nasdaq
+const usHolidays = (year: number): Map<string, string> => {
+  const holidays = new Map<string, string>();
+  const newYear = observedUS(isoDate(year, 1, 1));
+  // A Saturday New Year's Day is not observed on the prior Friday (Dec 31)
+  if (newYear.startsWith(`${year}-`)) holidays.set(newYear, "New Year's Day");
+  holidays.set(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+  holidays.set(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+  holidays.set(addDays(easterSunday(year), -2), 'Good Friday');
+  holidays.set(nthWeekday(year, 5, 1, -1), 'Memorial Day');
+  if (year >= 2022) holidays.set(observedUS(isoDate(year, 6, 19)), 'Juneteenth');
+  holidays.set(observedUS(isoDate(year, 7, 4)), 'Independence Day');
+  holidays.set(nthWeekday(year, 9, 1, 1), 'Labor Day');
+  holidays.set(nthWeekday(year, 11, 4, 4), 'Thanksgiving Day');
+  holidays.set(observedUS(isoDate(year, 12, 25)), 'Christmas Day');
+  return holidays;
+};
+
+// 1:00 pm closes: Independence Day eve, the day after Thanksgiving, Christmas Eve
+const usEarlyCloses = (year: number): Map<string, number> => {
+  const holidays = usHolidays(year);
+  const candidates = [
+    isoDate(year, 7, 3),
+    addDays(nthWeekday(year, 11, 4, 4), 1),
+    isoDate(year, 12, 24),
+  ];
+  return new Map(
+    candidates
+      .filter((date) => !isWeekend(date) && !holidays.has(date))
+      .map((date) => [date, 13 * 60] as [string, number])
+  );
+};
+
+// London Stock Exchange
+const ukHolidays = (year: number): Map<string, string> => {
+  const holidays = new Map<string, string>();
+  const easter = easterSunday(year);
+  holidays.set(observedUK(isoDate(year, 1, 1), holidays), "New Year's Day");
+  holidays.set(addDays(easter, -2), 'Good Friday');
+  holidays.set(addDays(easter, 1), 'Easter Monday');
+  holidays.set(nthWeekday(year, 5, 1, 1), 'Early May Bank Holiday');
+  holidays.set(nthWeekday(year, 5, 1, -1), 'Spring Bank Holiday');
+  holidays.set(nthWeekday(year, 8, 1, -1), 'Summer Bank Holiday');
+  holidays.set(observedUK(isoDate(year, 12, 25), holidays), 'Christmas Day');
+  holidays.set(observedUK(isoDate(year, 12, 26), holidays), 'Boxing Day');
+  return holidays;
+};
+
+// Xetra (Deutsche Börse): fixed dates, not moved when they fall on a weekend
+const germanHolidays = (year: number): Map<string, string> => {
+  const easter = easterSunday(year);
+  return new Map([
+    [isoDate(year, 1, 1), "New Year's Day"],
+    [addDays(easter, -2), 'Good Friday'],
+    [addDays(easter, 1), 'Easter Monday'],
+    [isoDate(year, 5, 1), 'Labour Day'],
+    [isoDate(year, 12, 24), 'Christmas Eve'],
+    [isoDate(year, 12, 25), 'Christmas Day'],
+    [isoDate(year, 12, 26), 'Boxing Day'],
+    [isoDate(year, 12, 31), "New Year's Eve"],
+  ]);
+};
+
+const US_CALENDAR: ExchangeCalendar = {
+  code: 'US',
+  timeZone: 'America/New_York',
+  preMarketOpen: 4 * 60,
+  regularOpen: 9 * 60 + 30,
+  regularClose: 16 * 60,
+  postMarketClose: 20 * 60,
+  holidays: usHolidays,
+  earlyCloses: usEarlyCloses,
+};
+
+const CALENDARS: Record<string, ExchangeCalendar> = {
+  US: US_CALENDAR,
+  LSE: {
+    code: 'LSE',
+    timeZone: 'Europe/London',
+    preMarketOpen: 7 * 60 + 50,
+    regularOpen: 8 * 60,
+    regularClose: 16 * 60 + 30,
+    postMarketClose: 16 * 60 + 40,
+    holidays: ukHolidays,
+  },
+  XETRA: {
+    code: 'XETRA',
+    timeZone: 'Europe/Berlin',
+    preMarketOpen: 8 * 60,
+    regularOpen: 9 * 60,
+    regularClose: 17 * 60 + 30,
+    postMarketClose: 22 * 60,
+    holidays: germanHolidays,
+  },
+};
+
+// Exchange names seen in instrument data, mapped to a calendar code
+const EXCHANGE_ALIASES: Record<string, string> = {
+  NASDAQ: 'US',
+  NYSE: 'US',
+  'NYSE ARCA': 'US',
+  AMEX: 'US',
+  BATS: 'US',
+  LON: 'LSE',
+  XLON: 'LSE',
+  XETR: 'XETRA',
+  ETR: 'XETRA',
+  FRA: 'XETRA',
+};
+
+const holidayCache = new Map<string, Map<string, string>>();
+const earlyCloseCache = new Map<string, Map<string, number>>();
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar for an instrument's exchange
+ * Unknown or missing exchanges fall back to the US calendar (the default for instruments)
+ */
+export function getExchangeCalendar(exchange?: string | null): ExchangeCalendar {
+  const code = (exchange || 'US').trim().toUpperCase();
+  return CALENDARS[code] ?? CALENDARS[EXCHANGE_ALIASES[code]] ?? US_CALENDAR;
+}
+
+export function getHoliday(calendar: ExchangeCalendar, date: string): string | null {
+  const year = Number(date.slice(0, 4));
+  const key = `${calendar.code}:${year}`;
+  if (!holidayCache.has(key)) holidayCache.set(key, calendar.holidays(year));
+  return holidayCache.get(key)!.get(date) ?? null;
+}
+
+export function isTradingDay(calendar: ExchangeCalendar, date: string): boolean {
+  return !isWeekend(date) && getHoliday(calendar, date) === null;
+}
+
+// Regular and extended-hours close for a trading day (shortened on early-close days)
+function getCloseTimes(
+  calendar: ExchangeCalendar,
+  date: string
+): { regularClose: number; postMarketClose: number } {
+  if (!calendar.earlyCloses) {
+    return { regularClose: calendar.regularClose, postMarketClose: calendar.postMarketClose };
+  }
+  const year = Number(date.slice(0, 4));
+  const key = `${calendar.code}:${year}`;
+  if (!earlyCloseCache.has(key)) earlyCloseCache.set(key, calendar.earlyCloses(year));
+  const early = earlyCloseCache.get(key)!.get(date);
+  if (early === undefined) {
+    return { regularClose: calendar.regularClose, postMarketClose: calendar.postMarketClose };
+  }
+  // Extended hours end early by the same amount as the regular session
+  return {
+    regularClose: early,
+    postMarketClose: calendar.postMarketClose - (calendar.regularClose - early),
+  };
+}
+
+function toLocalTime(calendar: ExchangeCalendar, at: Date): LocalTime {
+  let formatter = formatters.get(calendar.timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: calendar.timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(calendar.timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(at)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+export function getMarketStatus(exchange: string | null | undefined, at: Date = new Date()): MarketStatus {
+  const calendar = getExchangeCalendar(exchange);
+  const local = toLocalTime(calendar, at);
+  if (!isTradingDay(calendar, local.date)) return 'closed';
+
+  const { regularClose, postMarketClose } = getCloseTimes(calendar, local.date);
+  if (local.minutes < calendar.preMarketOpen || local.minutes >= postMarketClose) return 'closed';
+  if (local.minutes < calendar.regularOpen) return 'pre_market';
+  if (local.minutes < regularClose) return 'open';
+  return 'post_market';
+}
+
+/**
+ * Trading day a moment belongs to (YYYY-MM-DD, exchange local)
+ * A new session starts at pre-market open; before that, and on weekends and
+ * holidays, the moment still belongs to the most recent trading day.
+ * Quotes roll previousClose/open whenever this value changes.
+ */
+export function getSessionDate(exchange: string | null | undefined, at: Date = new Date()): string {
+  const calendar = getExchangeCalendar(exchange);
+  const local = toLocalTime(calendar, at);
+
+  let date = local.date;
+  if (!isTradingDay(calendar, date) || local.minutes < calendar.preMarketOpen) {
+    do {
+      date = addDays(date, -1);
+    } while (!isTradingDay(calendar, date));
+  }
+  return date;
+}
@@ -0,0 +1,74 @@
+import { blackScholes, impliedVolatility, normCdf } from './options-pricing';
+
+const atm = { spot: 100, strike: 100, timeToExpiry: 1, volatility: 0.2, rate: 0.05 };
+
+describe('options pricing', () => {
+  describe('normCdf', () => {
+    it('matches the standard normal table', () => {
+      expect(normCdf(0)).toBeCloseTo(0.5, 7);
+      expect(normCdf(1.96)).toBeCloseTo(0.975, 4);
+      expect(normCdf(-1.96)).toBeCloseTo(0.025, 4);
+    });
+  });
+
+  describe('blackScholes', () => {
+    it('prices the textbook at-the-money call and put', () => {
+      expect(blackScholes({ ...atm, type: 'call' }).price).toBeCloseTo(10.4506, 3);
+      expect(blackScholes({ ...atm, type: 'put' }).price).toBeCloseTo(5.5735, 3);
+    });
+
+    it('satisfies put-call parity', () => {
+      const params = { ...atm, strike: 110, timeToExpiry: 0.5 };
+      const call = blackScholes({ ...params, type: 'call' }).price;
+      const put = blackScholes({ ...params, type: 'put' }).price;
+      expect(call - put).toBeCloseTo(100 - 110 * Math.exp(-0.05 * 0.5), 6);
+    });
+
+    it('reports Greeks in trader units', () => {
+      const call = blackScholes({ ...atm, type: 'call' });
+      const put = blackScholes({ ...atm, type: 'put' });
+      expect(call.delta - put.delta).toBeCloseTo(1, 6);
+      expect(call.gamma).toBeCloseTo(put.gamma, 10);
+      // One volatility point moves the price by about vega
+      const bumped = blackScholes({ ...atm, type: 'call', volatility: 0.21 }).price;
+      expect(bumped - call.price).toBeCloseTo(call.vega, 2);
+      expect(call.theta).toBeLessThan(0);
+    });
+
+    it('is worth its intrinsic value at expiry', () => {
+      expect(blackScholes({ ...atm, spot: 105, timeToExpiry: 0, type: 'call' })).toEqual({
+        price: 5,
+        delta: 1,
+        gamma: 0,
+        theta: 0,
+        vega: 0,
+        rho: 0,
+      });
+      expect(blackScholes({ ...atm, spot: 105, timeToExpiry: 0, type: 'put' }).price).toBe(0);
+    });
+  });
+
+  describe('impliedVolatility', () => {
+    it('recovers the volatility a premium was priced with', () => {
+      for (const volatility of [0.05, 0.3, 1.5]) {
+        for (const type of ['call', 'put'] as const) {
+          const params = { ...atm, strike: 90, type };
+          const premium = blackScholes({ ...params, volatility }).price;
+          expect(impliedVolatility(premium, params)).toBeCloseTo(volatility, 4);
+        }
+      }
+    });
+
+    it('throws for a premium outside the no-arbitrage bounds', () => {
+      expect(() => impliedVolatility(100, { ...atm, type: 'call' })).toThrow('no-arbitrage');
+      expect(() => impliedVolatility(0.01, { ...atm, spot: 120, type: 'call' })).toThrow(
+        'no-arbitrage'
+      );
+    });
+
+    it('returns null instead of an unconverged volatility', () => {
+      const premium = blackScholes({ ...atm, type: 'call', volatility: 1.2 }).price;
+      expect(impliedVolatility(premium, { ...atm, type: 'call' }, 1e-6, 2)).toBeNull();
+    });
+  });
+});
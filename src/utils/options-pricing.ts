@@ -0,0 +1,141 @@
+/**
+ * Black-Scholes pricing for European options
+ * Assumes the same lognormal (GBM) price dynamics as StockSimulator, no dividends.
+ *
+ * d1 = (ln(S/K) + (r + σ²/2)T) / (σ√T),  d2 = d1 - σ√T
+ * Call = S·N(d1) - K·e^(-rT)·N(d2)
+ * Put  = K·e^(-rT)·N(-d2) - S·N(-d1)
+ *
+ * Greeks are reported in trader units:
+ * - theta: value change per calendar day
+ * - vega: value change per 1 volatility point (0.01)
+ * - rho: value change per 1 percentage point of rate (0.01)
+ */
+
+export type OptionType = 'call' | 'put';
+
+export interface OptionParams {
+  type: OptionType;
+  spot: number;
+  strike: number;
+  timeToExpiry: number; // years
+  volatility: number; // annualized, e.g. 0.30
+  rate: number; // annualized risk-free rate, e.g. 0.045
+}
+
+export interface OptionQuote {
+  price: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+/**
+ * Standard normal CDF
+ * Abramowitz & Stegun 7.1.26 approximation of erf (|error| < 1.5e-7)
+ */
+export function normCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(x) / Math.SQRT2));
+  const poly =
+    t *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export function normPdf(x: number): number {
+  return Math.exp(-(x * x) / 2) / Math.sqrt(2 * Math.PI);
+}
+
+export function blackScholes(params: OptionParams): OptionQuote {
+  const { type, spot, strike, timeToExpiry: t, volatility: sigma, rate: r } = params;
+
+  // At (or past) expiry the option is worth its intrinsic value
+  if (t <= 0 || sigma <= 0) {
+    const intrinsic = type === 'call' ? Math.max(spot - strike, 0) : Math.max(strike - spot, 0);
+    const inTheMoney = intrinsic > 0;
+    return {
+      price: intrinsic,
+      delta: inTheMoney ? (type === 'call' ? 1 : -1) : 0,
+      gamma: 0,
+      theta: 0,
+      vega: 0,
+      rho: 0,
+    };
+  }
+
+  const sqrtT = Math.sqrt(t);
+  const d1 = (Math.log(spot / strike) + (r + (sigma * sigma) / 2) * t) / (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+  const discount = Math.exp(-r * t);
+  const pdfD1 = normPdf(d1);
+
+  const gamma = pdfD1 / (spot * sigma * sqrtT);
+  const vega = (spot * pdfD1 * sqrtT) / 100;
+  const decay = -(spot * pdfD1 * sigma) / (2 * sqrtT);
+
+  if (type === 'call') {
+    return {
+      price: spot * normCdf(d1) - strike * discount * normCdf(d2),
+      delta: normCdf(d1),
+      gamma,
+      theta: (decay - r * strike * discount * normCdf(d2)) / 365,
+      vega,
+      rho: (strike * t * discount * normCdf(d2)) / 100,
+    };
+  }
+
+  return {
+    price: strike * discount * normCdf(-d2) - spot * normCdf(-d1),
+    delta: normCdf(d1) - 1,
+    gamma,
+    theta: (decay + r * strike * discount * normCdf(-d2)) / 365,
+    vega,
+    rho: -(strike * t * discount * normCdf(-d2)) / 100,
+  };
+}
+
+/**
+ * Solve for the volatility that reproduces a market premium
+ * Newton-Raphson on vega, falling back to bisection when vega vanishes or a step
+ * leaves the bracket. Throws if the premium violates no-arbitrage bounds; returns null
+ * if no volatility within the bracket reproduces it to `tolerance` in `maxIterations`.
+ */
+export function impliedVolatility(
+  premium: number,
+  params: Omit<OptionParams, 'volatility'>,
+  tolerance: number = 1e-6,
+  maxIterations: number = 100
+): number | null {
+  const { type, spot, strike, timeToExpiry: t, rate: r } = params;
+  const discountedStrike = strike * Math.exp(-r * t);
+  const lowerBound =
+    type === 'call' ? Math.max(spot - discountedStrike, 0) : Math.max(discountedStrike - spot, 0);
+  const upperBound = type === 'call' ? spot : discountedStrike;
+
+  if (t <= 0 || premium <= lowerBound || premium >= upperBound) {
+    throw new Error('Premium is outside no-arbitrage bounds; implied volatility is undefined');
+  }
+
+  let low = 1e-4;
+  let high = 5;
+  let sigma = 0.3;
+
+  for (let i = 0; i < maxIterations; i++) {
+    const quote = blackScholes({ ...params, volatility: sigma });
+    const diff = quote.price - premium;
+    if (Math.abs(diff) < tolerance) return sigma;
+
+    // Price is increasing in volatility, so keep the root bracketed
+    if (diff > 0) high = sigma;
+    else low = sigma;
+
+    const vegaPerUnit = quote.vega * 100;
+    const newton = vegaPerUnit > 1e-8 ? sigma - diff / vegaPerUnit : NaN;
+    sigma = newton > low && newton < high ? newton : (low + high) / 2;
+  }
+
+  return null;
+}
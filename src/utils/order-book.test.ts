@@ -0,0 +1,93 @@
+import { SyntheticOrderBook, BookLevel, OrderBookSnapshot, BOOK_LEVELS } from './order-book';
+import { createSeededRandom } from './random';
+
+function book(volatility: number = 0.3): SyntheticOrderBook {
+  return new SyntheticOrderBook('AAPL', volatility, createSeededRandom('order-book-test'));
+}
+
+// Apply a level diff the way a client does: size 0 removes the level
+function applyLevels(levels: BookLevel[], changes: BookLevel[], descending: boolean): BookLevel[] {
+  const sizes = new Map(levels);
+  for (const [price, size] of changes) {
+    if (size === 0) sizes.delete(price);
+    else sizes.set(price, size);
+  }
+  return Array.from(sizes).sort(([a], [b]) => (descending ? b - a : a - b));
+}
+
+describe('SyntheticOrderBook', () => {
+  it('builds a first book with every level in the update and no trades', () => {
+    const orderBook = book();
+    const { update, trades } = orderBook.step(100, 1000);
+    const snapshot = orderBook.snapshot()!;
+
+    expect(snapshot.seq).toBe(1);
+    expect(trades).toEqual([]);
+    expect(update.bids).toEqual(snapshot.bids);
+    expect(update.asks).toEqual(snapshot.asks);
+    expect(snapshot.bids).toHaveLength(BOOK_LEVELS);
+    expect(snapshot.asks).toHaveLength(BOOK_LEVELS);
+  });
+
+  it('keeps bids descending below asks ascending around the mid', () => {
+    const orderBook = book();
+    orderBook.step(100);
+    const { bids, asks, mid, spread } = orderBook.snapshot()!;
+
+    expect(bids[0][0]).toBeLessThan(mid);
+    expect(asks[0][0]).toBeGreaterThan(mid);
+    expect(asks[0][0] - bids[0][0]).toBeCloseTo(spread, 6);
+    for (let i = 1; i < BOOK_LEVELS; i++) {
+      expect(bids[i][0]).toBeLessThan(bids[i - 1][0]);
+      expect(asks[i][0]).toBeGreaterThan(asks[i - 1][0]);
+    }
+    expect([...bids, ...asks].every(([, size]) => size > 0)).toBe(true);
+  });
+
+  it('sends diffs that rebuild the next book from the previous one', () => {
+    const orderBook = book();
+    orderBook.step(100);
+    let client: OrderBookSnapshot = orderBook.snapshot()!;
+
+    for (const mid of [100.05, 100.3, 99.8, 99.81, 101]) {
+      const { update } = orderBook.step(mid);
+      expect(update.seq).toBe(client.seq + 1);
+      client = {
+        ...client,
+        seq: update.seq,
+        bids: applyLevels(client.bids, update.bids, true),
+        asks: applyLevels(client.asks, update.asks, false),
+      };
+      const server = orderBook.snapshot()!;
+      expect(client.bids).toEqual(server.bids);
+      expect(client.asks).toEqual(server.asks);
+    }
+  });
+
+  it('prints mostly buyer-initiated trades on upticks and seller-initiated on downticks', () => {
+    const orderBook = book();
+    let mid = 100;
+    orderBook.step(mid);
+    const sides = { up: { buy: 0, sell: 0 }, down: { buy: 0, sell: 0 } };
+
+    for (let i = 0; i < 200; i++) {
+      const direction = i % 2 === 0 ? 'up' : 'down';
+      mid += direction === 'up' ? 0.5 : -0.5;
+      for (const trade of orderBook.step(mid).trades) sides[direction][trade.side]++;
+    }
+    expect(sides.up.buy).toBeGreaterThan(sides.up.sell);
+    expect(sides.down.sell).toBeGreaterThan(sides.down.buy);
+  });
+
+  it('quotes volatile names wider and thinner', () => {
+    const calm = book(0.15);
+    const wild = book(0.9);
+    calm.step(100);
+    wild.step(100);
+
+    const depth = (snapshot: OrderBookSnapshot) =>
+      snapshot.bids.reduce((sum, [, size]) => sum + size, 0);
+    expect(wild.snapshot()!.spread).toBeGreaterThan(calm.snapshot()!.spread);
+    expect(depth(wild.snapshot()!)).toBeLessThan(depth(calm.snapshot()!));
+  });
+});
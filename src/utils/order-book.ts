@@ -0,0 +1,172 @@
+/**
+ * Synthetic L2 order book and trade tape
+ * Builds a book around a mid price with spread and depth scaled by the instrument's
+ * volatility (volatile names quote wider and thinner), and prints trades as the mid moves
+ * between ticks: mostly buyer-initiated on upticks, seller-initiated on downticks.
+ *
+ * Updates are level diffs against the previous book; a size of 0 removes a level.
+ */
+
+import { RandomSource } from './random';
+
+// [price, size]
+export type BookLevel = [number, number];
+export type AggressorSide = 'buy' | 'sell';
+
+export interface OrderBookSnapshot {
+  symbol: string;
+  seq: number;
+  mid: number;
+  spread: number;
+  bids: BookLevel[]; // best (highest) first
+  asks: BookLevel[]; // best (lowest) first
+  timestamp: number;
+}
+
+export interface OrderBookUpdate {
+  symbol: string;
+  seq: number;
+  bids: BookLevel[];
+  asks: BookLevel[];
+  timestamp: number;
+}
+
+export interface Trade {
+  symbol: string;
+  price: number;
+  size: number;
+  side: AggressorSide;
+  timestamp: number;
+}
+
+export const BOOK_LEVELS = 10;
+// Notional resting at the best level for a 30%-volatility name
+const BASE_LEVEL_NOTIONAL = 250000;
+const REFERENCE_VOLATILITY = 0.3;
+const LOT_SIZE = 100;
+
+const tickSize = (price: number) => (price < 1 ? 0.0001 : 0.01);
+const roundTo = (value: number, step: number) =>
+  parseFloat((Math.round(value / step) * step).toFixed(step < 0.01 ? 4 : 2));
+
+export class SyntheticOrderBook {
+  private seq = 0;
+  private book: OrderBookSnapshot | null = null;
+
+  constructor(
+    readonly symbol: string,
+    private volatility: number,
+    private random: RandomSource = Math.random
+  ) {}
+
+  snapshot(): OrderBookSnapshot | null {
+    return this.book;
+  }
+
+  /**
+   * Move the book to a new mid
+   * Returns the level diff and the trades printed on the way (none for the first book)
+   */
+  step(mid: number, timestamp: number = Date.now()): { update: OrderBookUpdate; trades: Trade[] } {
+    const previous = this.book;
+    const { bids, asks, spread } = this.buildLevels(mid, previous);
+    const trades = previous ? this.printTrades(previous, mid, timestamp) : [];
+
+    this.seq++;
+    this.book = { symbol: this.symbol, seq: this.seq, mid, spread, bids, asks, timestamp };
+
+    return {
+      update: {
+        symbol: this.symbol,
+        seq: this.seq,
+        bids: diffLevels(previous?.bids ?? [], bids),
+        asks: diffLevels(previous?.asks ?? [], asks),
+        timestamp,
+      },
+      trades,
+    };
+  }
+
+  // Spread of ~2bp plus 20bp per unit of volatility; levels spaced wider for volatile names
+  // Levels still in the book mostly keep their size, so updates stay small
+  private buildLevels(
+    mid: number,
+    previous: OrderBookSnapshot | null
+  ): { bids: BookLevel[]; asks: BookLevel[]; spread: number } {
+    const tick = tickSize(mid);
+    const spread = Math.max(tick, roundTo((mid * (2 + this.volatility * 20)) / 10000, tick));
+    const gap = Math.max(tick, roundTo(spread * (0.5 + this.volatility), tick));
+    const bestBid = roundTo(mid - spread / 2, tick);
+    const bestAsk = roundTo(bestBid + spread, tick);
+
+    // Depth thins out as volatility rises and grows away from the touch
+    const baseShares = (BASE_LEVEL_NOTIONAL / mid) * (REFERENCE_VOLATILITY / this.volatility);
+    const restingSizes = new Map([...(previous?.bids ?? []), ...(previous?.asks ?? [])]);
+    const newSize = (level: number) =>
+      Math.max(
+        LOT_SIZE,
+        Math.round((baseShares * (1 + 0.35 * level) * (0.6 + 0.8 * this.random())) / LOT_SIZE) *
+          LOT_SIZE
+      );
+    const levelSize = (price: number, level: number) => {
+      const resting = restingSizes.get(price);
+      return resting !== undefined && this.random() < 0.7 ? resting : newSize(level);
+    };
+
+    const bids: BookLevel[] = [];
+    const asks: BookLevel[] = [];
+    // The touch follows the mid; deeper levels sit on a fixed price grid so they persist
+    // across small moves (in whole ticks to avoid floating point drift)
+    const gapTicks = Math.round(gap / tick);
+    const bidGrid = Math.floor((Math.round(bestBid / tick) - 1) / gapTicks);
+    const askGrid = Math.floor(Math.round(bestAsk / tick) / gapTicks) + 1;
+    const gridPrice = (index: number) => roundTo(index * gapTicks * tick, tick);
+    for (let level = 0; level < BOOK_LEVELS; level++) {
+      const bidPrice = level === 0 ? bestBid : gridPrice(bidGrid - level + 1);
+      const askPrice = level === 0 ? bestAsk : gridPrice(askGrid + level - 1);
+      if (bidPrice > 0) bids.push([bidPrice, levelSize(bidPrice, level)]);
+      asks.push([askPrice, levelSize(askPrice, level)]);
+    }
+    return { bids, asks, spread };
+  }
+
+  // Aggressors lift offers on the way up and hit bids on the way down
+  private printTrades(previous: OrderBookSnapshot, mid: number, timestamp: number): Trade[] {
+    const move = mid - previous.mid;
+    const buyProbability = move > 0 ? 0.75 : move < 0 ? 0.25 : 0.5;
+    const count =
+      1 + Math.floor(this.random() * (2 + Math.min(6, Math.abs(move) / previous.spread)));
+    const tick = tickSize(mid);
+
+    const trades: Trade[] = [];
+    for (let i = 0; i < count; i++) {
+      const side: AggressorSide = this.random() < buyProbability ? 'buy' : 'sell';
+      // Walk from the old touch towards the new mid as the tape prints
+      const progress = (i + 1) / count;
+      const touch = side === 'buy' ? previous.asks[0]?.[0] : previous.bids[0]?.[0];
+      const target = side === 'buy' ? Math.max(touch ?? mid, mid) : Math.min(touch ?? mid, mid);
+      const price = roundTo((touch ?? mid) + (target - (touch ?? mid)) * progress, tick);
+
+      // Mostly round lots, occasionally an odd lot
+      const size =
+        this.random() < 0.1
+          ? 1 + Math.floor(this.random() * (LOT_SIZE - 1))
+          : LOT_SIZE * (1 + Math.floor(this.random() * 10));
+
+      trades.push({ symbol: this.symbol, price, size, side, timestamp: timestamp + i });
+    }
+    return trades;
+  }
+}
+
+// Levels whose size changed, plus removed levels with size 0
+function diffLevels(previous: BookLevel[], next: BookLevel[]): BookLevel[] {
+  const nextSizes = new Map(next);
+  const previousSizes = new Map(previous);
+  const changes: BookLevel[] = next.filter(([price, size]) => previousSizes.get(price) !== size);
+
+  for (const [price] of previous) {
+    if (!nextSizes.has(price)) changes.push([price, 0]);
+  }
+  return changes;
+}
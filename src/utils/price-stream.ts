@@ -0,0 +1,109 @@
+/**
+ * Per-socket price stream for one symbol
+ * - Rate limit: at most maxUpdatesPerSecond messages; ticks arriving faster are conflated,
+ *   only the latest one is sent when the window reopens
+ * - Delta mode: a full `price_snapshot` first, then `price_delta` messages with only the
+ *   fields that changed since the last message
+ *
+ * Every message carries a per-stream sequence number that increases by one, so a client
+ * that sees a gap can ask for a resync (a fresh snapshot).
+ */
+
+export interface PriceStreamOptions {
+  delta: boolean;
+  maxUpdatesPerSecond: number | null;
+}
+
+// Upper bound on requested rates; faster than this isn't a meaningful limit
+export const MAX_UPDATES_PER_SECOND = 20;
+
+type QuoteFields = { symbol: string };
+type Emit = (event: string, payload: unknown) => void;
+
+export class PriceStream {
+  private seq = 0;
+  private lastSent: QuoteFields | null = null;
+  private lastSentAt = 0;
+  private pending: QuoteFields | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly options: PriceStreamOptions,
+    private emit: Emit
+  ) {}
+
+  push(quote: QuoteFields): void {
+    const minIntervalMs = this.options.maxUpdatesPerSecond
+      ? 1000 / this.options.maxUpdatesPerSecond
+      : 0;
+    const wait = this.lastSentAt + minIntervalMs - Date.now();
+
+    if (wait <= 0) {
+      this.send(quote);
+      return;
+    }
+
+    // Conflate: keep only the newest tick until the window reopens
+    this.pending = quote;
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        const latest = this.pending;
+        this.pending = null;
+        if (latest) this.send(latest);
+      }, wait);
+    }
+  }
+
+  // Start over from a full snapshot (client detected a gap)
+  resync(quote: QuoteFields): void {
+    this.lastSent = null;
+    this.pending = null;
+    this.send(quote);
+  }
+
+  // Sequence number of the last message sent
+  getSeq(): number {
+    return this.seq;
+  }
+
+  close(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.pending = null;
+  }
+
+  private send(quote: QuoteFields): void {
+    if (!this.options.delta) {
+      this.record(quote);
+      this.emit('price_update', { ...quote, seq: this.seq });
+      return;
+    }
+
+    if (!this.lastSent) {
+      this.record(quote);
+      this.emit('price_snapshot', { symbol: quote.symbol, seq: this.seq, quote });
+      return;
+    }
+
+    // Fields that disappeared are sent as null so the client can drop them
+    const previous = this.lastSent as Record<string, unknown>;
+    const next = quote as Record<string, unknown>;
+    const changes: Record<string, unknown> = {};
+    const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    for (const field of fields) {
+      if (previous[field] !== next[field]) changes[field] = next[field] ?? null;
+    }
+    // Nothing the client doesn't already have
+    if (Object.keys(changes).length === 0) return;
+
+    this.record(quote);
+    this.emit('price_delta', { symbol: quote.symbol, seq: this.seq, changes });
+  }
+
+  private record(quote: QuoteFields): void {
+    this.seq++;
+    this.lastSent = quote;
+    this.lastSentAt = Date.now();
+  }
+}
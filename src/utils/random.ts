@@ -0,0 +1,39 @@
+/**
+ * Seedable pseudo-random numbers
+ * Math.random() can't be seeded, so simulations that must be reproducible
+ * (demos, replays, tests) draw from a RandomSource created here instead.
+ */
+
+// Uniform [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+/**
+ * Hash any string into a 32-bit seed (xmur3)
+ * Lets callers derive independent streams from readable keys like "42:AAPL"
+ */
+export function hashSeed(key: string): number {
+  let h = 1779033703 ^ key.length;
+  for (let i = 0; i < key.length; i++) {
+    h = Math.imul(h ^ key.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Mulberry32 generator
+ * Small and fast with a 2^32 period, plenty for price simulation
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
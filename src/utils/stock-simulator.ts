@@ -15,7 +15,95 @@
  * - dW: random normal shock ~ N(0, 1)
  */
 
+import { RandomSource, createSeededRandom } from './random';
+
+export interface JumpParameters {
+  intensity: number;
+  jumpMean: number;
+  jumpVolatility: number;
+}
+
+export interface SymbolParameters {
+  drift: number;
+  volatility: number;
+  basePrice: number;
+}
+
+export interface HestonParameters {
+  kappa: number; // mean-reversion speed of variance
+  theta: number; // long-run variance
+  xi: number; // volatility of variance
+  rho: number; // correlation between price and variance shocks
+}
+
+// Correlation between two different stocks in the same sector
+const SAME_SECTOR_CORRELATION = 0.65;
+// Baseline correlation every pair of stocks shares through the overall market
+const MARKET_CORRELATION = 0.3;
+// Cross-sector pairs that move together more (or less) than the market baseline
+const SECTOR_CORRELATIONS: Record<string, number> = {
+  'technology:consumer': 0.45,
+  'technology:industrial': 0.4,
+  'financial:industrial': 0.45,
+  'financial:energy': 0.4,
+  'energy:industrial': 0.45,
+  'healthcare:consumer': 0.35,
+  'utilities:technology': 0.15,
+  'utilities:energy': 0.3,
+  'utilities:financial': 0.2,
+  'utilities:consumer': 0.25,
+};
+
+// Sectors of the built-in demo symbols
+const SYMBOL_SECTORS: Record<string, string> = {
+  TSLA: 'consumer',
+  NVDA: 'technology',
+  AAPL: 'technology',
+  MSFT: 'technology',
+  GOOGL: 'technology',
+  AMZN: 'consumer',
+  META: 'technology',
+  JNJ: 'healthcare',
+  PG: 'consumer',
+  KO: 'consumer',
+  JPM: 'financial',
+  BAC: 'financial',
+};
+
+// Per-instrument parameters (from the instruments table), shared by every simulator instance
+const symbolParameters: Map<string, SymbolParameters> = new Map();
+
 class StockSimulator {
+    // Per-symbol seeded simulators, so each symbol's stream continues across calls
+    private symbolStreams: Map<string, StockSimulator> = new Map();
+
+    /**
+     * @param random - Uniform [0, 1) source; inject a seeded one for reproducible runs
+     */
+    constructor(private random: RandomSource = Math.random) {}
+
+    /**
+     * Simulator with its own deterministic stream
+     * The same seed always yields the same sequence of prices
+     */
+    withSeed(seed: number | string): StockSimulator {
+      return new StockSimulator(createSeededRandom(seed));
+    }
+
+    /**
+     * Long-lived deterministic stream for one symbol, keyed by seed + symbol
+     * Symbols don't share draws, so adding or removing one doesn't shift the others
+     */
+    forSymbol(symbol: string, seed: number | string): StockSimulator {
+      const key = `${seed}:${symbol.toUpperCase()}`;
+      let simulator = this.symbolStreams.get(key);
+      if (!simulator) {
+        simulator = this.withSeed(key);
+        this.symbolStreams.set(key, simulator);
+      }
+      return simulator;
+    }
+
     /**
      * Generate next price using GBM
      * 
@@ -33,6 +121,20 @@ class StockSimulator {
       // Generate random normal variable (Box-Muller transform)
       const randomShock = this.randomNormal(0, 1);
   
+      return this.applyShock(currentPrice, drift, volatility, timeStep, randomShock);
+    }
+
+    /**
+     * GBM step with a given N(0, 1) shock
+     * Lets correlated models supply shocks drawn jointly across symbols
+     */
+    applyShock(
+      currentPrice: number,
+      drift: number,
+      volatility: number,
+      timeStep: number,
+      randomShock: number
+    ): number {
       // GBM formula
       const drift_component = drift * timeStep;
       const volatility_component = volatility * Math.sqrt(timeStep) * randomShock;
@@ -42,21 +144,168 @@ class StockSimulator {
   
       return parseFloat(nextPrice.toFixed(2));
     }
+
+    /**
+     * Merton jump-diffusion step
+     * GBM plus a compound Poisson jump term for earnings-style gaps:
+     * dS/S = (μ - λk)dt + σdW + (J - 1)dN,  ln J ~ N(jumpMean, jumpVolatility²)
+     * where k = E[J - 1] keeps the expected return equal to the drift
+     *
+     * @param jump.intensity - Expected jumps per year (λ), e.g. 4 for quarterly earnings
+     * @param jump.jumpMean - Mean log jump size, e.g. -0.01
+     * @param jump.jumpVolatility - Std dev of log jump size, e.g. 0.06
+     */
+    generateJumpDiffusionPrice(
+      currentPrice: number,
+      drift: number,
+      volatility: number,
+      timeStep: number,
+      jump: JumpParameters
+    ): number {
+      const k = Math.exp(jump.jumpMean + (jump.jumpVolatility ** 2) / 2) - 1;
+      const jumps = this.randomPoisson(jump.intensity * timeStep);
+
+      let jumpComponent = 0;
+      for (let i = 0; i < jumps; i++) {
+        jumpComponent += this.randomNormal(jump.jumpMean, jump.jumpVolatility);
+      }
+
+      const diffusion = this.applyShock(
+        currentPrice,
+        drift - jump.intensity * k,
+        volatility,
+        timeStep,
+        this.randomNormal(0, 1)
+      );
+      return parseFloat((diffusion * Math.exp(jumpComponent)).toFixed(2));
+    }
+
+    /**
+     * Heston stochastic volatility step (Euler, full truncation)
+     * dS/S = μdt + √v dW₁
+     * dv = κ(θ - v)dt + ξ√v dW₂,  corr(dW₁, dW₂) = ρ
+     * Negative ρ reproduces the leverage effect: volatility rises as prices fall
+     *
+     * @param variance - Current instantaneous variance v (volatility²)
+     */
+    generateHestonStep(
+      currentPrice: number,
+      variance: number,
+      drift: number,
+      timeStep: number,
+      heston: HestonParameters
+    ): { price: number; variance: number } {
+      const z1 = this.randomNormal(0, 1);
+      const z2 = heston.rho * z1 + Math.sqrt(1 - heston.rho ** 2) * this.randomNormal(0, 1);
+      const v = Math.max(variance, 0);
+
+      const price = this.applyShock(currentPrice, drift, Math.sqrt(v), timeStep, z1);
+      const nextVariance =
+        v + heston.kappa * (heston.theta - v) * timeStep + heston.xi * Math.sqrt(v * timeStep) * z2;
+
+      return { price, variance: Math.max(nextVariance, 0) };
+    }
+
+    /**
+     * Step several symbols together with correlated shocks
+     * Shocks are L·z where L is the Cholesky factor of their correlation matrix
+     * (see buildCorrelationMatrix / choleskyDecompose)
+     */
+    generateCorrelatedPrices(
+      currentPrices: number[],
+      params: Array<{ drift: number; volatility: number }>,
+      cholesky: number[][],
+      timeStep: number
+    ): number[] {
+      const shocks = this.correlatedNormals(cholesky);
+      return currentPrices.map((price, i) =>
+        this.applyShock(price, params[i].drift, params[i].volatility, timeStep, shocks[i])
+      );
+    }
+
+    // Correlated N(0, 1) draws: L·z with z independent standard normals
+    correlatedNormals(cholesky: number[][]): number[] {
+      const z = cholesky.map(() => this.randomNormal(0, 1));
+      return cholesky.map((row) => row.reduce((sum, l, j) => sum + l * z[j], 0));
+    }
+
+    /**
+     * Correlation between two stocks given their sectors
+     * Same-sector stocks move together most; every pair shares a market factor
+     */
+    getSectorCorrelation(sectorA?: string, sectorB?: string): number {
+      const a = sectorA?.toLowerCase() || '';
+      const b = sectorB?.toLowerCase() || '';
+      if (a && a === b) return SAME_SECTOR_CORRELATION;
+      return SECTOR_CORRELATIONS[`${a}:${b}`] ?? SECTOR_CORRELATIONS[`${b}:${a}`] ?? MARKET_CORRELATION;
+    }
+
+    // Symmetric correlation matrix (1 on the diagonal) for stocks in the given sectors
+    buildCorrelationMatrix(sectors: Array<string | undefined>): number[][] {
+      return sectors.map((rowSector, i) =>
+        sectors.map((colSector, j) => (i === j ? 1 : this.getSectorCorrelation(rowSector, colSector)))
+      );
+    }
+
+    /**
+     * Cholesky factorization A = L·Lᵀ of a symmetric positive-definite matrix
+     * Returns the lower-triangular L; throws if A is not positive definite
+     */
+    choleskyDecompose(matrix: number[][]): number[][] {
+      const n = matrix.length;
+      const lower: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+          let sum = matrix[i][j];
+          for (let k = 0; k < j; k++) {
+            sum -= lower[i][k] * lower[j][k];
+          }
+
+          if (i === j) {
+            if (sum <= 0) {
+              throw new Error('Correlation matrix is not positive definite');
+            }
+            lower[i][j] = Math.sqrt(sum);
+          } else {
+            lower[i][j] = sum / lower[j][j];
+          }
+        }
+      }
+      return lower;
+    }
+
+    // Poisson draw (Knuth); fine for the small means of per-tick jump counts
+    private randomPoisson(mean: number): number {
+      const limit = Math.exp(-mean);
+      let count = 0;
+      let product = this.random();
+      while (product > limit) {
+        count++;
+        product *= this.random();
+      }
+      return count;
+    }
   
     /**
      * Generate random number from normal distribution N(mean, stdDev)
      * Uses Box-Muller transform
-     * Math.random() gives uniform distribution [0,1]
+     * The random source gives uniform distribution [0,1)
      * Box-Muller converts uniform → normal distribution
      * This is how all quant libraries generate random walks
      */
-    private randomNormal(mean: number = 0, stdDev: number = 1): number {
-      // Box-Muller transform
-      const u1 = Math.random();
-      const u2 = Math.random();
+    randomNormal(mean: number = 0, stdDev: number = 1): number {
+      // Box-Muller transform (1 - u keeps u1 in (0, 1] so log never sees 0)
+      const u1 = 1 - this.random();
+      const u2 = this.random();
       const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
       return z0 * stdDev + mean;
     }
+
+    // Uniform [0, 1) draw from this simulator's stream
+    randomUniform(): number {
+      return this.random();
+    }
   
     /**
      * Generate price path over time
@@ -67,18 +316,21 @@ class StockSimulator {
      * @param drift - Annual return
      * @param volatility - Annual volatility
      * @param timeStep - Time interval per step
+     * @param seed - Optional seed; the same seed regenerates the exact same path
      */
     generatePricePath(
       startPrice: number,
       steps: number,
       drift: number = 0.10,
       volatility: number = 0.30,
-      timeStep: number = 1 / 252 // Daily by default
+      timeStep: number = 1 / 252, // Daily by default
+      seed?: number | string
     ): number[] {
+      const simulator = seed === undefined ? this : this.withSeed(seed);
       const prices: number[] = [startPrice];
   
       for (let i = 1; i < steps; i++) {
-        const nextPrice = this.generateNextPrice(prices[i - 1], drift, volatility, timeStep);
+        const nextPrice = simulator.generateNextPrice(prices[i - 1], drift, volatility, timeStep);
         prices.push(nextPrice);
       }
       return prices;
@@ -104,34 +356,50 @@ class StockSimulator {
       return volatilities[sector?.toLowerCase() || ''] || 0.30;
     }
   
+    // Known sector for the built-in symbols (used for correlations)
+    getSymbolSector(symbol: string, fallback?: string): string | undefined {
+      return SYMBOL_SECTORS[symbol.toUpperCase()] ?? fallback;
+    }
+
+    /**
+     * Default jump parameters: roughly four earnings gaps a year,
+     * with gap size scaled to the stock's volatility
+     */
+    getJumpParameters(volatility: number): JumpParameters {
+      return { intensity: 4, jumpMean: -0.005, jumpVolatility: volatility / 5 };
+    }
+
+    /**
+     * Default Heston parameters: variance mean-reverts to the symbol's GBM volatility²
+     * within a few months, with a typical equity leverage effect
+     */
+    getHestonParameters(volatility: number): HestonParameters {
+      return { kappa: 3, theta: volatility ** 2, xi: 0.5, rho: -0.7 };
+    }
+
+    /**
+     * Replace the per-instrument parameters
+     * Loaded from the instruments table by InstrumentService and refreshed when edited
+     */
+    setSymbolParameters(parameters: Map<string, SymbolParameters>): void {
+      symbolParameters.clear();
+      for (const [symbol, params] of parameters) {
+        symbolParameters.set(symbol.toUpperCase(), params);
+      }
+    }
+
     /**
      * Get symbol-specific parameters for realistic simulation
+     * Instruments without parameters fall back to their sector's typical volatility
      */
-    getSymbolParameters(symbol: string): { drift: number; volatility: number; basePrice: number } {
-      // Real stocks have different characteristics
-      const params: Record<string, { drift: number; volatility: number; basePrice: number }> = {
-        // High-growth tech (high volatility, high return)
-        TSLA: { drift: 0.15, volatility: 0.60, basePrice: 250 },
-        NVDA: { drift: 0.20, volatility: 0.50, basePrice: 880 },
-        
-        // Mega-cap tech (moderate volatility, solid return)
-        AAPL: { drift: 0.12, volatility: 0.30, basePrice: 180 },
-        MSFT: { drift: 0.12, volatility: 0.28, basePrice: 380 },
-        GOOGL: { drift: 0.10, volatility: 0.30, basePrice: 140 },
-        AMZN: { drift: 0.12, volatility: 0.35, basePrice: 170 },
-        META: { drift: 0.10, volatility: 0.40, basePrice: 480 },
-        
-        // Blue-chip stable (low volatility, modest return)
-        JNJ: { drift: 0.06, volatility: 0.15, basePrice: 160 },
-        PG: { drift: 0.05, volatility: 0.15, basePrice: 150 },
-        KO: { drift: 0.05, volatility: 0.18, basePrice: 60 },
-        
-        // Financial (moderate everything)
-        JPM: { drift: 0.08, volatility: 0.25, basePrice: 190 },
-        BAC: { drift: 0.07, volatility: 0.28, basePrice: 35 },
-      };
-  
-      return params[symbol.toUpperCase()] || { drift: 0.10, volatility: 0.30, basePrice: 100 };
+    getSymbolParameters(symbol: string, sector?: string): SymbolParameters {
+      return (
+        symbolParameters.get(symbol.toUpperCase()) || {
+          drift: 0.10,
+          volatility: this.getSectorVolatility(sector),
+          basePrice: 100,
+        }
+      );
     }
   }
   